@@ -5,6 +5,16 @@ import type { EasingName } from '../../core/types.ts';
 import { getEasing } from './easing.ts';
 import type { Mobject } from '../../core/mobject.ts';
 
+/**
+ * Scene operations an animation may apply once it has finished
+ * (implemented by Scene).
+ */
+export interface SceneMembership {
+  add(...objs: Mobject[]): void;
+  remove(...objs: Mobject[]): void;
+  replace(oldObj: Mobject, newObj: Mobject): void;
+}
+
 /**
  * Base animation operating on a single Mobject.
  */
@@ -50,6 +60,11 @@ export abstract class Animation {
     // default no-op
   }
 
+  /** Apply scene membership changes after cleanup (default none). */
+  public finish(_scene: SceneMembership): void {
+    // default no-op
+  }
+
   /** Map linear time to eased time. */
   protected ease(tNorm: number): number {
     const fn = getEasing(this._easing);
@@ -1,7 +1,7 @@
 /**
  * Animation combinators for sequencing and parallel execution.
  */
-import { Animation } from './animation.ts';
+import { Animation, type SceneMembership } from './animation.ts';
 import { Mobject as BaseMobject } from '../../core/mobject.ts';
 import type { SKRSContext2D } from '@napi-rs/canvas';
 
@@ -120,6 +120,10 @@ export class SequenceAnimation extends Animation {
       }
     }
   }
+
+  public override finish(scene: SceneMembership): void {
+    for (let i = 0; i < this.children.length; i++) this.children[i]!.finish(scene);
+  }
 }
 
 /**
@@ -181,6 +185,10 @@ export class ParallelAnimation extends Animation {
       }
     }
   }
+
+  public override finish(scene: SceneMembership): void {
+    for (let i = 0; i < this.children.length; i++) this.children[i]!.finish(scene);
+  }
 }
 
 /** Helper functions for ergonomic creation */
@@ -0,0 +1,106 @@
+import { Animation } from '../base/animation.ts';
+import { lerp } from '../../core/math.ts';
+import { pathBounds, transformPath } from '../../core/path.ts';
+import type { Mobject } from '../../core/mobject.ts';
+import type { Camera } from '../../scene/camera.ts';
+
+/** Interpolate magnification geometrically so zooming feels uniform. */
+function mixZoom(from: number, to: number, t: number): number {
+  return from * Math.pow(to / from, t);
+}
+
+/**
+ * ZoomTo - animates the camera's magnification to a target value.
+ */
+export class ZoomTo extends Animation {
+  public override readonly target: Camera;
+  private from: number = 1;
+  private readonly to: number;
+
+  constructor(target: Camera, zoom: number) {
+    super(target);
+    this.target = target;
+    this.to = zoom > 0 ? zoom : 1;
+  }
+
+  /** Capture starting zoom. */
+  public setup(): void {
+    this.from = this.target.zoom;
+  }
+
+  /** Interpolate zoom using easing. */
+  public tick(tNorm: number): void {
+    this.target.setZoom(mixZoom(this.from, this.to, this.ease(tNorm)));
+  }
+
+  /** Snap to the final zoom. */
+  public override cleanup(): void {
+    this.tick(1);
+  }
+}
+
+/**
+ * FocusOn - pans the camera to the center of a mobject's outline,
+ * optionally zooming at the same time.
+ */
+export class FocusOn extends Animation {
+  public override readonly target: Camera;
+
+  /** Mobject to center on; its position is read when the animation starts. */
+  public readonly focus: Mobject;
+
+  private _zoom?: number;
+  private fromX = 0;
+  private fromY = 0;
+  private toX = 0;
+  private toY = 0;
+  private fromZoom = 1;
+  private toZoom = 1;
+
+  constructor(target: Camera, focus: Mobject) {
+    super(target);
+    this.target = target;
+    this.focus = focus;
+  }
+
+  /** Also zoom to this magnification while panning. */
+  public setZoom(zoom: number): this {
+    if (zoom > 0) this._zoom = zoom;
+    return this;
+  }
+
+  /** Capture the camera state and the focus point. */
+  public setup(): void {
+    const cam = this.target;
+    this.fromX = cam.position[0]!;
+    this.fromY = cam.position[1]!;
+    this.fromZoom = cam.zoom;
+    this.toZoom = this._zoom ?? cam.zoom;
+
+    const m = this.focus;
+    const p = m.position;
+    const s = m.scale;
+    const path = m.getPath();
+    if (path.length === 0) {
+      this.toX = p[0]!;
+      this.toY = p[1]!;
+    } else {
+      const b = pathBounds(transformPath(path, p[0]!, p[1]!, m.rotation, s[0]!, s[1]!));
+      this.toX = b.x + b.width / 2;
+      this.toY = b.y + b.height / 2;
+    }
+  }
+
+  /** Interpolate position and zoom using easing. */
+  public tick(tNorm: number): void {
+    const t = this.ease(tNorm);
+    this.target
+      .setPosition(lerp(this.fromX, this.toX, t), lerp(this.fromY, this.toY, t))
+      .setZoom(mixZoom(this.fromZoom, this.toZoom, t));
+  }
+
+  /** Snap to the final view. */
+  public override cleanup(): void {
+    this.tick(1);
+  }
+}
@@ -0,0 +1,141 @@
+import { Animation, type SceneMembership } from '../base/animation.ts';
+import { clamp } from '../../core/math.ts';
+import type { Mobject } from '../../core/mobject.ts';
+import type { VMobject } from '../../core/vmobject.ts';
+import type { ColorString } from '../../core/types.ts';
+
+/**
+ * Create - progressively draws the outline of a shape (and every shape in a group).
+ */
+export class Create extends Animation {
+  public override readonly target: VMobject;
+  protected leaves: VMobject[] = [];
+
+  constructor(target: VMobject) {
+    super(target);
+    this.target = target;
+  }
+
+  /** Collect drawable parts and hide them. */
+  public setup(): void {
+    this.leaves = this.target.getDrawableParts();
+    this.apply(0);
+  }
+
+  /** Reveal the outline up to the eased proportion. */
+  public tick(tNorm: number): void {
+    this.apply(this.ease(tNorm));
+  }
+
+  /** Leave the shape fully drawn. */
+  public override cleanup(): void {
+    for (const leaf of this.leaves) leaf.setDrawRange(0, 1);
+  }
+
+  protected apply(progress: number): void {
+    for (const leaf of this.leaves) leaf.setDrawRange(0, progress);
+  }
+}
+
+/**
+ * Uncreate - erases the outline in reverse, then removes the target from the scene.
+ */
+export class Uncreate extends Create {
+  public override setup(): void {
+    this.leaves = this.target.getDrawableParts();
+    this.apply(1);
+  }
+
+  public override tick(tNorm: number): void {
+    this.apply(1 - this.ease(tNorm));
+  }
+
+  /** Stay erased until the scene drops the object. */
+  public override cleanup(): void {
+    this.apply(0);
+  }
+
+  /** Remove the target and restore its geometry so it can be re-added later. */
+  public override finish(scene: SceneMembership): void {
+    scene.remove(this.target);
+    super.cleanup();
+  }
+}
+
+/** Style captured before Write so it can be restored afterwards. */
+interface StrokeState {
+  stroke: ColorString | null;
+  width: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+}
+
+/**
+ * Write - traces each part's outline in its fill color, then fades the fill
+ * in while the outline fades out. Parts (e.g. the characters of a Text)
+ * start one after another with a small lag.
+ */
+export class Write extends Animation {
+  public override readonly target: VMobject;
+  private leaves: VMobject[] = [];
+  private saved = new Map<Mobject, StrokeState>();
+  private _lagRatio?: number;
+
+  /** Width of the traced outline in scene units. */
+  private readonly outlineWidth: number;
+
+  constructor(target: VMobject, outlineWidth: number = 2) {
+    super(target);
+    this.target = target;
+    this.outlineWidth = outlineWidth;
+    // Longer texts get a little more time by default
+    const parts = target.getDrawableParts().length;
+    this._duration = parts < 15 ? 1 : 2;
+  }
+
+  /** Fraction of each part's duration to wait before starting the next one. */
+  public setLagRatio(ratio: number): this {
+    this._lagRatio = ratio >= 0 ? ratio : 0;
+    return this;
+  }
+
+  public setup(): void {
+    this.leaves = this.target.getDrawableParts();
+    this.saved.clear();
+    // Style the root too: Text re-applies its own stroke to characters every frame.
+    // Capture everything first, since groups may pass their style down to the leaves.
+    const styled = [this.target, ...this.leaves];
+    for (const m of styled) {
+      this.saved.set(m, { stroke: m.strokeColor, width: m.strokeWidth, fillOpacity: m.fillOpacity, strokeOpacity: m.strokeOpacity });
+    }
+    for (const m of styled) m.stroke(m.fillColor ?? m.strokeColor).setStrokeWidth(this.outlineWidth);
+    this.tick(0);
+  }
+
+  public tick(tNorm: number): void {
+    const t = this.ease(tNorm);
+    const n = this.leaves.length;
+    const lag = this._lagRatio ?? Math.min(4 / Math.max(1, n), 0.2);
+    // Each part runs for `span`; part i starts at i * lag * span
+    const span = 1 / (1 + lag * (n - 1));
+    for (let i = 0; i < n; i++) {
+      const local = clamp((t - i * lag * span) / span, 0, 1);
+      const leaf = this.leaves[i]!;
+      const fillOpacity = this.saved.get(leaf)?.fillOpacity ?? 1;
+      if (local < 0.5) {
+        leaf.setDrawRange(0, local * 2).setFillOpacity(0).setStrokeOpacity(1);
+      } else {
+        const fade = (local - 0.5) * 2;
+        leaf.setDrawRange(0, 1).setFillOpacity(fade * fillOpacity).setStrokeOpacity(1 - fade);
+      }
+    }
+  }
+
+  /** Restore original styling with everything fully drawn. */
+  public override cleanup(): void {
+    for (const [m, s] of this.saved) {
+      m.stroke(s.stroke).setStrokeWidth(s.width).setFillOpacity(s.fillOpacity).setStrokeOpacity(s.strokeOpacity);
+    }
+    for (const leaf of this.leaves) leaf.setDrawRange(0, 1);
+  }
+}
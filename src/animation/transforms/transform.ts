@@ -0,0 +1,104 @@
+import { Animation, type SceneMembership } from '../base/animation.ts';
+import { lerp } from '../../core/math.ts';
+import { mixColor } from '../../core/color.ts';
+import { alignPaths, clonePath, interpolatePaths, type BezierPath } from '../../core/path.ts';
+import type { Mobject } from '../../core/mobject.ts';
+import type { VMobject } from '../../core/vmobject.ts';
+import type { ColorString } from '../../core/types.ts';
+
+/** Transform and style snapshot interpolated alongside the outline. */
+interface MorphState {
+  x: number;
+  y: number;
+  rotation: number;
+  sx: number;
+  sy: number;
+  opacity: number;
+  fill: ColorString | null;
+  stroke: ColorString | null;
+  strokeWidth: number;
+}
+
+function captureState(m: Mobject): MorphState {
+  return {
+    x: m.position[0]!,
+    y: m.position[1]!,
+    rotation: m.rotation,
+    sx: m.scale[0]!,
+    sy: m.scale[1]!,
+    opacity: m.opacity,
+    fill: m.fillColor,
+    stroke: m.strokeColor,
+    strokeWidth: m.strokeWidth,
+  };
+}
+
+/**
+ * Transform - morphs the target's outline, placement and style into another mobject.
+ *
+ * Both outlines are read as bezier paths, aligned to the same subpath and
+ * segment counts, then interpolated point by point. The target keeps the
+ * morphed geometry afterwards; the destination mobject is only used as a
+ * template and is not added to the scene.
+ */
+export class Transform extends Animation {
+  /** Vector mobject being morphed. */
+  public override readonly target: VMobject;
+
+  /** Mobject whose shape the target morphs into. */
+  public readonly into: Mobject;
+
+  private fromPath: BezierPath = [];
+  private toPath: BezierPath = [];
+  private current: BezierPath = [];
+  private fromState!: MorphState;
+  private toState!: MorphState;
+
+  constructor(target: VMobject, into: Mobject) {
+    super(target);
+    this.target = target;
+    this.into = into;
+  }
+
+  /** Capture and align both outlines. */
+  public setup(): void {
+    const [a, b] = alignPaths(this.target.getPath(), this.into.getPath());
+    this.fromPath = a;
+    this.toPath = b;
+    this.current = clonePath(a);
+    this.fromState = captureState(this.target);
+    this.toState = captureState(this.into);
+  }
+
+  /** Interpolate outline, transform and style. */
+  public tick(tNorm: number): void {
+    const t = this.ease(tNorm);
+    interpolatePaths(this.current, this.fromPath, this.toPath, t);
+    const a = this.fromState;
+    const b = this.toState;
+    this.target
+      .setPath(this.current)
+      .setPosition(lerp(a.x, b.x, t), lerp(a.y, b.y, t))
+      .setRotation(lerp(a.rotation, b.rotation, t))
+      .setScale(lerp(a.sx, b.sx, t), lerp(a.sy, b.sy, t))
+      .setOpacity(lerp(a.opacity, b.opacity, t))
+      .fill(mixColor(a.fill, b.fill, t))
+      .stroke(mixColor(a.stroke, b.stroke, t))
+      .setStrokeWidth(lerp(a.strokeWidth, b.strokeWidth, t));
+  }
+
+  /** Snap to the destination shape and style. */
+  public override cleanup(): void {
+    this.tick(1);
+  }
+}
+
+/**
+ * ReplacementTransform - morphs like Transform, then swaps the destination
+ * mobject into the scene in place of the target.
+ */
+export class ReplacementTransform extends Transform {
+  public override finish(scene: SceneMembership): void {
+    scene.replace(this.target, this.into);
+  }
+}
@@ -0,0 +1,126 @@
+import { Animation } from '../base/animation.ts';
+import { lerp } from '../../core/math.ts';
+import type { Mobject } from '../../core/mobject.ts';
+
+/** Mobject holding a single number (DecimalNumber, ValueTracker). */
+export interface ValueMobject extends Mobject {
+  getValue(): number;
+  setValue(value: number): unknown;
+}
+
+/**
+ * ChangeValue - animates a number-holding mobject from its current value to
+ * another; a DecimalNumber retypesets its digits every frame.
+ */
+export class ChangeValue extends Animation {
+  public override readonly target: ValueMobject;
+  protected from: number = 0;
+  private readonly to: number;
+
+  constructor(target: ValueMobject, to: number) {
+    super(target);
+    this.target = target;
+    this.to = to;
+  }
+
+  /** Capture the starting value. */
+  public setup(): void {
+    this.from = this.target.getValue();
+  }
+
+  public tick(tNorm: number): void {
+    this.target.setValue(lerp(this.from, this.to, this.ease(tNorm)));
+  }
+
+  /** Land exactly on the target value. */
+  public override cleanup(): void {
+    this.target.setValue(this.to);
+  }
+}
+
+/**
+ * CountTo - counts a number up (or down) to a value from a fixed start,
+ * zero by default, whatever it showed before.
+ */
+export class CountTo extends ChangeValue {
+  private readonly start: number;
+
+  constructor(target: ValueMobject, to: number, from: number = 0) {
+    super(target, to);
+    this.start = from;
+  }
+
+  public override setup(): void {
+    this.from = this.start;
+    this.target.setValue(this.start);
+  }
+}
+
+/** Values of a chart: one list, or one list per series. */
+export type ChartData = readonly number[] | readonly (readonly number[])[];
+
+/** Mobject laid out from data values (BarChart, LineChart, PieChart). */
+export interface DataMobject extends Mobject {
+  getData(): ChartData;
+  setData(values: ChartData): unknown;
+}
+
+function flattenData(data: ChartData): number[] {
+  return (data as readonly (number | readonly number[])[]).flatMap((v) => v);
+}
+
+function isFlat(data: ChartData): data is readonly number[] {
+  return data.length === 0 || typeof data[0] === 'number';
+}
+
+function sameShape(a: ChartData, b: ChartData): boolean {
+  if (isFlat(a) || isFlat(b)) return isFlat(a) && isFlat(b) && a.length === b.length;
+  return a.length === b.length && a.every((series, i) => series.length === b[i]!.length);
+}
+
+/** Values of flat laid out in the shape of like. */
+function shapeData(flat: readonly number[], like: ChartData): ChartData {
+  if (isFlat(like)) return flat.slice();
+  let i = 0;
+  return like.map((series) => flat.slice(i, (i += series.length)));
+}
+
+/**
+ * ChangeData - morphs a chart to new values: bars grow or shrink, lines
+ * bend and wedges resize smoothly. The new data must have the same shape.
+ */
+export class ChangeData extends Animation {
+  public override readonly target: DataMobject;
+  private from: number[] = [];
+  private readonly to: ChartData;
+  private readonly toFlat: number[];
+
+  /**
+   * @throws RangeError when the new data does not match the chart's shape
+   */
+  constructor(target: DataMobject, to: ChartData) {
+    super(target);
+    this.target = target;
+    this.to = to;
+    this.toFlat = flattenData(to);
+    const current = target.getData();
+    if (!sameShape(current, to)) {
+      throw new RangeError(`ChangeData needs data shaped like the chart's (${current.length} entries), got ${to.length}`);
+    }
+  }
+
+  /** Capture the starting values. */
+  public setup(): void {
+    this.from = flattenData(this.target.getData());
+  }
+
+  public tick(tNorm: number): void {
+    const t = this.ease(tNorm);
+    this.target.setData(shapeData(this.from.map((v, i) => lerp(v, this.toFlat[i]!, t)), this.to));
+  }
+
+  /** Land exactly on the new values. */
+  public override cleanup(): void {
+    this.target.setData(this.to);
+  }
+}
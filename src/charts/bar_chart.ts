@@ -0,0 +1,192 @@
+/**
+ * BarChart - one bar per value over labeled categories:
+ * `new BarChart([12, 30, 21], { labels: ['Mon', 'Tue', 'Wed'], showValues: true })`.
+ *
+ * The local origin is the center of the plot area; a legend, when shown,
+ * sits to its right. The y range is fixed when the chart is built (by
+ * default rounded out from the first data), so pass `yRange` to leave room
+ * for values animated in later with changeData().
+ */
+import type { ColorString } from '../core/types.ts';
+import { VGroup } from '../core/vgroup.ts';
+import { Rectangle } from '../shapes/rectangle.ts';
+import { Text } from '../text/text.ts';
+import { DecimalNumber } from '../text/decimal_number.ts';
+import { ChangeData, type ChartData } from '../animation/transforms/value.ts';
+import { Axes } from '../graphing/axes.ts';
+import { placeCenter, type AxisRange } from '../graphing/number_line.ts';
+import { Legend } from './legend.ts';
+import { checkValues, niceRange, paletteColor } from './chart.ts';
+
+export interface BarChartOptions {
+  /** Category names under the bars */
+  labels?: readonly string[];
+  /** Value range and tick step (default: rounded out from the data, including 0) */
+  yRange?: AxisRange;
+  /** Plot area width (default: 800) */
+  width?: number;
+  /** Plot area height (default: 450) */
+  height?: number;
+  /** Bar width as a fraction of the space per bar (default: 0.7) */
+  barWidth?: number;
+  /** Bar colors, cycled (default: one palette color for all bars) */
+  colors?: readonly ColorString[];
+  /** Show each value above its bar (default: false) */
+  showValues?: boolean;
+  /** Decimals of shown values and y labels (default: 0) */
+  decimals?: number;
+  /** Font size of labels (default: 20) */
+  fontSize?: number;
+  /** Color of axes and labels (default: '#ffffff') */
+  color?: ColorString;
+  /** Show a legend of the labels with their bar colors (default: false) */
+  legend?: boolean;
+}
+
+/** Gap between bars or the axis and their labels, in scene units. */
+const LABEL_GAP = 8;
+
+export class BarChart extends VGroup {
+  private values: number[];
+  private readonly axes: Axes;
+  private readonly bars: Rectangle[] = [];
+  private readonly valueLabels: DecimalNumber[] = [];
+  private readonly labels: Text[] = [];
+  private readonly legend?: Legend;
+  private readonly barWidth: number;
+  private readonly fontSize: number;
+
+  /**
+   * Create a bar chart
+   *
+   * @param values - Bar values (negative values point down)
+   * @param options - Labels, range, size and styling
+   * @param name - Mobject name for debugging
+   * @throws RangeError on non-finite values or a label count that differs from the value count
+   */
+  constructor(values: readonly number[], options: BarChartOptions = {}, name: string = 'BarChart') {
+    super(name);
+    checkValues(values, 'BarChart');
+    const n = values.length;
+    if (options.labels && options.labels.length !== n) {
+      throw new RangeError(`BarChart has ${n} values but ${options.labels.length} labels`);
+    }
+    this.values = [...values];
+    this.fontSize = options.fontSize ?? 20;
+    const width = options.width ?? 800;
+    const height = options.height ?? 450;
+    const color = options.color ?? '#ffffff';
+    const decimals = options.decimals ?? 0;
+
+    this.axes = new Axes({
+      xRange: [0, Math.max(1, n), 1],
+      yRange: options.yRange ?? niceRange(Math.min(...values, 0), Math.max(...values, 0)),
+      xLength: width,
+      yLength: height,
+      color,
+      includeTips: false,
+      xAxis: { includeTicks: false },
+      yAxis: { includeNumbers: true, numbersToExclude: [], decimals, fontSize: this.fontSize },
+    }, `${name}.axes`);
+    this.barWidth = (width / Math.max(1, n)) * (options.barWidth ?? 0.7);
+
+    for (let i = 0; i < n; i++) {
+      const bar = new Rectangle(this.barWidth, 0, `${name}.bar${i}`).fill(paletteColor(options.colors, options.colors ? i : 0)).stroke(null);
+      this.bars.push(bar);
+      if (options.showValues) {
+        const number = new DecimalNumber(0, { decimals, fontSize: this.fontSize, anchor: 'center' });
+        number.setColor(color).setStrokeWidth(0);
+        this.valueLabels.push(number);
+      }
+    }
+    // Bars under the axes, so the baseline stays visible
+    this.add(...this.bars, this.axes, ...this.valueLabels);
+
+    options.labels?.forEach((text, i) => {
+      const label = new Text(text, { fontSize: this.fontSize }).setColor(color);
+      label.setStrokeWidth(0);
+      const h = label.getBounds().height;
+      placeCenter(label, this.axes.c2p(i + 0.5, 0)[0], -height / 2 - LABEL_GAP - h / 2);
+      this.labels.push(label);
+      this.add(label);
+    });
+
+    if (options.legend && options.labels) {
+      const legend = new Legend(
+        options.labels.map((label, i) => ({ label, color: this.bars[i]!.fillColor ?? color })),
+        { fontSize: this.fontSize, color },
+        `${name}.legend`,
+      );
+      const b = legend.getBounds();
+      legend.setPosition(width / 2 + 30 + b.width / 2, 0);
+      this.legend = legend;
+      this.add(legend);
+    }
+    this.layout();
+  }
+
+  /** Current bar values. */
+  public getData(): number[] {
+    return [...this.values];
+  }
+
+  /**
+   * Set the bar values and resize the bars (chainable)
+   * @throws RangeError when the count differs or a value is not finite
+   */
+  public setData(values: ChartData): this {
+    if (values.length !== this.values.length || values.some((v) => typeof v !== 'number')) {
+      throw new RangeError(`BarChart needs ${this.values.length} values, got ${values.length}`);
+    }
+    checkValues(values as readonly number[], 'BarChart');
+    this.values = [...(values as readonly number[])];
+    return this.layout();
+  }
+
+  /**
+   * Create a ChangeData animation growing and shrinking the bars to new values.
+   * @param values New values, one per bar
+   * @param duration Optional duration in seconds (defaults to 1 if omitted)
+   */
+  public changeData(values: readonly number[], duration?: number): ChangeData {
+    const anim = new ChangeData(this, values);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** The chart's axes. */
+  public getAxes(): Axes {
+    return this.axes;
+  }
+
+  /** Bars, in value order. */
+  public getBars(): readonly Rectangle[] {
+    return this.bars;
+  }
+
+  /** Category labels, in value order. */
+  public getLabels(): readonly Text[] {
+    return this.labels;
+  }
+
+  /** The legend, if shown. */
+  public getLegend(): Legend | undefined {
+    return this.legend;
+  }
+
+  /** Size and place bars and value labels for the current values. */
+  private layout(): this {
+    this.values.forEach((value, i) => {
+      const [x, base] = this.axes.c2p(i + 0.5, 0);
+      const top = this.axes.c2p(i + 0.5, value)[1];
+      this.bars[i]!.setSize(this.barWidth, Math.abs(top - base)).setPosition(x, (top + base) / 2);
+      const number = this.valueLabels[i];
+      if (number) {
+        number.setValue(value);
+        // The number's position is its baseline
+        number.setPosition(x, value >= 0 ? top + LABEL_GAP : top - LABEL_GAP - this.fontSize * 0.75);
+      }
+    });
+    return this;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Shared pieces of the data charts: the default color palette and axis
+ * ranges rounded to readable tick steps.
+ */
+import type { ColorString } from '../core/types.ts';
+
+/** Colors given to bars, series and wedges in order, cycling. */
+export const DEFAULT_PALETTE: readonly ColorString[] = [
+  '#1e90ff', '#ffd54f', '#ff5252', '#69f0ae', '#b388ff', '#ff9e40', '#40c4ff', '#f48fb1',
+];
+
+/** Color of entry i from a palette, cycling through it. */
+export function paletteColor(colors: readonly ColorString[] | undefined, i: number): ColorString {
+  const palette = colors && colors.length > 0 ? colors : DEFAULT_PALETTE;
+  return palette[i % palette.length]!;
+}
+
+/**
+ * Range covering min..max and zero, widened to multiples of a step of 1, 2
+ * or 5 times a power of ten that gives about `ticks` intervals.
+ */
+export function niceRange(min: number, max: number, ticks: number = 5): [number, number, number] {
+  const lo = Math.min(0, min);
+  const hi = Math.max(0, max);
+  if (hi - lo === 0) return [0, 1, 0.2];
+  const raw = (hi - lo) / ticks;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= raw * (1 - 1e-9))!;
+  return [Math.floor(lo / step + 1e-9) * step, Math.ceil(hi / step - 1e-9) * step, step];
+}
+
+/** Check that every value is a finite number. */
+export function checkValues(values: readonly number[], what: string): void {
+  const bad = values.find((v) => !Number.isFinite(v));
+  if (bad !== undefined) throw new RangeError(`${what} values must be finite, got ${bad}`);
+}
@@ -0,0 +1,4 @@
+export { BarChart } from './bar_chart.ts';
+export { LineChart } from './line_chart.ts';
+export { PieChart } from './pie_chart.ts';
+export { Legend } from './legend.ts';
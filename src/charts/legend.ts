@@ -0,0 +1,74 @@
+/**
+ * Legend - color swatches with labels, listed top to bottom (or left to
+ * right). The local origin is the center of the whole legend.
+ */
+import type { ColorString } from '../core/types.ts';
+import { VGroup } from '../core/vgroup.ts';
+import { Rectangle } from '../shapes/rectangle.ts';
+import { Text } from '../text/text.ts';
+import { placeCenter } from '../graphing/number_line.ts';
+
+export interface LegendEntry {
+  label: string;
+  color: ColorString;
+}
+
+export interface LegendOptions {
+  /** Label font size (default: 20) */
+  fontSize?: number;
+  /** Label color (default: '#ffffff') */
+  color?: ColorString;
+  /** Layout direction (default: 'vertical') */
+  direction?: 'vertical' | 'horizontal';
+}
+
+export class Legend extends VGroup {
+  private readonly swatches: Rectangle[] = [];
+  private readonly labels: Text[] = [];
+
+  /**
+   * Create a legend
+   *
+   * @param entries - Label and color of each item, in order
+   * @param options - Font and layout options
+   * @param name - Mobject name for debugging
+   */
+  constructor(entries: readonly LegendEntry[], options: LegendOptions = {}, name: string = 'Legend') {
+    super(name);
+    const fontSize = options.fontSize ?? 20;
+    const swatch = fontSize * 0.8;
+    const gap = fontSize * 0.5;
+    const rowHeight = fontSize * 1.5;
+    const horizontal = options.direction === 'horizontal';
+
+    let x = 0;
+    entries.forEach((entry, i) => {
+      const y = horizontal ? 0 : -i * rowHeight;
+      const box = new Rectangle(swatch, swatch).fill(entry.color).stroke(null).setPosition(x + swatch / 2, y);
+      const label = new Text(entry.label, { fontSize }).setColor(options.color ?? '#ffffff');
+      label.setStrokeWidth(0);
+      const width = label.getBounds().width;
+      placeCenter(label, x + swatch + gap + width / 2, y);
+      if (horizontal) x += swatch + gap + width + fontSize * 1.5;
+      this.swatches.push(box);
+      this.labels.push(label);
+      this.add(box, label);
+    });
+
+    // Center the legend on its origin
+    if (entries.length > 0) {
+      const b = this.getLocalBounds();
+      for (const child of this) child.translate(-(b.x + b.width / 2), -(b.y + b.height / 2));
+    }
+  }
+
+  /** Color swatches, in entry order. */
+  public getSwatches(): readonly Rectangle[] {
+    return this.swatches;
+  }
+
+  /** Labels, in entry order. */
+  public getLabels(): readonly Text[] {
+    return this.labels;
+  }
+}
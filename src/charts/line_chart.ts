@@ -0,0 +1,205 @@
+/**
+ * LineChart - one or more series of values drawn as polylines over
+ * labeled x positions:
+ * `new LineChart([{ name: 'Sales', values: [3, 5, 4] }, { name: 'Costs', values: [2, 2, 3] }], { labels: ['Q1', 'Q2', 'Q3'] })`.
+ *
+ * A plain array of numbers is a single unnamed series. The local origin is
+ * the center of the plot area; a legend, when shown, sits to its right. As
+ * with BarChart the y range is fixed when the chart is built.
+ */
+import type { ColorString, ReadonlyVec2 } from '../core/types.ts';
+import { VGroup } from '../core/vgroup.ts';
+import { Polygon } from '../shapes/polygon.ts';
+import { Circle } from '../shapes/circle.ts';
+import { Text } from '../text/text.ts';
+import { ChangeData, type ChartData } from '../animation/transforms/value.ts';
+import { Axes } from '../graphing/axes.ts';
+import { placeCenter, type AxisRange } from '../graphing/number_line.ts';
+import { Legend } from './legend.ts';
+import { checkValues, niceRange, paletteColor } from './chart.ts';
+
+export interface LineSeries {
+  /** Name shown in the legend */
+  name?: string;
+  values: readonly number[];
+  /** Line color (default: the next palette color) */
+  color?: ColorString;
+}
+
+export interface LineChartOptions {
+  /** Names of the x positions */
+  labels?: readonly string[];
+  /** Value range and tick step (default: rounded out from the data, including 0) */
+  yRange?: AxisRange;
+  /** Plot area width (default: 800) */
+  width?: number;
+  /** Plot area height (default: 450) */
+  height?: number;
+  /** Colors of series without their own, cycled (default: the palette) */
+  colors?: readonly ColorString[];
+  /** Line width (default: 3) */
+  strokeWidth?: number;
+  /** Dot radius at each value; 0 for none (default: 5) */
+  dotRadius?: number;
+  /** Decimals of y labels (default: 0) */
+  decimals?: number;
+  /** Font size of labels (default: 20) */
+  fontSize?: number;
+  /** Color of axes and labels (default: '#ffffff') */
+  color?: ColorString;
+  /** Show a legend of the series names (default: when any series has a name) */
+  legend?: boolean;
+}
+
+/** Gap between the plot area and the x labels, in scene units. */
+const LABEL_GAP = 8;
+
+export class LineChart extends VGroup {
+  private values: number[][];
+  private readonly single: boolean;
+  private readonly axes: Axes;
+  private readonly lines: Polygon[] = [];
+  private readonly dots: Circle[][] = [];
+  private readonly labels: Text[] = [];
+  private readonly legend?: Legend;
+
+  /**
+   * Create a line chart
+   *
+   * @param data - Values of a single series, or a list of series
+   * @param options - Labels, range, size and styling
+   * @param name - Mobject name for debugging
+   * @throws RangeError on non-finite values, series of different lengths or a mismatched label count
+   */
+  constructor(data: readonly number[] | readonly LineSeries[], options: LineChartOptions = {}, name: string = 'LineChart') {
+    super(name);
+    this.single = data.length === 0 || typeof data[0] === 'number';
+    const series: LineSeries[] = this.single
+      ? [{ values: data as readonly number[] }]
+      : [...(data as readonly LineSeries[])];
+    const n = series[0]?.values.length ?? 0;
+    for (const s of series) {
+      checkValues(s.values, 'LineChart');
+      if (s.values.length !== n) throw new RangeError(`LineChart series must have equal lengths, got ${n} and ${s.values.length}`);
+    }
+    if (options.labels && options.labels.length !== n) {
+      throw new RangeError(`LineChart has ${n} values per series but ${options.labels.length} labels`);
+    }
+    this.values = series.map((s) => [...s.values]);
+    const width = options.width ?? 800;
+    const height = options.height ?? 450;
+    const color = options.color ?? '#ffffff';
+    const fontSize = options.fontSize ?? 20;
+    const all = this.values.flat();
+
+    this.axes = new Axes({
+      xRange: [0, Math.max(1, n - 1), 1],
+      yRange: options.yRange ?? niceRange(Math.min(...all, 0), Math.max(...all, 0)),
+      xLength: width,
+      yLength: height,
+      color,
+      includeTips: false,
+      yAxis: { includeNumbers: true, numbersToExclude: [], decimals: options.decimals ?? 0, fontSize },
+    }, `${name}.axes`);
+    this.add(this.axes);
+
+    const radius = options.dotRadius ?? 5;
+    series.forEach((s, k) => {
+      const lineColor = s.color ?? paletteColor(options.colors, k);
+      const line = new Polygon([], false, `${name}.line${k}`).fill(null).stroke(lineColor).setStrokeWidth(options.strokeWidth ?? 3);
+      const dots = radius > 0 ? s.values.map(() => new Circle(radius).setColor(lineColor)) : [];
+      this.lines.push(line);
+      this.dots.push(dots);
+      this.add(line, ...dots);
+    });
+
+    options.labels?.forEach((text, i) => {
+      const label = new Text(text, { fontSize }).setColor(color);
+      label.setStrokeWidth(0);
+      const h = label.getBounds().height;
+      placeCenter(label, this.axes.c2p(i, 0)[0], -height / 2 - LABEL_GAP - h / 2);
+      this.labels.push(label);
+      this.add(label);
+    });
+
+    if (options.legend ?? series.some((s) => s.name)) {
+      const legend = new Legend(
+        series.map((s, k) => ({ label: s.name ?? `Series ${k + 1}`, color: this.lines[k]!.strokeColor ?? color })),
+        { fontSize, color },
+        `${name}.legend`,
+      );
+      const b = legend.getBounds();
+      legend.setPosition(width / 2 + 30 + b.width / 2, 0);
+      this.legend = legend;
+      this.add(legend);
+    }
+    this.layout();
+  }
+
+  /** Current values: a list for a single series, else one list per series. */
+  public getData(): number[] | number[][] {
+    return this.single ? [...this.values[0]!] : this.values.map((v) => [...v]);
+  }
+
+  /**
+   * Set the values and redraw the lines (chainable)
+   * @param values - A list for a single-series chart, else one list per series
+   * @throws RangeError when the shape differs from the chart's or a value is not finite
+   */
+  public setData(values: ChartData): this {
+    const flat = values.length === 0 || typeof values[0] === 'number';
+    const series = (flat ? [values] : values) as readonly (readonly number[])[];
+    const fits = flat === this.single && series.length === this.values.length &&
+      series.every((s, k) => s.length === this.values[k]!.length);
+    if (!fits) throw new RangeError(`LineChart data must match its ${this.values.length} series of ${this.values[0]?.length ?? 0} values`);
+    series.forEach((s) => checkValues(s, 'LineChart'));
+    this.values = series.map((s) => [...s]);
+    return this.layout();
+  }
+
+  /**
+   * Create a ChangeData animation bending the lines to new values.
+   * @param values New values, shaped like getData()
+   * @param duration Optional duration in seconds (defaults to 1 if omitted)
+   */
+  public changeData(values: ChartData, duration?: number): ChangeData {
+    const anim = new ChangeData(this, values);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** The chart's axes. */
+  public getAxes(): Axes {
+    return this.axes;
+  }
+
+  /** One polyline per series. */
+  public getLines(): readonly Polygon[] {
+    return this.lines;
+  }
+
+  /** Dots of each series, in value order. */
+  public getDots(): readonly (readonly Circle[])[] {
+    return this.dots;
+  }
+
+  /** x labels, in order. */
+  public getLabels(): readonly Text[] {
+    return this.labels;
+  }
+
+  /** The legend, if shown. */
+  public getLegend(): Legend | undefined {
+    return this.legend;
+  }
+
+  /** Place the polylines and dots for the current values. */
+  private layout(): this {
+    this.values.forEach((values, k) => {
+      const points: ReadonlyVec2[] = values.map((v, i) => this.axes.c2p(i, v));
+      this.lines[k]!.setPoints(points);
+      this.dots[k]!.forEach((dot, i) => dot.positionTo(points[i]!));
+    });
+    return this;
+  }
+}
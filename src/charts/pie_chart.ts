@@ -0,0 +1,178 @@
+/**
+ * PieChart - wedges sized by share of the total, optionally as a donut:
+ * `new PieChart([45, 30, 25], { labels: ['Rent', 'Food', 'Other'], innerRadius: 80 })`.
+ *
+ * Wedges run clockwise from the top by default. The local origin is the
+ * center of the pie; a legend, when shown, sits to its right.
+ */
+import type { ColorString } from '../core/types.ts';
+import { VGroup } from '../core/vgroup.ts';
+import { Sector } from '../shapes/sector.ts';
+import { DecimalNumber } from '../text/decimal_number.ts';
+import { ChangeData, type ChartData } from '../animation/transforms/value.ts';
+import { Legend } from './legend.ts';
+import { checkValues, paletteColor } from './chart.ts';
+
+export interface PieChartOptions {
+  /** Names of the wedges, shown in the legend */
+  labels?: readonly string[];
+  /** Outer radius (default: 200) */
+  radius?: number;
+  /** Inner radius, for a donut (default: 0) */
+  innerRadius?: number;
+  /** Wedge colors, cycled (default: the palette) */
+  colors?: readonly ColorString[];
+  /** Angle of the first wedge's start, in radians (default: π/2, the top) */
+  startAngle?: number;
+  /** Lay wedges out clockwise (default: true) */
+  clockwise?: boolean;
+  /** Show each wedge's percentage on it (default: true) */
+  showPercentages?: boolean;
+  /** Decimals of percentages (default: 0) */
+  decimals?: number;
+  /** Font size of percentages and legend (default: 20) */
+  fontSize?: number;
+  /** Color of percentages and legend text (default: '#ffffff') */
+  color?: ColorString;
+  /** Show a legend (default: when labels are given) */
+  legend?: boolean;
+}
+
+/** Wedges narrower than this share hide their percentage. */
+const MIN_LABELED_SHARE = 0.04;
+
+export class PieChart extends VGroup {
+  private values: number[];
+  private readonly wedges: Sector[] = [];
+  private readonly percentages: DecimalNumber[] = [];
+  private readonly legend?: Legend;
+  private readonly radius: number;
+  private readonly innerRadius: number;
+  private readonly startAngle: number;
+  private readonly clockwise: boolean;
+  private readonly fontSize: number;
+
+  /**
+   * Create a pie chart
+   *
+   * @param values - Wedge values (non-negative)
+   * @param options - Labels, size and styling
+   * @param name - Mobject name for debugging
+   * @throws RangeError on negative or non-finite values or a label count that differs from the value count
+   */
+  constructor(values: readonly number[], options: PieChartOptions = {}, name: string = 'PieChart') {
+    super(name);
+    PieChart.checkValues(values);
+    if (options.labels && options.labels.length !== values.length) {
+      throw new RangeError(`PieChart has ${values.length} values but ${options.labels.length} labels`);
+    }
+    this.values = [...values];
+    this.radius = options.radius ?? 200;
+    this.innerRadius = options.innerRadius ?? 0;
+    this.startAngle = options.startAngle ?? Math.PI / 2;
+    this.clockwise = options.clockwise ?? true;
+    this.fontSize = options.fontSize ?? 20;
+    const color = options.color ?? '#ffffff';
+
+    values.forEach((_, i) => {
+      this.wedges.push(new Sector(this.radius, 0, 0, this.innerRadius, `${name}.wedge${i}`).fill(paletteColor(options.colors, i)).stroke(null));
+      if (options.showPercentages ?? true) {
+        const pct = new DecimalNumber(0, { decimals: options.decimals ?? 0, unit: '%', fontSize: this.fontSize, anchor: 'center' });
+        pct.setColor(color).setStrokeWidth(0);
+        this.percentages.push(pct);
+      }
+    });
+    this.add(...this.wedges, ...this.percentages);
+
+    if (options.legend ?? !!options.labels) {
+      const legend = new Legend(
+        (options.labels ?? values.map((_, i) => `${i + 1}`)).map((label, i) => ({ label, color: this.wedges[i]!.fillColor ?? color })),
+        { fontSize: this.fontSize, color },
+        `${name}.legend`,
+      );
+      const b = legend.getBounds();
+      legend.setPosition(this.radius + 40 + b.width / 2, 0);
+      this.legend = legend;
+      this.add(legend);
+    }
+    this.layout();
+  }
+
+  /** Current wedge values. */
+  public getData(): number[] {
+    return [...this.values];
+  }
+
+  /**
+   * Set the wedge values and resize the wedges (chainable)
+   * @throws RangeError when the count differs or a value is negative or not finite
+   */
+  public setData(values: ChartData): this {
+    if (values.length !== this.values.length || values.some((v) => typeof v !== 'number')) {
+      throw new RangeError(`PieChart needs ${this.values.length} values, got ${values.length}`);
+    }
+    PieChart.checkValues(values as readonly number[]);
+    this.values = [...(values as readonly number[])];
+    return this.layout();
+  }
+
+  /**
+   * Create a ChangeData animation resizing the wedges to new values.
+   * @param values New values, one per wedge
+   * @param duration Optional duration in seconds (defaults to 1 if omitted)
+   */
+  public changeData(values: readonly number[], duration?: number): ChangeData {
+    const anim = new ChangeData(this, values);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** Wedges, in value order. */
+  public getWedges(): readonly Sector[] {
+    return this.wedges;
+  }
+
+  /** Percentage labels, in value order (empty when hidden). */
+  public getPercentages(): readonly DecimalNumber[] {
+    return this.percentages;
+  }
+
+  /** The legend, if shown. */
+  public getLegend(): Legend | undefined {
+    return this.legend;
+  }
+
+  /** Share of the total of each value (all zero when the total is). */
+  public getShares(): number[] {
+    const total = this.values.reduce((a, b) => a + b, 0);
+    return this.values.map((v) => (total > 0 ? v / total : 0));
+  }
+
+  /** Sweep the wedges and place the percentages for the current values. */
+  private layout(): this {
+    let angle = this.startAngle;
+    const labelRadius = this.innerRadius > 0 ? (this.radius + this.innerRadius) / 2 : this.radius * 0.65;
+    this.getShares().forEach((share, i) => {
+      const sweep = share * Math.PI * 2;
+      const [start, end] = this.clockwise ? [angle - sweep, angle] : [angle, angle + sweep];
+      angle = this.clockwise ? start : end;
+      this.wedges[i]!.set(this.radius, start, end, this.innerRadius);
+
+      const pct = this.percentages[i];
+      if (pct) {
+        const mid = (start + end) / 2;
+        // The number's position is its baseline; drop it by about half a digit height
+        pct.setValue(share * 100)
+          .setPosition(labelRadius * Math.cos(mid), labelRadius * Math.sin(mid) - this.fontSize * 0.35)
+          .setOpacity(share >= MIN_LABELED_SHARE ? 1 : 0);
+      }
+    });
+    return this;
+  }
+
+  private static checkValues(values: readonly number[]): void {
+    checkValues(values, 'PieChart');
+    const negative = values.find((v) => v < 0);
+    if (negative !== undefined) throw new RangeError(`PieChart values must not be negative, got ${negative}`);
+  }
+}
@@ -4,81 +4,255 @@
  * Bun CLI for the TypeScript Manim-like engine.
  */
 import { Command } from 'commander';
-import { resolve, join } from 'path';
-import { pathToFileURL } from 'url';
-import type { Scene } from '../scene/scene.ts';
-import type { FileConfig, RenderOutputOptions, SceneConfig } from '../core/types.ts';
-import { promises as fs } from 'fs';
+import { resolve, join, extname } from 'path';
+import type { CliConfig, EngineConfig, QualityPreset, RenderOutputOptions, SceneConfig, StillFormat, VideoFormat } from '../core/types.ts';
+import { QUALITY_PRESETS, resolveConfig } from '../core/config.ts';
+import { loadScene, loadScenes, type SceneConstructor } from '../scene/scene_loader.ts';
+import { FfmpegPipeSink } from '../renderer/ffmpeg.ts';
+import { ConcatFrameSink, PngSequenceSink, type FrameSink } from '../renderer/frame_sink.ts';
+import { renderParallel } from '../renderer/parallel.ts';
 
-interface CliOptions {
+/** Flags that make up the CLI config layer, shared by render and list. */
+interface ConfigOptions {
+  quality?: QualityPreset;
+  resolution?: string;
+  fps?: string;
+  background?: string;
+  data?: string[];
+}
+
+interface CliOptions extends ConfigOptions {
   save_last_frame?: boolean;
+  last_frame_format?: StillFormat;
   pngs?: boolean;
-  format?: 'mp4' | 'webm' | 'gif' | 'mov';
-  fps?: string;
+  format?: VideoFormat;
   outdir?: string;
+  workers?: string;
+  all?: boolean;
+  concat?: string;
 }
 
-async function run(sceneFile: string, sceneName: string, options: CliOptions): Promise<void> {
-  const abs = resolve(process.cwd(), sceneFile);
-  const fileURL = pathToFileURL(abs).href;
-  const mod = await import(fileURL);
+interface ListOptions extends ConfigOptions {
+  json?: boolean;
+}
 
-  const fileConfig: SceneConfig | undefined = (mod.config as FileConfig | undefined) ?? undefined;
+const VIDEO_FORMATS: readonly VideoFormat[] = ['mp4', 'webm', 'gif', 'mov'];
 
-  const Ctor = mod[sceneName] as unknown as {
-    new (fileConfig: SceneConfig | undefined, output: RenderOutputOptions): Scene;
-  };
-  if (!Ctor || typeof Ctor !== 'function') {
-    throw new Error(`Scene class '${sceneName}' was not found in module ${abs}`);
+/**
+ * Build the CLI config layer: a quality preset first, then explicit flags on top.
+ * @throws Error on malformed flag values
+ */
+function cliConfigFromOptions(options: ConfigOptions): CliConfig {
+  const cfg: CliConfig = {};
+  if (options.quality) {
+    const preset = QUALITY_PRESETS[options.quality];
+    if (!preset) throw new Error(`Unknown quality '${options.quality}' (expected l, m, h or k)`);
+    Object.assign(cfg, preset);
+  }
+  if (options.resolution) {
+    const m = /^(\d+)x(\d+)$/i.exec(options.resolution.trim());
+    const width = Number(m?.[1]);
+    const height = Number(m?.[2]);
+    if (!m || width <= 0 || height <= 0) throw new Error(`--resolution must look like WIDTHxHEIGHT, got '${options.resolution}'`);
+    cfg.width = width;
+    cfg.height = height;
+  }
+  if (options.fps) {
+    const fps = Number(options.fps);
+    if (!(fps > 0)) throw new Error(`--fps must be a positive number, got '${options.fps}'`);
+    cfg.fps = fps;
+  }
+  if (options.background) cfg.backgroundColor = options.background;
+  if (options.data && options.data.length > 0) {
+    const data: Record<string, string> = {};
+    for (const entry of options.data) {
+      const eq = entry.indexOf('=');
+      if (eq <= 0 || eq === entry.length - 1) throw new Error(`--data must look like NAME=PATH, got '${entry}'`);
+      data[entry.slice(0, eq).trim()] = resolve(process.cwd(), entry.slice(eq + 1).trim());
+    }
+    cfg.data = data;
+  }
+  return cfg;
+}
+
+/** Everything needed to render one scene of a file. */
+interface RenderJob {
+  sceneFile: string;
+  /** Name loadScene() finds the scene by */
+  sceneName: string | undefined;
+  Ctor: SceneConstructor;
+  fileConfig: SceneConfig | undefined;
+  cliConfig: CliConfig;
+  out: RenderOutputOptions;
+  workers: number;
+  /** Additional destination for every frame (e.g. a joined video) */
+  extraSink?: FrameSink;
+}
+
+async function renderScene(job: RenderJob): Promise<void> {
+  const { Ctor, fileConfig, cliConfig, out } = job;
+  if (job.workers > 1) {
+    // Workers render partitions; this thread only merges and encodes
+    const name = Ctor.name || 'Scene';
+    const fps = resolveConfig(fileConfig, Ctor.config, cliConfig).fps;
+    const sinks: FrameSink[] = [];
+    if (out.savePNGs) sinks.push(new PngSequenceSink(out.outDir, name));
+    if (out.format) {
+      sinks.push(new FfmpegPipeSink(join(out.outDir, `${name}.${out.format}`), out.format, fps));
+    }
+    if (job.extraSink) sinks.push(job.extraSink);
+    await renderParallel({ sceneFile: job.sceneFile, sceneName: job.sceneName, fileConfig, cliConfig, output: out }, sinks, { workers: job.workers });
+    return;
+  }
+
+  const scene = new Ctor(fileConfig, out, cliConfig);
+
+  // If a video format was requested, stream raw frames straight into ffmpeg
+  if (out.format) {
+    const outputFile = join(out.outDir, `${scene.name}.${out.format}`);
+    scene.addFrameSink(new FfmpegPipeSink(outputFile, out.format, scene.getConfig().fps));
   }
+  if (job.extraSink) scene.addFrameSink(job.extraSink);
+
+  await scene.render();
+}
 
-  // If a format is requested but --pngs wasn't, we still need frames for ffmpeg.
-  const needPNGs = Boolean(options.format);
+async function run(sceneFile: string, sceneName: string | undefined, options: CliOptions): Promise<void> {
+  const abs = resolve(process.cwd(), sceneFile);
+  if (options.all && sceneName !== undefined) throw new Error('Pass either a scene name or --all, not both');
+  if (options.concat && !options.all) throw new Error('--concat joins the scenes of --all; pass --all too');
+
+  const lastFrameFormat = options.last_frame_format;
+  if (lastFrameFormat !== undefined && lastFrameFormat !== 'png' && lastFrameFormat !== 'svg') {
+    throw new Error(`--last_frame_format must be png or svg, got '${lastFrameFormat}'`);
+  }
+  if (options.format !== undefined && !VIDEO_FORMATS.includes(options.format)) {
+    throw new Error(`--format must be one of ${VIDEO_FORMATS.join(', ')}, got '${options.format}'`);
+  }
 
   const out: RenderOutputOptions = {
     outDir: options.outdir ?? 'out',
     saveLastFrame: Boolean(options.save_last_frame),
-    savePNGs: Boolean(options.pngs) || needPNGs,
-    format: options.format as RenderOutputOptions['format'] | undefined,
+    savePNGs: Boolean(options.pngs),
+    lastFrameFormat,
+    format: options.format,
   };
 
-  const fpsNum = options.fps ? Number(options.fps) : undefined;
-  const mergedFileConfig: SceneConfig | undefined = fpsNum ? { ...(fileConfig ?? {}), fps: fpsNum } : fileConfig;
+  const cliConfig = cliConfigFromOptions(options);
 
-  const scene = new Ctor(mergedFileConfig, out);
-  await scene.construct();
+  const workers = options.workers ? Number(options.workers) : 1;
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw new Error(`--workers must be a positive integer, got '${options.workers}'`);
+  }
 
-  // If a video format was requested, encode frames via ffmpeg
-  if (options.format) {
-    const cfg = scene.getConfig();
-    const fps = cfg.fps;
-    const pattern = join(out.outDir, `${scene.name}_%05d.png`);
-    const outputFile = join(out.outDir, `${scene.name}.${options.format}`);
+  if (!options.all) {
+    const { Ctor, fileConfig } = await loadScene(abs, sceneName);
+    await renderScene({ sceneFile: abs, sceneName, Ctor, fileConfig, cliConfig, out, workers });
+    return;
+  }
 
-    await encodeWithFFmpeg(pattern, fps, options.format, outputFile);
+  const { scenes, fileConfig } = await loadScenes(abs);
+  if (scenes.length === 0) throw new Error(`No scene classes are exported by ${abs}`);
 
-    // Clean up frames if user didn't explicitly ask to keep them
-    if (!options.pngs) {
-      await cleanupFrames(out.outDir, scene.name);
+  let concat: ConcatFrameSink | undefined;
+  if (options.concat) {
+    const format = extname(options.concat).slice(1).toLowerCase() as VideoFormat;
+    if (!VIDEO_FORMATS.includes(format)) {
+      throw new Error(`--concat needs a video file name ending in .${VIDEO_FORMATS.join(', .')}, got '${options.concat}'`);
     }
+    // One video stream has one frame size and rate
+    const configs = scenes.map((s) => resolveConfig(fileConfig, s.Ctor.config, cliConfig));
+    const first = configs[0]!;
+    configs.forEach((c, i) => {
+      if (c.width !== first.width || c.height !== first.height || c.fps !== first.fps) {
+        throw new Error(
+          `--concat needs scenes of one size and frame rate: ${scenes[0]!.name} is ${first.width}x${first.height} at ${first.fps} fps ` +
+            `but ${scenes[i]!.name} is ${c.width}x${c.height} at ${c.fps} fps (pass -q, -r or --fps to override)`,
+        );
+      }
+    });
+    concat = new ConcatFrameSink(new FfmpegPipeSink(resolve(process.cwd(), options.concat), format, first.fps));
+  }
+
+  try {
+    for (const [i, { name, Ctor }] of scenes.entries()) {
+      console.log(`[${i + 1}/${scenes.length}] ${name}`);
+      await renderScene({ sceneFile: abs, sceneName: name, Ctor, fileConfig, cliConfig, out, workers, extraSink: concat });
+    }
+  } finally {
+    await concat?.finish();
+  }
+}
+
+/** One line describing a resolved config, e.g. "1280x720 at 30 fps, background #000000". */
+function describeConfig(config: EngineConfig): string {
+  const parts = [`${config.width}x${config.height} at ${config.fps} fps`, `background ${config.backgroundColor}`];
+  if (config.frameWidth !== undefined && config.frameWidth !== config.width) parts.push(`frame width ${config.frameWidth}`);
+  const data = Object.entries(config.data ?? {});
+  if (data.length > 0) parts.push(`data ${data.map(([k, p]) => `${k}=${p}`).join(' ')}`);
+  return parts.join(', ');
+}
+
+async function list(sceneFile: string, options: ListOptions): Promise<void> {
+  const abs = resolve(process.cwd(), sceneFile);
+  const cliConfig = cliConfigFromOptions(options);
+  const { scenes, fileConfig } = await loadScenes(abs);
+  const resolved = scenes.map(({ name, Ctor }) => ({ name, config: resolveConfig(fileConfig, Ctor.config, cliConfig) }));
+  if (options.json) {
+    console.log(JSON.stringify(resolved, null, 2));
+    return;
+  }
+  if (resolved.length === 0) {
+    console.log(`No scene classes are exported by ${abs}`);
+    return;
   }
+  const width = Math.max(...resolved.map((s) => s.name.length));
+  for (const { name, config } of resolved) console.log(`${name.padEnd(width)}  ${describeConfig(config)}`);
+}
+
+/** Add the flags of the CLI config layer to a command. */
+function configOptions(command: Command): Command {
+  return command
+    .option('-q, --quality <level>', 'Quality preset: l (480p15), m (720p30), h (1080p60), k (2160p60)')
+    .option('-r, --resolution <WxH>', 'Output resolution in pixels, e.g. 1280x720')
+    .option('--fps <number>', 'Frames per second')
+    .option('--background <color>', "Background color (CSS color or 'transparent')")
+    .option('--data <name=path>', 'Data file for scene.loadData(name); repeat for several', (value: string, list: string[]) => [...list, value], []);
 }
 
 export async function main(argv: string[]): Promise<void> {
   const program = new Command();
   program
     .name('munny')
-    .description('Server-side TypeScript Manim-like engine (Bun)')
-    .argument('<sceneFile>', 'Path to scene file')
-    .argument('<sceneName>', 'Scene class to render')
-    .option('-s, --save_last_frame', 'Save last frame as PNG')
-    .option('--pngs', 'Save animation frames as PNGs')
-    .option('-f, --format <type>', 'Video format (mp4|webm|gif|mov)')
-    .option('--fps <number>', 'Frames per second', '30')
-    .option('-o, --outdir <dir>', 'Output directory', 'out')
-    .action(async (sceneFile: string, sceneName: string, opts: CliOptions) => {
-      await run(sceneFile, sceneName, opts);
-    });
+    .description('Server-side TypeScript Manim-like engine (Bun)');
+
+  configOptions(
+    program
+      .command('render', { isDefault: true })
+      .description('Render a scene class from a module, or a .json/.yaml scene document')
+      .argument('<sceneFile>', 'Path to a scene module or scene document')
+      .argument('[sceneName]', 'Scene class to render (not needed for scene documents or with --all)')
+      .option('-a, --all', 'Render every scene the file exports, in export order')
+      .option('--concat <file>', 'With --all, also join the scenes into one video file (.mp4, .webm, .gif or .mov)')
+      .option('-s, --save_last_frame', 'Save last frame as PNG (or SVG, see --last_frame_format)')
+      .option('--last_frame_format <type>', 'Format of the saved last frame (png|svg)')
+      .option('--pngs', 'Save animation frames as PNGs')
+      .option('-f, --format <type>', 'Video format (mp4|webm|gif|mov)')
+      .option('-o, --outdir <dir>', 'Output directory', 'out')
+      .option('-j, --workers <number>', 'Render frames in parallel worker threads'),
+  ).action(async (sceneFile: string, sceneName: string | undefined, opts: CliOptions) => {
+    await run(sceneFile, sceneName, opts);
+  });
+
+  configOptions(
+    program
+      .command('list')
+      .description('List the scenes a module exports (or a scene document holds) with their resolved config')
+      .argument('<sceneFile>', 'Path to a scene module or scene document')
+      .option('--json', 'Print the scenes and configs as JSON'),
+  ).action(async (sceneFile: string, opts: ListOptions) => {
+    await list(sceneFile, opts);
+  });
 
   await program.parseAsync(argv);
 }
@@ -91,38 +265,3 @@ if (import.meta.main) {
     process.exit(1);
   });
 }
-
-async function encodeWithFFmpeg(pattern: string, fps: number, fmt: 'mp4' | 'webm' | 'gif' | 'mov', outFile: string): Promise<void> {
-  const args = buildFfmpegArgs(pattern, fps, fmt, outFile);
-  const proc = Bun.spawn(['ffmpeg', ...args], { stdout: 'inherit', stderr: 'inherit' });
-  const code = await proc.exited;
-  if (code !== 0) {
-    throw new Error(`ffmpeg failed with exit code ${code}`);
-  }
-}
-
-function buildFfmpegArgs(pattern: string, fps: number, fmt: 'mp4' | 'webm' | 'gif' | 'mov', outFile: string): string[] {
-  const common = ['-y', '-framerate', String(fps), '-start_number', '0', '-i', pattern];
-  switch (fmt) {
-    case 'mp4':
-      return [...common, '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-crf', '18', '-preset', 'medium', outFile];
-    case 'webm':
-      return [...common, '-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '35', outFile];
-    case 'gif':
-      // Simple direct conversion; for best quality a palette pass is recommended.
-      return [...common, '-vf', `fps=${fps}`, outFile];
-    case 'mov':
-      return [...common, '-c:v', 'prores_ks', '-profile:v', '3', outFile];
-  }
-}
-
-async function cleanupFrames(outDir: string, sceneName: string): Promise<void> {
-  const dirents = await fs.readdir(outDir, { withFileTypes: true });
-  const prefix = `${sceneName}_`;
-  const suffix = '.png';
-  await Promise.all(
-    dirents
-      .filter((d) => d.isFile() && d.name.startsWith(prefix) && d.name.endsWith(suffix))
-      .map((d) => fs.unlink(join(outDir, d.name)))
-  );
-}
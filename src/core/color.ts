@@ -0,0 +1,52 @@
+/**
+ * Color parsing and interpolation helpers.
+ */
+import { clamp, lerp } from './math.ts';
+import type { ColorString } from './types.ts';
+
+/** RGBA tuple with components in [0,255]. */
+export type RGBA = [number, number, number, number];
+
+/** Try to parse common hex forms: #RRGGBB or #RRGGBBAA. */
+export function parseHex(color: string): RGBA | null {
+  if (!color || color[0] !== '#') return null;
+  const hex = color.slice(1);
+  if (hex.length === 6 || hex.length === 8) {
+    const r = Number.parseInt(hex.slice(0, 2), 16);
+    const g = Number.parseInt(hex.slice(2, 4), 16);
+    const b = Number.parseInt(hex.slice(4, 6), 16);
+    const a = hex.length === 8 ? Number.parseInt(hex.slice(6, 8), 16) : 255;
+    if (Number.isNaN(r) || Number.isNaN(g) || Number.isNaN(b) || Number.isNaN(a)) return null;
+    return [r, g, b, a];
+  }
+  return null;
+}
+
+/** Compose hex string from RGBA, ignoring alpha (engine uses global opacity). */
+export function toHex(rgb: RGBA): ColorString {
+  const r = clamp(Math.round(rgb[0]), 0, 255);
+  const g = clamp(Math.round(rgb[1]), 0, 255);
+  const b = clamp(Math.round(rgb[2]), 0, 255);
+  const hh = (n: number) => n.toString(16).padStart(2, '0');
+  return `#${hh(r)}${hh(g)}${hh(b)}`;
+}
+
+/** Interpolate between two RGBA tuples. */
+export function mixRGBA(a: RGBA, b: RGBA, t: number): RGBA {
+  return [lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t), lerp(a[3], b[3], t)];
+}
+
+/**
+ * Interpolate two colors (null meaning "none").
+ * Hex colors blend in RGB space; anything else snaps to `to` at the end.
+ */
+export function mixColor(from: ColorString | null, to: ColorString | null, t: number): ColorString | null {
+  if (from === to) return to;
+  const a = from ? parseHex(from) : null;
+  const b = to ? parseHex(to) : null;
+  if (a && b) return toHex(mixRGBA(a, b, t));
+  // No blend possible (unsupported format or "none"): keep the visible color until the end
+  if (to === null) return t >= 1 ? null : from;
+  if (from === null) return to;
+  return t >= 1 ? to : from;
+}
@@ -1,12 +1,13 @@
 /**
  * Engine configuration resolution and defaults.
  *
- * Implements the 3-level hierarchy:
+ * Implements the 4-level hierarchy:
  * 1. Engine default (global lowest priority)
  * 2. File-level override (export const config = {...})
  * 3. Scene-level override (static config on Scene subclass)
+ * 4. CLI override (quality presets and flags, highest priority)
  */
-import type { EngineConfig, FileConfig, SceneConfig } from './types.ts';
+import type { CliConfig, EngineConfig, FileConfig, QualityPreset, SceneConfig } from './types.ts';
 
 /** Default engine configuration (Level 1). */
 export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
@@ -16,22 +17,42 @@ export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
   fps: 30,
 };
 
+/** Resolution and frame rate for each quality preset. */
+export const QUALITY_PRESETS: Readonly<Record<QualityPreset, { width: number; height: number; fps: number }>> = {
+  l: { width: 854, height: 480, fps: 15 },
+  m: { width: 1280, height: 720, fps: 30 },
+  h: { width: 1920, height: 1080, fps: 60 },
+  k: { width: 3840, height: 2160, fps: 60 },
+};
+
 /**
- * Merge engine defaults with file-level and scene-level overrides.
+ * Merge engine defaults with file-level, scene-level and CLI overrides.
  * Later levels take precedence.
  */
 export function resolveConfig(
   fileConfig?: FileConfig,
   sceneConfig?: SceneConfig,
+  cliConfig?: CliConfig,
 ): EngineConfig {
-  const mergedWidth = sceneConfig?.width ?? fileConfig?.width ?? DEFAULT_ENGINE_CONFIG.width;
-  const mergedHeight = sceneConfig?.height ?? fileConfig?.height ?? DEFAULT_ENGINE_CONFIG.height;
-  const mergedBg = sceneConfig?.backgroundColor ?? fileConfig?.backgroundColor ?? DEFAULT_ENGINE_CONFIG.backgroundColor;
-  const mergedFps = sceneConfig?.fps ?? fileConfig?.fps ?? DEFAULT_ENGINE_CONFIG.fps;
+  const authoredWidth = sceneConfig?.width ?? fileConfig?.width ?? DEFAULT_ENGINE_CONFIG.width;
+  const mergedWidth = cliConfig?.width ?? authoredWidth;
+  const mergedHeight = cliConfig?.height ?? sceneConfig?.height ?? fileConfig?.height ?? DEFAULT_ENGINE_CONFIG.height;
+  const mergedBg =
+    cliConfig?.backgroundColor ?? sceneConfig?.backgroundColor ?? fileConfig?.backgroundColor ?? DEFAULT_ENGINE_CONFIG.backgroundColor;
+  const mergedFps = cliConfig?.fps ?? sceneConfig?.fps ?? fileConfig?.fps ?? DEFAULT_ENGINE_CONFIG.fps;
+  // Without an explicit frame width, one unit is one pixel at the authored size,
+  // so a CLI resolution change rescales the scene instead of cropping it
+  const mergedFrameWidth = cliConfig?.frameWidth ?? sceneConfig?.frameWidth ?? fileConfig?.frameWidth ?? authoredWidth;
+  if (!(mergedFrameWidth > 0)) {
+    throw new Error(`frameWidth must be a positive number, got ${mergedFrameWidth}`);
+  }
+  const mergedData = { ...fileConfig?.data, ...sceneConfig?.data, ...cliConfig?.data };
   return {
     width: mergedWidth,
     height: mergedHeight,
     backgroundColor: mergedBg,
     fps: mergedFps,
+    frameWidth: mergedFrameWidth,
+    ...(Object.keys(mergedData).length > 0 ? { data: mergedData } : {}),
   } satisfies EngineConfig;
 }
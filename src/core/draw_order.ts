@@ -0,0 +1,56 @@
+/**
+ * Draw-order helpers shared by Scene and VGroup.
+ *
+ * Lists are kept in insertion order; an explicit z-index on a Mobject lifts
+ * it above (or below) its siblings at draw time without reordering the list.
+ */
+import type { Mobject } from './mobject.ts';
+
+/** Remove every occurrence of the given objects from the list. */
+export function removeFromList<T extends Mobject>(list: T[], objs: readonly T[]): void {
+  for (let i = list.length - 1; i >= 0; i--) {
+    if (objs.includes(list[i]!)) list.splice(i, 1);
+  }
+}
+
+/** Move objects to the end of the list (drawn last), adding them if absent. */
+export function moveToFront<T extends Mobject>(list: T[], objs: readonly T[]): void {
+  removeFromList(list, objs);
+  for (let i = 0; i < objs.length; i++) list.push(objs[i]!);
+}
+
+/** Move objects to the start of the list (drawn first), adding them if absent. */
+export function moveToBack<T extends Mobject>(list: T[], objs: readonly T[]): void {
+  removeFromList(list, objs);
+  list.unshift(...objs);
+}
+
+/**
+ * Insert an object directly above or below a reference object.
+ * @throws Error if the reference object is not in the list
+ */
+export function insertRelative<T extends Mobject>(list: T[], obj: T, ref: T, above: boolean): void {
+  if (obj === ref) return;
+  // Check before removing, so a failed insert leaves the list as it was
+  if (!list.includes(ref)) throw new Error(`Cannot insert '${obj.name}': reference '${ref.name}' is not present`);
+  removeFromList(list, [obj]);
+  const idx = list.indexOf(ref);
+  list.splice(above ? idx + 1 : idx, 0, obj);
+}
+
+/**
+ * Objects in the order they should be drawn: ascending z-index, ties keep list order.
+ * Returns the list itself when no object has an explicit z-index.
+ */
+export function inDrawOrder<T extends Mobject>(list: readonly T[]): readonly T[] {
+  let layered = false;
+  for (let i = 0; i < list.length; i++) {
+    if (list[i]!.zIndex !== 0) {
+      layered = true;
+      break;
+    }
+  }
+  if (!layered) return list;
+  // Array.prototype.sort is stable, so equal z-indices keep insertion order
+  return list.slice().sort((a, b) => a.zIndex - b.zIndex);
+}
@@ -4,9 +4,10 @@
  * Provides transform and styling state, chainable setters, and a uniform
  * drawing pipeline that delegates path creation to subclasses.
  */
-import type { ColorString, ReadonlyVec2, Vec2 } from './types.ts';
+import type { ColorString, FillRule, ReadonlyVec2, Vec2 } from './types.ts';
 import { vec2 } from './types.ts';
 import type { SKRSContext2D } from '@napi-rs/canvas';
+import { PathBuilder, type BezierPath } from './path.ts';
 import { FadeIn, FadeOut } from '../animation/transforms/fade.ts';
 import { MoveTo, MoveBy } from '../animation/transforms/move.ts';
 import { RotateTo, RotateBy } from '../animation/transforms/rotate.ts';
@@ -14,6 +15,12 @@ import { ScaleTo, ScaleBy } from '../animation/transforms/scale.ts';
 import { OpacityTo } from '../animation/transforms/opacity.ts';
 import { FillColorTo, StrokeColorTo, StrokeWidthTo } from '../animation/transforms/style.ts';
 
+/**
+ * Per-frame callback bound to a mobject: receives the object and the
+ * seconds elapsed since the previous frame.
+ */
+export type Updater<T extends Mobject = Mobject> = (mobject: T, dt: number) => void;
+
 /**
  * Abstract base class for all renderable objects.
  */
@@ -38,9 +45,19 @@ export abstract class Mobject {
   protected _strokeColor: ColorString | null = '#000000';
   protected _strokeWidth: number = 1;
 
+  /** Extra alpha applied to fill and stroke only, on top of opacity. */
+  protected _fillOpacity: number = 1;
+  protected _strokeOpacity: number = 1;
+
   /** Visibility flag. */
   protected _visible: boolean = true;
 
+  /** Explicit z-index; higher values draw on top of siblings (0 = insertion order). */
+  protected _zIndex: number = 0;
+
+  /** Callbacks run before every frame while the object is in a scene. */
+  private readonly _updaters: Updater<Mobject>[] = [];
+
   constructor(name: string = 'Mobject') {
     this.name = name;
   }
@@ -70,6 +87,11 @@ export abstract class Mobject {
     return this._visible;
   }
 
+  /** Explicit z-index used to order drawing among siblings. */
+  public get zIndex(): number {
+    return this._zIndex;
+  }
+
   /** Fill color or null for no fill. */
   public get fillColor(): ColorString | null {
     return this._fillColor;
@@ -85,6 +107,21 @@ export abstract class Mobject {
     return this._strokeWidth;
   }
 
+  /** Fill rule for overlapping subpaths; shapes that cut holes override it. */
+  public get fillRule(): FillRule {
+    return 'nonzero';
+  }
+
+  /** Fill-only opacity in [0,1] (multiplied with opacity). */
+  public get fillOpacity(): number {
+    return this._fillOpacity;
+  }
+
+  /** Stroke-only opacity in [0,1] (multiplied with opacity). */
+  public get strokeOpacity(): number {
+    return this._strokeOpacity;
+  }
+
   /** Set absolute position. */
   public setPosition(x: number, y: number): this {
     this._position[0] = x;
@@ -119,6 +156,12 @@ export abstract class Mobject {
     return this;
   }
 
+  /** Set z-index; objects with higher values draw above their siblings. */
+  public setZIndex(z: number): this {
+    this._zIndex = z;
+    return this;
+  }
+
   /** Set only fill color; pass null to disable fill. */
   public fill(color: ColorString | null): this {
     this._fillColor = color;
@@ -137,6 +180,18 @@ export abstract class Mobject {
     return this;
   }
 
+  /** Set fill-only opacity in [0,1]. */
+  public setFillOpacity(alpha: number): this {
+    this._fillOpacity = alpha < 0 ? 0 : alpha > 1 ? 1 : alpha;
+    return this;
+  }
+
+  /** Set stroke-only opacity in [0,1]. */
+  public setStrokeOpacity(alpha: number): this {
+    this._strokeOpacity = alpha < 0 ? 0 : alpha > 1 ? 1 : alpha;
+    return this;
+  }
+
   /** Convenience to set both fill and stroke to same color. */
   public setColor(color: ColorString): this {
     this._fillColor = color;
@@ -144,6 +199,24 @@ export abstract class Mobject {
     return this;
   }
 
+  /** Map a point from local coordinates to the parent's (translate -> rotate -> scale, as in draw). */
+  public localToParent(x: number, y: number): [number, number] {
+    const sx = x * this._scale[0]!;
+    const sy = y * this._scale[1]!;
+    const cos = Math.cos(this._rotation);
+    const sin = Math.sin(this._rotation);
+    return [this._position[0]! + sx * cos - sy * sin, this._position[1]! + sx * sin + sy * cos];
+  }
+
+  /** Map a point from the parent's coordinates to local ones (inverse of localToParent). */
+  public parentToLocal(x: number, y: number): [number, number] {
+    const dx = x - this._position[0]!;
+    const dy = y - this._position[1]!;
+    const cos = Math.cos(this._rotation);
+    const sin = Math.sin(this._rotation);
+    return [(dx * cos + dy * sin) / this._scale[0]!, (-dx * sin + dy * cos) / this._scale[1]!];
+  }
+
   /** Immediate move to absolute position via tuple. */
   public positionTo(v: ReadonlyVec2): this {
     this._position[0] = v[0];
@@ -151,6 +224,43 @@ export abstract class Mobject {
     return this;
   }
 
+  /**
+   * Run a callback before every frame while this object is in a scene,
+   * after animations have been applied (chainable).
+   * @param updater Receives this object and the seconds since the previous frame
+   * @param callNow Also run it once immediately with dt = 0
+   */
+  public addUpdater(updater: Updater<this>, callNow: boolean = false): this {
+    // Stored updaters are only ever called with this object, so `this` holds
+    this._updaters.push(updater as Updater<Mobject>);
+    if (callNow) updater(this, 0);
+    return this;
+  }
+
+  /** Stop running an updater (chainable). */
+  public removeUpdater(updater: Updater<this>): this {
+    const i = this._updaters.findIndex((u) => u === updater);
+    if (i >= 0) this._updaters.splice(i, 1);
+    return this;
+  }
+
+  /** Remove every updater (chainable). */
+  public clearUpdaters(): this {
+    this._updaters.length = 0;
+    return this;
+  }
+
+  /** Whether this object (or, for groups, any child) has updaters. */
+  public hasUpdaters(): boolean {
+    return this._updaters.length > 0;
+  }
+
+  /** Run the updaters once; groups then update their children. */
+  public update(dt: number): this {
+    for (const updater of [...this._updaters]) updater(this, dt);
+    return this;
+  }
+
   /**
    * Create a FadeIn animation for this object.
    * @param duration Optional duration in seconds (defaults to 1 if omitted)
@@ -246,6 +356,16 @@ export abstract class Mobject {
     return anim;
   }
 
+  /**
+   * Read back this object's outline in local coordinates as cubic bezier subpaths
+   * by recording the calls made by createPath().
+   */
+  public getPath(): BezierPath {
+    const builder = new PathBuilder();
+    this.createPath(builder.asContext());
+    return builder.toPath();
+  }
+
   /**
    * Create a path for this object at local origin. Subclasses must implement.
    * The base draw method will handle fill/stroke after this path is defined.
@@ -267,20 +387,22 @@ export abstract class Mobject {
 
       // Apply opacity (multiplicative)
       const prevAlpha = ctx.globalAlpha;
-      ctx.globalAlpha = prevAlpha * this._opacity;
+      const alpha = prevAlpha * this._opacity;
 
       // Build path
       ctx.beginPath();
       this.createPath(ctx);
 
       // Fill if requested
-      if (this._fillColor) {
+      if (this._fillColor && this._fillOpacity > 0) {
+        ctx.globalAlpha = alpha * this._fillOpacity;
         ctx.fillStyle = this._fillColor;
-        ctx.fill();
+        ctx.fill(this.fillRule);
       }
 
       // Stroke if requested
-      if (this._strokeColor && this._strokeWidth > 0) {
+      if (this._strokeColor && this._strokeWidth > 0 && this._strokeOpacity > 0) {
+        ctx.globalAlpha = alpha * this._strokeOpacity;
         ctx.strokeStyle = this._strokeColor;
         ctx.lineWidth = this._strokeWidth;
         ctx.stroke();
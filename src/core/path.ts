@@ -0,0 +1,603 @@
+/**
+ * Shared bezier path representation.
+ *
+ * Every outline is reduced to cubic bezier subpaths stored in Float64Arrays so
+ * that shapes and glyphs can be compared, resampled and interpolated.
+ * Subpath layout: [x0, y0, c1x, c1y, c2x, c2y, x1, y1, c1x, c1y, ...] — a start
+ * anchor followed by 6 numbers per cubic segment.
+ */
+import type { SKRSContext2D } from '@napi-rs/canvas';
+import type { PathCommand } from '../font/glyph_path_extractor.ts';
+import type { Bounds } from './types.ts';
+
+/** One connected run of cubic bezier segments. */
+export interface BezierSubpath {
+  points: Float64Array;
+  closed: boolean;
+}
+
+/** A full outline made of independent subpaths. */
+export type BezierPath = BezierSubpath[];
+
+/** Number of cubic segments in a subpath. */
+export function segmentCount(sp: BezierSubpath): number {
+  return sp.points.length >= 2 ? (sp.points.length - 2) / 6 : 0;
+}
+
+/** Deep copy of a path. */
+export function clonePath(path: readonly BezierSubpath[]): BezierPath {
+  return path.map((sp) => ({ points: sp.points.slice(), closed: sp.closed }));
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Collects canvas-style path calls as PathCommands. Shapes use it to generate
+ * their geometry, and it can stand in for a canvas context so that any
+ * `createPath(ctx)` implementation can be read back as data. Arcs and rects
+ * are expanded into primitive commands.
+ */
+export class PathBuilder {
+  public readonly commands: PathCommand[] = [];
+  private hasCurrentPoint = false;
+  private currentX = 0;
+  private currentY = 0;
+  private startX = 0;
+  private startY = 0;
+
+  public beginPath(): this {
+    this.commands.length = 0;
+    this.hasCurrentPoint = false;
+    return this;
+  }
+
+  public moveTo(x: number, y: number): this {
+    this.commands.push({ cmd: 'moveTo', args: [x, y] });
+    this.setCurrent(x, y);
+    this.startX = x;
+    this.startY = y;
+    return this;
+  }
+
+  public lineTo(x: number, y: number): this {
+    if (!this.hasCurrentPoint) return this.moveTo(x, y);
+    this.commands.push({ cmd: 'lineTo', args: [x, y] });
+    this.setCurrent(x, y);
+    return this;
+  }
+
+  public quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): this {
+    if (!this.hasCurrentPoint) this.moveTo(cpx, cpy);
+    this.commands.push({ cmd: 'quadraticCurveTo', args: [cpx, cpy, x, y] });
+    this.setCurrent(x, y);
+    return this;
+  }
+
+  public bezierCurveTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number): this {
+    if (!this.hasCurrentPoint) this.moveTo(c1x, c1y);
+    this.commands.push({ cmd: 'bezierCurveTo', args: [c1x, c1y, c2x, c2y, x, y] });
+    this.setCurrent(x, y);
+    return this;
+  }
+
+  public closePath(): this {
+    this.commands.push({ cmd: 'closePath', args: [] });
+    this.setCurrent(this.startX, this.startY);
+    return this;
+  }
+
+  public rect(x: number, y: number, w: number, h: number): this {
+    return this.moveTo(x, y).lineTo(x + w, y).lineTo(x + w, y + h).lineTo(x, y + h).closePath();
+  }
+
+  /** Canvas `arc` semantics: connects from the current point, then sweeps in <= 90° cubic pieces. */
+  public arc(cx: number, cy: number, r: number, start: number, end: number, anticlockwise: boolean = false): this {
+    const sweep = arcSweep(start, end, anticlockwise);
+    const sx = cx + r * Math.cos(start);
+    const sy = cy + r * Math.sin(start);
+    if (!this.hasCurrentPoint) this.moveTo(sx, sy);
+    else if (sx !== this.currentX || sy !== this.currentY) this.lineTo(sx, sy);
+    if (sweep === 0 || r <= 0) return this;
+
+    const pieces = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const step = sweep / pieces;
+    // Standard cubic approximation of a circular arc of angle `step`
+    const k = (4 / 3) * Math.tan(step / 4);
+    let a0 = start;
+    for (let i = 0; i < pieces; i++) {
+      const a1 = a0 + step;
+      const cos0 = Math.cos(a0), sin0 = Math.sin(a0);
+      const cos1 = Math.cos(a1), sin1 = Math.sin(a1);
+      this.bezierCurveTo(
+        cx + r * (cos0 - k * sin0), cy + r * (sin0 + k * cos0),
+        cx + r * (cos1 + k * sin1), cy + r * (sin1 - k * cos1),
+        cx + r * cos1, cy + r * sin1,
+      );
+      a0 = a1;
+    }
+    return this;
+  }
+
+  /** View this builder as a canvas context for `createPath` implementations. */
+  public asContext(): SKRSContext2D {
+    return this as unknown as SKRSContext2D;
+  }
+
+  /** Convert the collected commands into bezier subpaths. */
+  public toPath(): BezierPath {
+    return pathFromCommands(this.commands);
+  }
+
+  private setCurrent(x: number, y: number): void {
+    this.currentX = x;
+    this.currentY = y;
+    this.hasCurrentPoint = true;
+  }
+}
+
+/** Signed sweep angle produced by canvas `arc(start, end, anticlockwise)` (Skia/Chromium rules). */
+function arcSweep(start: number, end: number, anticlockwise: boolean): number {
+  const TWO_PI = Math.PI * 2;
+  if (!anticlockwise) {
+    if (end - start >= TWO_PI) return TWO_PI;
+    if (start > end) return TWO_PI - ((start - end) % TWO_PI);
+    return end - start;
+  }
+  if (start - end >= TWO_PI) return -TWO_PI;
+  if (start < end) return -(TWO_PI - ((end - start) % TWO_PI));
+  return end - start;
+}
+
+/** Distance below which a subpath end counts as already closed. */
+const CLOSE_EPSILON = 1e-9;
+
+/**
+ * Convert PathCommands (as produced by PathBuilder or the glyph extractor)
+ * into cubic bezier subpaths. Lines and quadratics are elevated to cubics.
+ */
+export function pathFromCommands(commands: readonly PathCommand[]): BezierPath {
+  const path: BezierPath = [];
+  let current: number[] | null = null;
+  let startX = 0, startY = 0;
+  let x = 0, y = 0;
+
+  const flush = (closed: boolean): void => {
+    if (current && current.length > 2) path.push({ points: Float64Array.from(current), closed });
+    current = null;
+  };
+  const ensureStarted = (): number[] => {
+    if (!current) {
+      current = [x, y];
+      startX = x;
+      startY = y;
+    }
+    return current;
+  };
+
+  for (const { cmd, args } of commands) {
+    switch (cmd) {
+      case 'moveTo':
+        flush(false);
+        x = args[0]!;
+        y = args[1]!;
+        ensureStarted();
+        break;
+      case 'lineTo': {
+        const pts = ensureStarted();
+        const nx = args[0]!, ny = args[1]!;
+        pts.push(x + (nx - x) / 3, y + (ny - y) / 3, x + (2 * (nx - x)) / 3, y + (2 * (ny - y)) / 3, nx, ny);
+        x = nx;
+        y = ny;
+        break;
+      }
+      case 'quadraticCurveTo': {
+        const pts = ensureStarted();
+        const qx = args[0]!, qy = args[1]!, nx = args[2]!, ny = args[3]!;
+        pts.push(x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y), nx + (2 / 3) * (qx - nx), ny + (2 / 3) * (qy - ny), nx, ny);
+        x = nx;
+        y = ny;
+        break;
+      }
+      case 'bezierCurveTo': {
+        const pts = ensureStarted();
+        pts.push(args[0]!, args[1]!, args[2]!, args[3]!, args[4]!, args[5]!);
+        x = args[4]!;
+        y = args[5]!;
+        break;
+      }
+      case 'closePath': {
+        if (!current) break;
+        const pts: number[] = current;
+        // Close with an explicit segment so that point data stays continuous;
+        // an end that only misses the start by rounding error is snapped instead
+        if (Math.abs(x - startX) > CLOSE_EPSILON || Math.abs(y - startY) > CLOSE_EPSILON) {
+          pts.push(x + (startX - x) / 3, y + (startY - y) / 3, x + (2 * (startX - x)) / 3, y + (2 * (startY - y)) / 3, startX, startY);
+        } else if (pts.length > 2) {
+          pts[pts.length - 2] = startX;
+          pts[pts.length - 1] = startY;
+        }
+        flush(true);
+        x = startX;
+        y = startY;
+        break;
+      }
+    }
+  }
+  flush(false);
+  return path;
+}
+
+/** Replay a path onto a canvas context (caller handles beginPath/fill/stroke). */
+export function tracePath(ctx: SKRSContext2D, path: readonly BezierSubpath[]): void {
+  for (const sp of path) {
+    const p = sp.points;
+    if (p.length < 2) continue;
+    ctx.moveTo(p[0]!, p[1]!);
+    for (let i = 2; i + 5 < p.length; i += 6) {
+      ctx.bezierCurveTo(p[i]!, p[i + 1]!, p[i + 2]!, p[i + 3]!, p[i + 4]!, p[i + 5]!);
+    }
+    if (sp.closed) ctx.closePath();
+  }
+}
+
+/**
+ * Map a path through translate -> rotate -> scale (same order as Mobject.draw),
+ * returning a new path in the parent's coordinates.
+ */
+export function transformPath(
+  path: readonly BezierSubpath[],
+  tx: number,
+  ty: number,
+  rotation: number,
+  sx: number,
+  sy: number,
+): BezierPath {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return path.map((sp) => {
+    const src = sp.points;
+    const out = new Float64Array(src.length);
+    for (let i = 0; i + 1 < src.length; i += 2) {
+      const x = src[i]! * sx;
+      const y = src[i + 1]! * sy;
+      out[i] = tx + x * cos - y * sin;
+      out[i + 1] = ty + x * sin + y * cos;
+    }
+    return { points: out, closed: sp.closed };
+  });
+}
+
+/**
+ * Smooth subpath through points (Catmull-Rom splines as cubics), so sampled
+ * curves such as function graphs look round between samples. A closed
+ * subpath joins the last point back to the first, smoothly; do not repeat
+ * the first point at the end.
+ */
+export function smoothSubpath(points: readonly (readonly [number, number])[], closed: boolean = false): BezierSubpath {
+  const n = points.length;
+  if (n === 0) return { points: new Float64Array(0), closed };
+  const segments = closed && n > 2 ? n : n - 1;
+  const at = (i: number): readonly [number, number] => (closed ? points[(i + n) % n]! : points[Math.min(n - 1, Math.max(0, i))]!);
+  const out = new Float64Array(2 + 6 * segments);
+  out[0] = points[0]![0];
+  out[1] = points[0]![1];
+  for (let i = 0; i < segments; i++) {
+    const p0 = at(i - 1);
+    const p1 = at(i);
+    const p2 = at(i + 1);
+    const p3 = at(i + 2);
+    const o = 2 + 6 * i;
+    out[o] = p1[0] + (p2[0] - p0[0]) / 6;
+    out[o + 1] = p1[1] + (p2[1] - p0[1]) / 6;
+    out[o + 2] = p2[0] - (p3[0] - p1[0]) / 6;
+    out[o + 3] = p2[1] - (p3[1] - p1[1]) / 6;
+    out[o + 4] = p2[0];
+    out[o + 5] = p2[1];
+  }
+  return { points: out, closed: closed && n > 2 };
+}
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+/** Evaluate one coordinate of a cubic bezier at t. */
+function cubicAt(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const mt = 1 - t;
+  return mt * mt * mt * p0 + 3 * mt * mt * t * p1 + 3 * mt * t * t * p2 + t * t * t * p3;
+}
+
+/** Parameters in (0,1) where one coordinate of a cubic has a local extremum. */
+function cubicExtrema(p0: number, p1: number, p2: number, p3: number): number[] {
+  // Derivative is a quadratic a t^2 + b t + c
+  const a = -p0 + 3 * p1 - 3 * p2 + p3;
+  const b = 2 * (p0 - 2 * p1 + p2);
+  const c = p1 - p0;
+  const out: number[] = [];
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) > 1e-12) out.push(-c / b);
+  } else {
+    const disc = b * b - 4 * a * c;
+    if (disc >= 0) {
+      const sq = Math.sqrt(disc);
+      out.push((-b + sq) / (2 * a), (-b - sq) / (2 * a));
+    }
+  }
+  return out.filter((t) => t > 0 && t < 1);
+}
+
+/** Tight axis-aligned bounds of a path (zero-size at origin if empty). */
+export function pathBounds(path: readonly BezierSubpath[]): Bounds {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const include = (x: number, y: number): void => {
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  };
+  for (const sp of path) {
+    const p = sp.points;
+    if (p.length >= 2) include(p[0]!, p[1]!);
+    for (let i = 0; i + 7 < p.length; i += 6) {
+      const x0 = p[i]!, y0 = p[i + 1]!, x1 = p[i + 2]!, y1 = p[i + 3]!;
+      const x2 = p[i + 4]!, y2 = p[i + 5]!, x3 = p[i + 6]!, y3 = p[i + 7]!;
+      include(x3, y3);
+      for (const t of cubicExtrema(x0, x1, x2, x3)) include(cubicAt(x0, x1, x2, x3, t), cubicAt(y0, y1, y2, y3, t));
+      for (const t of cubicExtrema(y0, y1, y2, y3)) include(cubicAt(x0, x1, x2, x3, t), cubicAt(y0, y1, y2, y3, t));
+    }
+  }
+  if (minX === Infinity) return { x: 0, y: 0, width: 0, height: 0 };
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** Chords used per segment when approximating arc length. */
+const LENGTH_SAMPLES = 16;
+
+/** Approximate arc length of each segment, in path order. */
+function segmentLengths(path: readonly BezierSubpath[]): number[] {
+  const out: number[] = [];
+  for (const sp of path) {
+    const p = sp.points;
+    for (let i = 0; i + 7 < p.length; i += 6) {
+      let len = 0;
+      let px = p[i]!, py = p[i + 1]!;
+      for (let k = 1; k <= LENGTH_SAMPLES; k++) {
+        const t = k / LENGTH_SAMPLES;
+        const x = cubicAt(p[i]!, p[i + 2]!, p[i + 4]!, p[i + 6]!, t);
+        const y = cubicAt(p[i + 1]!, p[i + 3]!, p[i + 5]!, p[i + 7]!, t);
+        len += Math.hypot(x - px, y - py);
+        px = x;
+        py = y;
+      }
+      out.push(len);
+    }
+  }
+  return out;
+}
+
+/** Approximate total arc length of all subpaths. */
+export function pathLength(path: readonly BezierSubpath[]): number {
+  return segmentLengths(path).reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Point at a proportion in [0,1] of the path's total length, walking
+ * subpaths in order. Within a segment the bezier parameter is used directly.
+ */
+export function pointAtProportion(path: readonly BezierSubpath[], alpha: number): [number, number] {
+  const lengths = segmentLengths(path);
+  const total = lengths.reduce((a, b) => a + b, 0);
+  const target = Math.min(Math.max(alpha, 0), 1) * total;
+  let acc = 0;
+  let seg = 0;
+  for (const sp of path) {
+    const p = sp.points;
+    for (let i = 0; i + 7 < p.length; i += 6) {
+      const len = lengths[seg++]!;
+      if (acc + len >= target || seg === lengths.length) {
+        const t = len > 0 ? Math.min((target - acc) / len, 1) : 0;
+        return [cubicAt(p[i]!, p[i + 2]!, p[i + 4]!, p[i + 6]!, t), cubicAt(p[i + 1]!, p[i + 3]!, p[i + 5]!, p[i + 7]!, t)];
+      }
+      acc += len;
+    }
+  }
+  const first = path[0]?.points;
+  return first && first.length >= 2 ? [first[0]!, first[1]!] : [0, 0];
+}
+
+/**
+ * Portion of a path between two proportions of its total length, e.g.
+ * [0, 0.5] for the first half. Subpaths are walked in order; a closed subpath
+ * that is only partly covered comes back open.
+ */
+export function partialPath(path: readonly BezierSubpath[], start: number, end: number): BezierPath {
+  const lengths = segmentLengths(path);
+  const total = lengths.reduce((a, b) => a + b, 0);
+  const a = Math.min(Math.max(start, 0), 1) * total;
+  const b = Math.min(Math.max(end, 0), 1) * total;
+  const out: BezierPath = [];
+  if (b <= a || total === 0) return out;
+
+  const seg = new Float64Array(8);
+  let acc = 0;
+  let k = 0;
+  for (const sp of path) {
+    const p = sp.points;
+    const n = segmentCount(sp);
+    let pts: number[] | null = null;
+    let whole = true;
+    for (let i = 0; i < n; i++) {
+      const len = lengths[k++]!;
+      const s0 = acc;
+      const s1 = acc + len;
+      acc = s1;
+      if (s1 <= a || s0 >= b) {
+        whole = false;
+        continue;
+      }
+      // Local parameter range covered by [a, b] (length-proportional within the segment)
+      const t0 = len > 0 ? Math.max(0, (a - s0) / len) : 0;
+      const t1 = len > 0 ? Math.min(1, (b - s0) / len) : 1;
+      if (t0 > 0 || t1 < 1) whole = false;
+      for (let j = 0; j < 8; j++) seg[j] = p[i * 6 + j]!;
+      subCubic(seg, t0, t1);
+      if (!pts) pts = [seg[0]!, seg[1]!];
+      pts.push(seg[2]!, seg[3]!, seg[4]!, seg[5]!, seg[6]!, seg[7]!);
+    }
+    if (pts) out.push({ points: Float64Array.from(pts), closed: whole && sp.closed });
+  }
+  return out;
+}
+
+// ============================================================================
+// RESAMPLING AND INTERPOLATION
+// ============================================================================
+
+/**
+ * Split every segment of a subpath so that it has exactly `target` segments.
+ * Extra splits are spread evenly across the existing segments.
+ */
+export function resampleSubpath(sp: BezierSubpath, target: number): BezierSubpath {
+  const n = segmentCount(sp);
+  if (n === target || target <= 0) return { points: sp.points.slice(), closed: sp.closed };
+  if (n === 0) {
+    // Degenerate subpath: repeat the single anchor
+    const out = new Float64Array(2 + target * 6);
+    const x = sp.points[0] ?? 0, y = sp.points[1] ?? 0;
+    for (let i = 0; i < out.length; i += 2) {
+      out[i] = x;
+      out[i + 1] = y;
+    }
+    return { points: out, closed: sp.closed };
+  }
+  if (target < n) throw new RangeError(`Cannot resample ${n} segments down to ${target}`);
+
+  const src = sp.points;
+  const out = new Float64Array(2 + target * 6);
+  out[0] = src[0]!;
+  out[1] = src[1]!;
+  let w = 2;
+  const seg = new Float64Array(8);
+  for (let i = 0; i < n; i++) {
+    const pieces = Math.floor(((i + 1) * target) / n) - Math.floor((i * target) / n);
+    for (let k = 0; k < 8; k++) seg[k] = src[i * 6 + k]!;
+    for (let j = 0; j < pieces; j++) {
+      // Cut the remaining curve at the fraction that yields equal parameter pieces
+      const remaining = pieces - j;
+      if (remaining > 1) {
+        splitCubicHead(seg, 1 / remaining, out, w);
+      } else {
+        for (let k = 2; k < 8; k++) out[w + k - 2] = seg[k]!;
+      }
+      w += 6;
+    }
+  }
+  return { points: out, closed: sp.closed };
+}
+
+/** Replace the cubic in `seg` (8 numbers) with its piece between parameters t0 and t1. */
+function subCubic(seg: Float64Array, t0: number, t1: number): void {
+  const head = SUB_CUBIC_SCRATCH;
+  if (t0 > 0) splitCubicHead(seg, t0, head, 0);
+  if (t1 < 1) {
+    // seg now spans [t0, 1]; keep the head of the second split
+    const u = t0 < 1 ? (t1 - t0) / (1 - t0) : 1;
+    const sx = seg[0]!, sy = seg[1]!;
+    splitCubicHead(seg, u, head, 0);
+    seg[0] = sx;
+    seg[1] = sy;
+    for (let k = 0; k < 6; k++) seg[2 + k] = head[k]!;
+  }
+}
+
+const SUB_CUBIC_SCRATCH = new Float64Array(6);
+
+/**
+ * De Casteljau split of the cubic in `seg` at t: writes the head's 3 control
+ * points into out[offset..offset+6) and replaces `seg` with the tail.
+ */
+function splitCubicHead(seg: Float64Array, t: number, out: Float64Array, offset: number): void {
+  for (let axis = 0; axis < 2; axis++) {
+    const p0 = seg[axis]!, p1 = seg[2 + axis]!, p2 = seg[4 + axis]!, p3 = seg[6 + axis]!;
+    const a = p0 + (p1 - p0) * t;
+    const b = p1 + (p2 - p1) * t;
+    const c = p2 + (p3 - p2) * t;
+    const d = a + (b - a) * t;
+    const e = b + (c - b) * t;
+    const f = d + (e - d) * t;
+    out[offset + axis] = a;
+    out[offset + 2 + axis] = d;
+    out[offset + 4 + axis] = f;
+    seg[axis] = f;
+    seg[2 + axis] = e;
+    seg[4 + axis] = c;
+  }
+}
+
+/** Center of the axis-aligned bounds of all path points (origin if empty). */
+export function pathCenter(path: readonly BezierSubpath[]): [number, number] {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const sp of path) {
+    const p = sp.points;
+    for (let i = 0; i + 1 < p.length; i += 2) {
+      if (p[i]! < minX) minX = p[i]!;
+      if (p[i]! > maxX) maxX = p[i]!;
+      if (p[i + 1]! < minY) minY = p[i + 1]!;
+      if (p[i + 1]! > maxY) maxY = p[i + 1]!;
+    }
+  }
+  if (minX === Infinity) return [0, 0];
+  return [(minX + maxX) / 2, (minY + maxY) / 2];
+}
+
+/**
+ * Make two paths structurally identical: same number of subpaths and the same
+ * segment count per subpath. Missing subpaths grow from a point at the
+ * center of the path that lacks them.
+ */
+export function alignPaths(a: readonly BezierSubpath[], b: readonly BezierSubpath[]): [BezierPath, BezierPath] {
+  const count = Math.max(a.length, b.length, 1);
+  const padA = padSubpaths(a, count);
+  const padB = padSubpaths(b, count);
+  const outA: BezierPath = [];
+  const outB: BezierPath = [];
+  for (let i = 0; i < count; i++) {
+    const sa = padA[i]!;
+    const sb = padB[i]!;
+    const n = Math.max(segmentCount(sa), segmentCount(sb), 1);
+    outA.push(resampleSubpath(sa, n));
+    outB.push(resampleSubpath(sb, n));
+  }
+  return [outA, outB];
+}
+
+function padSubpaths(path: readonly BezierSubpath[], count: number): BezierSubpath[] {
+  const out = path.slice();
+  if (out.length >= count) return out;
+  const [cx, cy] = pathCenter(path);
+  while (out.length < count) out.push({ points: Float64Array.of(cx, cy), closed: true });
+  return out;
+}
+
+/**
+ * Interpolate two aligned paths into `out` (which must share their structure).
+ * Subpaths stay closed only if closed on both ends, until t reaches 1.
+ */
+export function interpolatePaths(
+  out: BezierPath,
+  a: readonly BezierSubpath[],
+  b: readonly BezierSubpath[],
+  t: number,
+): BezierPath {
+  for (let i = 0; i < out.length; i++) {
+    const o = out[i]!;
+    const pa = a[i]!.points;
+    const pb = b[i]!.points;
+    const po = o.points;
+    for (let k = 0; k < po.length; k++) po[k] = pa[k]! + (pb[k]! - pa[k]!) * t;
+    o.closed = t >= 1 ? b[i]!.closed : a[i]!.closed && b[i]!.closed;
+  }
+  return out;
+}
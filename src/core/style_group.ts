@@ -0,0 +1,52 @@
+/**
+ * StyleGroup<T> - VGroup whose style setters also restyle every child.
+ *
+ * Used for objects made of many parts that read as one shape (formulas,
+ * imported SVGs): `setColor` on the whole colors every part, while parts
+ * can still be styled individually afterwards.
+ */
+import type { ColorString } from './types.ts';
+import { VGroup } from './vgroup.ts';
+import type { VMobject } from './vmobject.ts';
+
+export class StyleGroup<T extends VMobject = VMobject> extends VGroup<T> {
+  constructor(name: string = 'StyleGroup') {
+    super(name);
+  }
+
+  public override fill(color: ColorString | null): this {
+    super.fill(color);
+    for (const child of this.children) child.fill(color);
+    return this;
+  }
+
+  public override stroke(color: ColorString | null): this {
+    super.stroke(color);
+    for (const child of this.children) child.stroke(color);
+    return this;
+  }
+
+  public override setStrokeWidth(width: number): this {
+    super.setStrokeWidth(width);
+    for (const child of this.children) child.setStrokeWidth(width);
+    return this;
+  }
+
+  public override setFillOpacity(alpha: number): this {
+    super.setFillOpacity(alpha);
+    for (const child of this.children) child.setFillOpacity(alpha);
+    return this;
+  }
+
+  public override setStrokeOpacity(alpha: number): this {
+    super.setStrokeOpacity(alpha);
+    for (const child of this.children) child.setStrokeOpacity(alpha);
+    return this;
+  }
+
+  public override setColor(color: ColorString): this {
+    super.setColor(color);
+    for (const child of this.children) child.setColor(color);
+    return this;
+  }
+}
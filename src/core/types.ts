@@ -25,6 +25,9 @@ export type ReadonlyVec2 = readonly [number, number];
 /** Color represented as CSS string (e.g., '#RRGGBB', 'rgba(...)', or named). */
 export type ColorString = string;
 
+/** Rule deciding which parts of a self-overlapping outline are filled. */
+export type FillRule = 'nonzero' | 'evenodd';
+
 /** Supported easing names. */
 export type EasingName =
   | 'linear'
@@ -44,6 +47,19 @@ export interface EngineConfig {
   height: number;
   backgroundColor: ColorString | 'transparent';
   fps: number;
+  /**
+   * Width of the visible frame in scene units; the renderer scales it to
+   * `width` pixels (height follows the pixel aspect ratio). Coordinates,
+   * stroke widths and font sizes are all in scene units, so a scene looks
+   * the same at any resolution. Defaults to the authored pixel width.
+   */
+  frameWidth?: number;
+  /**
+   * Data files a scene can load by name with loadData(): name -> path of a
+   * CSV, TSV or JSON file, relative to the working directory. Names from
+   * every level are merged; `--data name=path` on the CLI wins.
+   */
+  data?: Readonly<Record<string, string>>;
 }
 
 /** File-level configuration (Level 2) allowing partial overrides. */
@@ -52,6 +68,18 @@ export type FileConfig = Partial<EngineConfig>;
 /** Scene-level configuration (Level 3) allowing partial overrides. */
 export type SceneConfig = Partial<EngineConfig>;
 
+/** Command-line configuration (Level 4, highest priority) allowing partial overrides. */
+export type CliConfig = Partial<EngineConfig>;
+
+/** Render quality presets: low, medium, high and 4K. */
+export type QualityPreset = 'l' | 'm' | 'h' | 'k';
+
+/** Video container formats supported by the ffmpeg encoder. */
+export type VideoFormat = 'mp4' | 'webm' | 'gif' | 'mov';
+
+/** Formats a single frame can be saved in. */
+export type StillFormat = 'png' | 'svg';
+
 /**
  * Renderer options controlling output behavior.
  */
@@ -59,8 +87,25 @@ export interface RenderOutputOptions {
   outDir: string;
   saveLastFrame: boolean;
   savePNGs: boolean;
-  /** Placeholder for future video export using ffmpeg. */
-  format?: 'mp4' | 'webm' | 'gif' | 'mov';
+  /** File format of the saved last frame (default png). */
+  lastFrameFormat?: StillFormat;
+  /** Video format encoded by the CLI via an ffmpeg frame sink. */
+  format?: VideoFormat;
+  /** Render only this worker's share of the timeline (set by parallel rendering). */
+  partition?: FramePartition;
+}
+
+/**
+ * One worker's share of a timeline split for parallel rendering.
+ * Frames are dealt out in consecutive chunks, round-robin across workers.
+ */
+export interface FramePartition {
+  /** This worker's slot, 0-based. */
+  index: number;
+  /** Total number of workers. */
+  count: number;
+  /** Consecutive frames dealt to a worker at a time. */
+  chunkSize: number;
 }
 
 /** Rectangle bounds in scene coordinates. */
@@ -0,0 +1,55 @@
+/**
+ * ValueTracker - an invisible mobject holding one number.
+ *
+ * Animate it like any property and let updaters derive geometry from it:
+ *
+ *   const t = new ValueTracker(0);
+ *   dot.addUpdater((d) => d.setPosition(t.getValue(), 0));
+ *   await scene.play(t.changeValue(200, 2));
+ */
+import type { SKRSContext2D } from '@napi-rs/canvas';
+import { Mobject } from './mobject.ts';
+import { ChangeValue } from '../animation/transforms/value.ts';
+
+export class ValueTracker extends Mobject {
+  private _value: number;
+
+  constructor(value: number = 0, name: string = 'ValueTracker') {
+    super(name);
+    this._value = value;
+  }
+
+  /** Current value. */
+  public getValue(): number {
+    return this._value;
+  }
+
+  /** Set the value. */
+  public setValue(value: number): this {
+    this._value = value;
+    return this;
+  }
+
+  /** Add to the value. */
+  public increment(delta: number): this {
+    this._value += delta;
+    return this;
+  }
+
+  /**
+   * Create a ChangeValue animation from the current value to another.
+   * @param to Target value
+   * @param duration Optional duration in seconds (defaults to 1 if omitted)
+   */
+  public changeValue(to: number, duration?: number): ChangeValue {
+    const anim = new ChangeValue(this, to);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** Trackers have no outline. */
+  protected createPath(_ctx: SKRSContext2D): void {}
+
+  /** Trackers are never drawn. */
+  public override draw(_ctx: SKRSContext2D): void {}
+}
@@ -5,12 +5,15 @@
  * Styling (fill/stroke) is not applied at group level; children own their style.
  */
 import type { SKRSContext2D } from '@napi-rs/canvas';
-import { Mobject } from './mobject.ts';
+import type { Mobject } from './mobject.ts';
+import { VMobject } from './vmobject.ts';
+import { transformPath, type BezierPath } from './path.ts';
+import { inDrawOrder, insertRelative, moveToBack, moveToFront, removeFromList } from './draw_order.ts';
 
 /**
  * Vector-only group that holds child Mobjects.
  */
-export class VGroup<T extends Mobject = Mobject> extends Mobject {
+export class VGroup<T extends Mobject = Mobject> extends VMobject {
   protected readonly children: T[] = [];
 
   constructor(name: string = 'VGroup') {
@@ -46,10 +49,9 @@ export class VGroup<T extends Mobject = Mobject> extends Mobject {
     return this;
   }
 
-  /** Remove a child if present. */
-  public remove(obj: T): this {
-    const idx = this.children.indexOf(obj);
-    if (idx >= 0) this.children.splice(idx, 1);
+  /** Remove children if present. */
+  public remove(...objs: T[]): this {
+    removeFromList(this.children, objs);
     return this;
   }
 
@@ -59,14 +61,83 @@ export class VGroup<T extends Mobject = Mobject> extends Mobject {
     return this;
   }
 
-  /** No path for a group. */
-  protected createPath(_ctx: SKRSContext2D): void {}
+  /** Draw children above their siblings with the same z-index (adds them if absent). */
+  public bringToFront(...objs: T[]): this {
+    moveToFront(this.children, objs);
+    return this;
+  }
+
+  /** Draw children below their siblings with the same z-index (adds them if absent). */
+  public sendToBack(...objs: T[]): this {
+    moveToBack(this.children, objs);
+    return this;
+  }
+
+  /** Place a child directly above a reference child. */
+  public insertAbove(obj: T, ref: T): this {
+    insertRelative(this.children, obj, ref, true);
+    return this;
+  }
+
+  /** Place a child directly below a reference child. */
+  public insertBelow(obj: T, ref: T): this {
+    insertRelative(this.children, obj, ref, false);
+    return this;
+  }
+
+  public override hasUpdaters(): boolean {
+    return super.hasUpdaters() || this.children.some((child) => child.hasUpdaters());
+  }
+
+  /** Run own updaters, then each child's. */
+  public override update(dt: number): this {
+    super.update(dt);
+    for (const child of [...this.children]) child.update(dt);
+    return this;
+  }
+
+  /**
+   * Vector children that actually draw, flattened through nested groups.
+   * A group carrying a morphed outline of its own draws as one part.
+   */
+  public override getDrawableParts(): VMobject[] {
+    if (this.hasCustomPath) return [this];
+    const out: VMobject[] = [];
+    for (const child of this) {
+      if (child instanceof VMobject) out.push(...child.getDrawableParts());
+    }
+    return out;
+  }
+
+  /**
+   * Combined outline of all children, mapped into the group's local coordinates.
+   * Recomputed on every access since children move independently.
+   */
+  public override getPath(): BezierPath {
+    return this.hasCustomPath ? super.getPath() : this.generatePoints();
+  }
+
+  /** Union of child outlines in group-local coordinates. */
+  protected generatePoints(): BezierPath {
+    const out: BezierPath = [];
+    for (const child of this.children) {
+      const p = child.position;
+      const s = child.scale;
+      out.push(...transformPath(child.getPath(), p[0]!, p[1]!, child.rotation, s[0]!, s[1]!));
+    }
+    return out;
+  }
 
   /**
    * Draw group: apply transforms and opacity, then draw each child.
+   * While a custom path is set (e.g. after a morph) the group draws it as a single shape instead.
    */
   public override draw(ctx: SKRSContext2D): void {
     if (!this.visible) return;
+    if (this.hasCustomPath) {
+      super.draw(ctx);
+      return;
+    }
 
     ctx.save();
     try {
@@ -79,8 +150,8 @@ export class VGroup<T extends Mobject = Mobject> extends Mobject {
       const prevAlpha = ctx.globalAlpha;
       ctx.globalAlpha = prevAlpha * this.opacity;
 
-      // Draw children
-      for (const child of this.children) child.draw(ctx);
+      // Draw children (z-index first, then insertion order)
+      for (const child of inDrawOrder(this.children)) child.draw(ctx);
 
       ctx.globalAlpha = prevAlpha;
     } finally {
@@ -0,0 +1,154 @@
+/**
+ * VMobject - vector mobject whose geometry is stored as cubic bezier subpaths.
+ *
+ * Subclasses describe their shape once in generatePoints(); the result is kept
+ * in typed arrays and replayed by draw(). Because the geometry can be read
+ * back, bounds, point sampling, morphing and export all work on the same data.
+ */
+import type { SKRSContext2D } from '@napi-rs/canvas';
+import { Mobject } from './mobject.ts';
+import { partialPath, pathBounds, pathLength, pointAtProportion, tracePath, transformPath, type BezierPath } from './path.ts';
+import type { Bounds } from './types.ts';
+import { Transform } from '../animation/transforms/transform.ts';
+import { Create, Uncreate, Write } from '../animation/transforms/create.ts';
+
+/**
+ * Abstract base class for shapes backed by bezier point data.
+ */
+export abstract class VMobject extends Mobject {
+  /** Current geometry; null until generated or after shape parameters change. */
+  private _subpaths: BezierPath | null = null;
+
+  /** Whether the geometry was assigned explicitly (e.g. by a morph) rather than generated. */
+  private _customPath: boolean = false;
+
+  /** Visible portion of the outline as proportions of its length. */
+  private _drawStart: number = 0;
+  private _drawEnd: number = 1;
+
+  constructor(name: string = 'VMobject') {
+    super(name);
+  }
+
+  /**
+   * Build this shape's geometry in local coordinates. Subclasses must implement.
+   * Called lazily whenever the stored points were invalidated.
+   */
+  protected abstract generatePoints(): BezierPath;
+
+  /** Current outline in local coordinates (generated on first access). */
+  public override getPath(): BezierPath {
+    if (!this._subpaths) this._subpaths = this.generatePoints();
+    return this._subpaths;
+  }
+
+  /**
+   * Replace the stored geometry with explicit path data (local coordinates).
+   * Pass null to regenerate from the shape's own parameters.
+   */
+  public setPath(path: BezierPath | null): this {
+    this._subpaths = path;
+    this._customPath = path !== null;
+    return this;
+  }
+
+  /** Whether the geometry was set explicitly instead of generated. */
+  public get hasCustomPath(): boolean {
+    return this._customPath;
+  }
+
+  /**
+   * Discard stored geometry so it is regenerated on next access.
+   * Shape setters call this; call it after mutating shape parameters in place.
+   */
+  public refreshPoints(): this {
+    this._subpaths = null;
+    this._customPath = false;
+    return this;
+  }
+
+  /** Visible portion of the outline as [start, end] proportions of its length. */
+  public get drawRange(): readonly [number, number] {
+    return [this._drawStart, this._drawEnd];
+  }
+
+  /**
+   * Only draw the part of the outline between two proportions of its length
+   * (fill follows the partial outline). [0, 1] draws everything.
+   */
+  public setDrawRange(start: number, end: number): this {
+    this._drawStart = start < 0 ? 0 : start > 1 ? 1 : start;
+    this._drawEnd = end < 0 ? 0 : end > 1 ? 1 : end;
+    return this;
+  }
+
+  /** Whether the outline is currently drawn only in part. */
+  public get isPartiallyDrawn(): boolean {
+    return this._drawStart > 0 || this._drawEnd < 1;
+  }
+
+  /** Vector parts that actually draw for this object (itself for a plain shape). */
+  public getDrawableParts(): VMobject[] {
+    return [this];
+  }
+
+  /** Tight bounds of the outline in local coordinates. */
+  public getLocalBounds(): Bounds {
+    return pathBounds(this.getPath());
+  }
+
+  /** Tight bounds of the outline after this object's own transform (parent coordinates). */
+  public getBounds(): Bounds {
+    const p = this.position;
+    const s = this.scale;
+    return pathBounds(transformPath(this.getPath(), p[0]!, p[1]!, this.rotation, s[0]!, s[1]!));
+  }
+
+  /** Approximate outline length in local units. */
+  public getArcLength(): number {
+    return pathLength(this.getPath());
+  }
+
+  /** Point at a proportion in [0,1] along the outline, in local coordinates. */
+  public pointFromProportion(alpha: number): [number, number] {
+    return pointAtProportion(this.getPath(), alpha);
+  }
+
+  /**
+   * Create a Transform animation morphing this object into another's shape and style.
+   * @param into Template mobject to morph into (not added to the scene)
+   * @param duration Optional duration in seconds (defaults to 1 if omitted)
+   */
+  public transformTo(into: Mobject, duration?: number): Transform {
+    const anim = new Transform(this, into);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** Create a Create animation that progressively draws this object's outline. */
+  public create(duration?: number): Create {
+    const anim = new Create(this);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** Create an Uncreate animation that erases the outline and removes this object from the scene. */
+  public uncreate(duration?: number): Uncreate {
+    const anim = new Uncreate(this);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** Create a Write animation: trace outlines part by part, then fade in the fill. */
+  public write(duration?: number): Write {
+    const anim = new Write(this);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** Replay the stored geometry (or the visible part of it). */
+  protected createPath(ctx: SKRSContext2D): void {
+    const path = this.getPath();
+    tracePath(ctx, this.isPartiallyDrawn ? partialPath(path, this._drawStart, this._drawEnd) : path);
+  }
+}
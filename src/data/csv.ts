@@ -0,0 +1,83 @@
+/**
+ * CSV reading (RFC 4180): quoted fields may hold delimiters, doubled quotes
+ * and line breaks; CRLF and LF line endings and a leading BOM are accepted.
+ */
+import { DataError } from './table.ts';
+
+export interface CSVOptions {
+  /** Field separator (default: ',') */
+  delimiter?: string;
+}
+
+/**
+ * Split CSV text into rows of raw field text. Blank lines are skipped.
+ * @param source - File name used in error messages
+ * @throws DataError on an unterminated quote or text after a closing quote
+ */
+export function parseCSV(text: string, options: CSVOptions = {}, source?: string): string[][] {
+  const delimiter = options.delimiter ?? ',';
+  if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+    throw new DataError(`CSV delimiter must be a single character other than a quote or line break, got ${JSON.stringify(delimiter)}`, source);
+  }
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  // Whether the current field was quoted, so `""` on its own line is not a blank line
+  let quoted = false;
+  let line = 1;
+  let i = 0;
+
+  const endField = (): void => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = (): void => {
+    const blank = row.length === 0 && field === '' && !quoted;
+    endField();
+    if (!blank) rows.push(row);
+    row = [];
+    quoted = false;
+  };
+
+  while (i < src.length) {
+    const c = src[i]!;
+    if (c === '"' && field === '' && !quoted) {
+      const start = line;
+      quoted = true;
+      i++;
+      for (;;) {
+        if (i >= src.length) throw new DataError('Unterminated quoted field', source, start);
+        const q = src[i]!;
+        i++;
+        if (q !== '"') {
+          if (q === '\n') line++;
+          field += q;
+        } else if (src[i] === '"') {
+          field += '"';
+          i++;
+        } else {
+          break;
+        }
+      }
+      const next = src[i];
+      if (next !== undefined && next !== delimiter && next !== '\n' && next !== '\r') {
+        throw new DataError(`Unexpected ${JSON.stringify(next)} after a closing quote`, source, line);
+      }
+      continue;
+    }
+    if (c === delimiter) {
+      endField();
+      quoted = false;
+    } else if (c === '\n' || c === '\r') {
+      endRow();
+      if (c === '\r' && src[i + 1] === '\n') i++;
+      line++;
+    } else {
+      field += c;
+    }
+    i++;
+  }
+  if (field !== '' || quoted || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,83 @@
+/**
+ * Reading data files into DataTables: CSV and TSV (first row is the
+ * header) and JSON, either an array of row objects or an object of
+ * equally long column arrays.
+ */
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseCSV } from './csv.ts';
+import { DataError, DataTable, type DataTableOptions } from './table.ts';
+
+export type DataFormat = 'csv' | 'tsv' | 'json';
+
+export interface LoadDataOptions extends DataTableOptions {
+  /** File format (default: from the extension) */
+  format?: DataFormat;
+  /** CSV field separator (default: ',' for CSV, tab for TSV) */
+  delimiter?: string;
+}
+
+/**
+ * Parse data text of a known format.
+ * @param source - File name used in error messages
+ * @throws DataError on malformed data
+ */
+export function parseData(text: string, format: DataFormat, options: LoadDataOptions = {}, source?: string): DataTable {
+  if (format === 'json') {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (err) {
+      throw new DataError(`Invalid JSON: ${(err as Error).message}`, source, undefined, err as Error);
+    }
+    return fromJSON(json, options, source);
+  }
+  const delimiter = options.delimiter ?? (format === 'tsv' ? '\t' : ',');
+  const [header, ...rows] = parseCSV(text, { delimiter }, source);
+  if (!header) throw new DataError('File has no header row', source);
+  return DataTable.fromRows(header, rows, options, source);
+}
+
+/**
+ * Read a CSV, TSV or JSON file into a table.
+ * @throws DataError when the file cannot be read, its format is unknown or its data is malformed
+ */
+export async function loadData(path: string, options: LoadDataOptions = {}): Promise<DataTable> {
+  const format = options.format ?? formatOf(path);
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    throw new DataError(`Cannot read file: ${(err as Error).message}`, path, undefined, err as Error);
+  }
+  return parseData(text, format, options, path);
+}
+
+function formatOf(path: string): DataFormat {
+  const ext = extname(path).toLowerCase().slice(1);
+  if (ext === 'csv' || ext === 'tsv' || ext === 'json') return ext;
+  throw new DataError(`Unknown data format "${ext}"; use a .csv, .tsv or .json file or pass a format`, path);
+}
+
+function fromJSON(json: unknown, options: LoadDataOptions, source?: string): DataTable {
+  if (Array.isArray(json)) {
+    if (!json.every((r) => typeof r === 'object' && r !== null && !Array.isArray(r))) {
+      throw new DataError('A JSON array must hold one object per row', source);
+    }
+    return DataTable.fromRecords(json as Record<string, unknown>[], options, source);
+  }
+  if (typeof json === 'object' && json !== null) {
+    // Columnar: { "x": [...], "y": [...] }
+    const entries = Object.entries(json);
+    if (!entries.every(([, v]) => Array.isArray(v))) {
+      throw new DataError('A JSON object must map column names to arrays of values', source);
+    }
+    const length = Math.max(0, ...entries.map(([, v]) => (v as unknown[]).length));
+    if (entries.some(([, v]) => (v as unknown[]).length !== length)) {
+      throw new DataError('JSON column arrays must have equal lengths', source);
+    }
+    const records = Array.from({ length }, (_, i) => Object.fromEntries(entries.map(([k, v]) => [k, (v as unknown[])[i]])));
+    return DataTable.fromRecords(records, options, source);
+  }
+  throw new DataError('JSON data must be an array of rows or an object of columns', source);
+}
@@ -0,0 +1,263 @@
+/**
+ * DataTable - rows of named, typed columns read from CSV or JSON.
+ *
+ * Each column is a number, date or string column. Types are inferred from
+ * the cells (a column is numeric when every present cell parses as a
+ * number, a date column when every one parses as an ISO 8601 date) unless
+ * given explicitly. Missing cells ('', NA, N/A, null, NaN, - by default,
+ * or JSON null) are null in every column type.
+ */
+
+export type ColumnType = 'number' | 'date' | 'string';
+
+export type DataValue = number | Date | string | null;
+
+export interface DataTableOptions {
+  /** Column types to use instead of inferring them */
+  types?: Readonly<Record<string, ColumnType>>;
+  /** Cell texts meaning "no value", compared after trimming (default: '', 'NA', 'N/A', 'null', 'NaN', '-') */
+  missing?: readonly string[];
+}
+
+/** Thrown when data cannot be read or does not have the expected shape. */
+export class DataError extends Error {
+  constructor(
+    message: string,
+    /** File the data came from, if any */
+    public readonly source?: string,
+    /** 1-based line of the problem in a text file, if known */
+    public readonly line?: number,
+    public override readonly cause?: Error,
+  ) {
+    super(source ? `${source}${line !== undefined ? `:${line}` : ''}: ${message}` : message);
+    this.name = 'DataError';
+  }
+}
+
+const DEFAULT_MISSING = ['', 'NA', 'N/A', 'null', 'NaN', '-'];
+
+const PLAIN_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+const GROUPED_NUMBER = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Number from text such as "42", "-1.5e3" or "1,234.5"; null if it is not one. */
+export function parseNumber(text: string): number | null {
+  const t = text.trim();
+  if (PLAIN_NUMBER.test(t)) return Number(t);
+  if (GROUPED_NUMBER.test(t)) return Number(t.replace(/,/g, ''));
+  return null;
+}
+
+/**
+ * Date from ISO 8601 text: "2024-03-01", "2024-03-01T14:30", "2024-03-01 14:30:05.250+02:00".
+ * Times without a zone are UTC, so renders do not depend on the machine's
+ * time zone. Returns null for other text and impossible dates.
+ */
+export function parseDate(text: string): Date | null {
+  const m = ISO_DATE.exec(text.trim());
+  if (!m) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', frac = '', zone = 'Z'] = m;
+  const ms = Math.round(Number(frac || '0') * 1000);
+  const utc = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s), ms);
+  const check = new Date(utc);
+  if (check.getUTCMonth() !== Number(mo) - 1 || check.getUTCDate() !== Number(d) || Number(h) > 23 || Number(mi) > 59 || Number(s) > 59) {
+    return null;
+  }
+  let offset = 0;
+  if (zone !== 'Z') {
+    const sign = zone[0] === '-' ? -1 : 1;
+    const digits = zone.slice(1).replace(':', '');
+    offset = sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * 60000;
+  }
+  return new Date(utc - offset);
+}
+
+/** Parse one cell of a column of known type. */
+function parseCell(cell: string, type: ColumnType): DataValue | undefined {
+  if (type === 'number') return parseNumber(cell) ?? undefined;
+  if (type === 'date') return parseDate(cell) ?? undefined;
+  return cell;
+}
+
+export class DataTable {
+  private readonly names: string[];
+  private readonly types: ColumnType[];
+  private readonly data: DataValue[][];
+
+  /**
+   * Build a table from already typed columns; see fromRows() and
+   * fromRecords() for parsing raw data.
+   */
+  constructor(columns: readonly { name: string; type: ColumnType; values: readonly DataValue[] }[]) {
+    const lengths = new Set(columns.map((c) => c.values.length));
+    if (lengths.size > 1) throw new DataError(`Columns must have equal lengths, got ${[...lengths].join(', ')}`);
+    const seen = new Set<string>();
+    for (const c of columns) {
+      if (seen.has(c.name)) throw new DataError(`Duplicate column "${c.name}"`);
+      seen.add(c.name);
+    }
+    this.names = columns.map((c) => c.name);
+    this.types = columns.map((c) => c.type);
+    this.data = columns.map((c) => [...c.values]);
+  }
+
+  /**
+   * Table from a header and rows of cell text (or JSON scalars), inferring
+   * column types. Short rows are padded with missing values.
+   * @param source - File name used in error messages
+   * @throws DataError on rows longer than the header or cells that do not fit an explicit type
+   */
+  public static fromRows(
+    header: readonly string[],
+    rows: readonly (readonly (string | number | null | undefined)[])[],
+    options: DataTableOptions = {},
+    source?: string,
+  ): DataTable {
+    const missing = new Set(options.missing ?? DEFAULT_MISSING);
+    const names = header.map((h, i) => h.trim() || `column${i + 1}`);
+    rows.forEach((row, r) => {
+      if (row.length > names.length) {
+        throw new DataError(`Row ${r + 1} has ${row.length} cells but the header has ${names.length}`, source);
+      }
+    });
+
+    const columns = names.map((name, c) => {
+      // Numbers stay numbers; text is trimmed and checked for missing markers
+      const cells = rows.map((row) => {
+        const cell = row[c];
+        if (cell === null || cell === undefined) return null;
+        if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+        const t = cell.trim();
+        return missing.has(t) ? null : t;
+      });
+      const type = options.types?.[name] ?? DataTable.inferType(cells);
+      const values = cells.map((cell, r): DataValue => {
+        if (cell === null) return null;
+        if (typeof cell === 'number') {
+          if (type === 'number') return cell;
+          if (type === 'string') return String(cell);
+          throw new DataError(`Column "${name}", row ${r + 1}: ${cell} is not a date`, source);
+        }
+        const value = parseCell(cell, type);
+        if (value === undefined) throw new DataError(`Column "${name}", row ${r + 1}: "${cell}" is not a ${type}`, source);
+        return value;
+      });
+      return { name, type, values };
+    });
+    return new DataTable(columns);
+  }
+
+  /**
+   * Table from JSON-style records (one object per row), with columns in
+   * order of first appearance. Strings are parsed like CSV cells.
+   * @throws DataError on nested objects or arrays as values
+   */
+  public static fromRecords(records: readonly Readonly<Record<string, unknown>>[], options: DataTableOptions = {}, source?: string): DataTable {
+    const header: string[] = [];
+    for (const record of records) {
+      for (const key of Object.keys(record)) if (!header.includes(key)) header.push(key);
+    }
+    const rows = records.map((record, r) => header.map((key) => DataTable.scalar(record[key], `Row ${r + 1}, "${key}"`, source)));
+    return DataTable.fromRows(header, rows, options, source);
+  }
+
+  /** Column names, in order. */
+  public get columns(): string[] {
+    return [...this.names];
+  }
+
+  /** Number of rows. */
+  public get rowCount(): number {
+    return this.data[0]?.length ?? 0;
+  }
+
+  /**
+   * Type of a column
+   * @throws DataError for an unknown column
+   */
+  public getType(name: string): ColumnType {
+    return this.types[this.index(name)]!;
+  }
+
+  /**
+   * Values of a column, null where missing
+   * @throws DataError for an unknown column
+   */
+  public column(name: string): DataValue[] {
+    return [...this.data[this.index(name)]!];
+  }
+
+  /**
+   * Values of a number column, null where missing
+   * @throws DataError for an unknown or non-numeric column
+   */
+  public numbers(name: string): (number | null)[] {
+    return this.typed(name, 'number') as (number | null)[];
+  }
+
+  /**
+   * Values of a date column, null where missing
+   * @throws DataError for an unknown or non-date column
+   */
+  public dates(name: string): (Date | null)[] {
+    return this.typed(name, 'date') as (Date | null)[];
+  }
+
+  /**
+   * Values of any column as text (dates in ISO 8601), null where missing
+   * @throws DataError for an unknown column
+   */
+  public strings(name: string): (string | null)[] {
+    return this.column(name).map((v) => (v === null ? null : v instanceof Date ? v.toISOString() : String(v)));
+  }
+
+  /** Row i as an object keyed by column name. */
+  public row(i: number): Record<string, DataValue> {
+    if (!(i >= 0 && i < this.rowCount)) throw new RangeError(`Row ${i} is out of range (0..${this.rowCount - 1})`);
+    return Object.fromEntries(this.names.map((name, c) => [name, this.data[c]![i]!]));
+  }
+
+  /** All rows as objects keyed by column name. */
+  public rows(): Record<string, DataValue>[] {
+    return Array.from({ length: this.rowCount }, (_, i) => this.row(i));
+  }
+
+  /**
+   * Table without the rows missing a value in any of the given columns
+   * (all columns when none are given)
+   */
+  public dropMissing(...names: string[]): DataTable {
+    const cols = (names.length > 0 ? names : this.names).map((n) => this.index(n));
+    const keep = Array.from({ length: this.rowCount }, (_, i) => i).filter((i) => cols.every((c) => this.data[c]![i] !== null));
+    return new DataTable(this.names.map((name, c) => ({ name, type: this.types[c]!, values: keep.map((i) => this.data[c]![i]!) })));
+  }
+
+  private index(name: string): number {
+    const i = this.names.indexOf(name);
+    if (i < 0) throw new DataError(`No column "${name}"; columns are ${this.names.map((n) => `"${n}"`).join(', ')}`);
+    return i;
+  }
+
+  private typed(name: string, type: ColumnType): DataValue[] {
+    const actual = this.getType(name);
+    if (actual !== type) throw new DataError(`Column "${name}" holds ${actual} values, not ${type} values`);
+    return this.column(name);
+  }
+
+  /** Number for a column only if every present cell is one, then date, else string. */
+  private static inferType(cells: readonly (string | number | null)[]): ColumnType {
+    const present = cells.filter((c) => c !== null);
+    if (present.length === 0) return 'string';
+    if (present.every((c) => typeof c === 'number' || parseNumber(c) !== null)) return 'number';
+    if (present.every((c) => typeof c === 'string' && parseDate(c) !== null)) return 'date';
+    return 'string';
+  }
+
+  /** A JSON value as a cell: scalars only. */
+  private static scalar(value: unknown, where: string, source?: string): string | number | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number' || typeof value === 'string') return value;
+    if (typeof value === 'boolean') return String(value);
+    throw new DataError(`${where}: nested values are not supported`, source);
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Scene documents - a scene described as data instead of a Scene subclass:
+ * the objects it shows and a timeline of steps that animate them.
+ *
+ * ```json
+ * {
+ *   "name": "Intro",
+ *   "config": { "width": 1280, "height": 720 },
+ *   "objects": [{ "id": "dot", "type": "Circle", "radius": 40, "fill": "#ffd54f" }],
+ *   "timeline": [
+ *     { "play": "FadeIn", "target": "dot", "duration": 0.5 },
+ *     { "play": "MoveTo", "target": "dot", "to": [200, 0], "easing": "easeInOut" },
+ *     { "wait": 1 }
+ *   ]
+ * }
+ * ```
+ *
+ * A step is one of `play`, `wait`, `add` or `remove`. `play` names one
+ * animation whose fields sit on the step itself, or lists several
+ * (`{ "animation": "FadeIn", "target": "dot" }`) to run together. Objects
+ * enter the scene when a step first animates or adds them. The same
+ * structure can be written in YAML.
+ */
+import type { EasingName, SceneConfig } from '../core/types.ts';
+import { EASINGS } from '../animation/base/easing.ts';
+
+/** An object on stage: its id, its type and that type's fields. */
+export interface ObjectSpec {
+  /** Name steps refer to the object by */
+  readonly id: string;
+  /** Object type, e.g. 'Circle' or 'Text' */
+  readonly type: string;
+  readonly [field: string]: unknown;
+}
+
+/** One animation of a play step: its name, target and parameters. */
+export interface AnimationSpec {
+  /** Animation name, e.g. 'FadeIn' or 'MoveTo' */
+  readonly animation: string;
+  /** Id of the animated object */
+  readonly target: string;
+  /** Duration in seconds (default: the step's, else 1) */
+  readonly duration?: number;
+  /** Easing (default: the step's, else linear) */
+  readonly easing?: EasingName;
+  readonly [param: string]: unknown;
+}
+
+/** Timeline step, with `play` shorthand already expanded to a list. */
+export type StepSpec =
+  | { readonly play: readonly AnimationSpec[]; readonly duration?: number; readonly easing?: EasingName }
+  | { readonly wait: number }
+  | { readonly add: readonly string[] }
+  | { readonly remove: readonly string[] };
+
+export interface SceneDocument {
+  /** Scene name, used for output files */
+  readonly name?: string;
+  /** Scene configuration (Level 3) */
+  readonly config?: SceneConfig;
+  readonly objects: readonly ObjectSpec[];
+  readonly timeline: readonly StepSpec[];
+}
+
+/** Thrown when a scene document cannot be read or describes something invalid. */
+export class SceneDocumentError extends Error {
+  constructor(
+    message: string,
+    /** File the document came from, if any */
+    public readonly source?: string,
+    /** 1-based line of the problem, if known */
+    public readonly line?: number,
+    public override readonly cause?: Error,
+  ) {
+    super(source ? `${source}${line !== undefined ? `:${line}` : ''}: ${message}` : message);
+    this.name = 'SceneDocumentError';
+  }
+}
+
+const ID = /^[A-Za-z_][\w-]*$/;
+const CONFIG_NUMBERS = ['width', 'height', 'fps', 'frameWidth'] as const;
+const STEP_KINDS = ['play', 'wait', 'add', 'remove'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the structure of a parsed document (JSON or YAML) and expand
+ * shorthand. Object fields and animation parameters are checked when the
+ * scene is built, by the object and animation types.
+ * @param source - File name used in error messages
+ * @throws SceneDocumentError naming the first invalid field
+ */
+export function validateSceneDocument(json: unknown, source?: string): SceneDocument {
+  const fail = (where: string, message: string): never => {
+    throw new SceneDocumentError(`${where}: ${message}`, source);
+  };
+  if (!isRecord(json)) return fail('document', 'expected an object with "objects" and "timeline"');
+  for (const key of Object.keys(json)) {
+    if (!['name', 'config', 'objects', 'timeline'].includes(key)) fail(key, 'unknown field; expected name, config, objects or timeline');
+  }
+
+  const name = json['name'];
+  if (name !== undefined && (typeof name !== 'string' || !ID.test(name))) {
+    fail('name', 'expected a name of letters, digits, "_" and "-"');
+  }
+
+  const config = json['config'] === undefined ? undefined : validateConfig(json['config'], fail);
+
+  const rawObjects = json['objects'] ?? [];
+  if (!Array.isArray(rawObjects)) return fail('objects', 'expected a list');
+  const ids = new Set<string>();
+  const objects = rawObjects.map((o, i): ObjectSpec => {
+    const where = `objects[${i}]`;
+    if (!isRecord(o)) return fail(where, 'expected an object');
+    const { id, type } = o;
+    if (typeof id !== 'string' || !ID.test(id)) return fail(`${where}.id`, 'expected a name of letters, digits, "_" and "-"');
+    if (ids.has(id)) fail(`${where}.id`, `duplicate id "${id}"`);
+    if (typeof type !== 'string') return fail(`${where}.type`, 'expected a type name');
+    ids.add(id);
+    return { ...o, id, type };
+  });
+  const ref = (where: string, id: unknown): string => {
+    if (typeof id !== 'string') return fail(where, 'expected an object id');
+    if (!ids.has(id)) fail(where, `no object "${id}"`);
+    return id as string;
+  };
+
+  const timeline = json['timeline'];
+  if (!Array.isArray(timeline)) return fail('timeline', 'expected a list of steps');
+  const steps = timeline.map((step, i): StepSpec => {
+    const where = `timeline[${i}]`;
+    if (!isRecord(step)) return fail(where, 'expected an object');
+    const kinds = STEP_KINDS.filter((k) => k in step);
+    if (kinds.length !== 1) return fail(where, 'expected exactly one of play, wait, add or remove');
+    const kind = kinds[0]!;
+
+    if (kind === 'wait') {
+      if (Object.keys(step).length > 1) fail(where, 'a wait step has no other fields');
+      const seconds = step['wait'];
+      if (typeof seconds !== 'number' || !(seconds >= 0) || !Number.isFinite(seconds)) return fail(`${where}.wait`, 'expected seconds, a number >= 0');
+      return { wait: seconds };
+    }
+    if (kind === 'add' || kind === 'remove') {
+      if (Object.keys(step).length > 1) fail(where, `an ${kind} step has no other fields`);
+      const raw = step[kind];
+      const list = Array.isArray(raw) ? raw : [raw];
+      const targets = list.map((id, k) => ref(Array.isArray(raw) ? `${where}.${kind}[${k}]` : `${where}.${kind}`, id));
+      return kind === 'add' ? { add: targets } : { remove: targets };
+    }
+
+    const play = step['play'];
+    const { play: _, duration, easing, ...fields } = step;
+    const timing = validateTiming(duration, easing, where, fail);
+    let anims: Record<string, unknown>[];
+    if (typeof play === 'string') {
+      // Shorthand: the step's other fields belong to its one animation
+      anims = [{ ...fields, animation: play }];
+    } else if (Array.isArray(play) && play.length > 0) {
+      if (Object.keys(fields).length > 0) fail(where, `unknown field "${Object.keys(fields)[0]}"; with a list of animations, put it on each animation`);
+      anims = play.map((a, k) => (isRecord(a) ? a : fail(`${where}.play[${k}]`, 'expected an object')));
+    } else {
+      return fail(`${where}.play`, 'expected an animation name or a non-empty list of animations');
+    }
+    const specs = anims.map((a, k): AnimationSpec => {
+      const at = typeof play === 'string' ? where : `${where}.play[${k}]`;
+      const { animation, target, duration: d, easing: e } = a;
+      if (typeof animation !== 'string') return fail(`${at}.animation`, 'expected an animation name');
+      const own = typeof play === 'string' ? {} : validateTiming(d, e, at, fail);
+      return { ...a, animation, target: ref(`${at}.target`, target), ...own };
+    });
+    return { play: specs, ...timing };
+  });
+
+  return {
+    ...(name !== undefined ? { name: name as string } : {}),
+    ...(config ? { config } : {}),
+    objects,
+    timeline: steps,
+  };
+}
+
+function validateConfig(raw: unknown, fail: (where: string, message: string) => never): SceneConfig {
+  if (!isRecord(raw)) return fail('config', 'expected an object');
+  const config: SceneConfig = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if ((CONFIG_NUMBERS as readonly string[]).includes(key)) {
+      if (typeof value !== 'number' || !(value > 0) || !Number.isFinite(value)) fail(`config.${key}`, 'expected a positive number');
+      config[key as (typeof CONFIG_NUMBERS)[number]] = value as number;
+    } else if (key === 'backgroundColor') {
+      if (typeof value !== 'string') fail('config.backgroundColor', 'expected a color');
+      config.backgroundColor = value as string;
+    } else if (key === 'data') {
+      if (!isRecord(value) || !Object.values(value).every((p) => typeof p === 'string')) {
+        fail('config.data', 'expected an object mapping names to file paths');
+      }
+      config.data = value as Record<string, string>;
+    } else {
+      fail(`config.${key}`, 'unknown field; expected width, height, fps, frameWidth, backgroundColor or data');
+    }
+  }
+  return config;
+}
+
+function validateTiming(
+  duration: unknown,
+  easing: unknown,
+  where: string,
+  fail: (where: string, message: string) => never,
+): { duration?: number; easing?: EasingName } {
+  if (duration !== undefined && (typeof duration !== 'number' || !(duration > 0) || !Number.isFinite(duration))) {
+    fail(`${where}.duration`, 'expected seconds, a number > 0');
+  }
+  if (easing !== undefined && (typeof easing !== 'string' || !EASINGS.has(easing as EasingName))) {
+    fail(`${where}.easing`, `expected one of ${[...EASINGS.keys()].join(', ')}`);
+  }
+  return {
+    ...(duration !== undefined ? { duration: duration as number } : {}),
+    ...(easing !== undefined ? { easing: easing as EasingName } : {}),
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Scenes built from scene documents: sceneFromDocument() turns a document
+ * into a Scene class that renders like any hand-written one, so the CLI,
+ * render workers and frame sinks need nothing special for it.
+ */
+import { dirname, resolve, basename, extname } from 'node:path';
+import type { SceneConfig } from '../core/types.ts';
+import type { Mobject } from '../core/mobject.ts';
+import type { Animation } from '../animation/base/animation.ts';
+import { Scene } from '../scene/scene.ts';
+import type { LoadedScene, SceneConstructor } from '../scene/scene_loader.ts';
+import { SceneDocumentError, type SceneDocument, type StepSpec } from './document.ts';
+import { SpecFields } from './fields.ts';
+import { ANIMATIONS, OBJECT_TYPES } from './registry.ts';
+import { readSceneDocument } from './loader.ts';
+
+export interface DocumentSceneOptions {
+  /** Scene name when the document has none (default: 'DocumentScene') */
+  name?: string;
+  /** Directory relative paths in the document resolve against (default: the working directory) */
+  baseDir?: string;
+  /** File name used in error messages */
+  source?: string;
+}
+
+/** A built timeline step. */
+type Step = (scene: Scene) => Promise<void>;
+
+/**
+ * Scene class rendering a document. Objects and animations are built, and
+ * their fields checked, when construct() starts, before any frame is drawn.
+ */
+export function sceneFromDocument(doc: SceneDocument, options: DocumentSceneOptions = {}): SceneConstructor {
+  const baseDir = options.baseDir ?? process.cwd();
+  const source = options.source;
+  const data = doc.config?.data;
+  const config: SceneConfig | undefined = data
+    ? { ...doc.config, data: Object.fromEntries(Object.entries(data).map(([k, p]) => [k, resolve(baseDir, p)])) }
+    : doc.config;
+
+  class DocumentScene extends Scene {
+    public static override config = config;
+
+    public override async construct(): Promise<void> {
+      const objects = await buildObjects(doc, baseDir, source);
+      const steps = doc.timeline.map((step, i) => buildStep(step, `timeline[${i}]`, objects, source));
+      for (const step of steps) await step(this);
+    }
+  }
+  Object.defineProperty(DocumentScene, 'name', { value: doc.name ?? options.name ?? 'DocumentScene' });
+  return DocumentScene;
+}
+
+/**
+ * Read a scene document file as a scene. It is named after the file unless
+ * it names itself; relative paths in it resolve against its directory.
+ * @param sceneName - Name the caller asked for, if any; must match the document's
+ * @throws SceneDocumentError when the file is invalid or describes another scene
+ */
+export async function loadSceneDocument(path: string, sceneName?: string): Promise<LoadedScene> {
+  const abs = resolve(process.cwd(), path);
+  const doc = await readSceneDocument(abs);
+  const name = doc.name ?? basename(abs, extname(abs));
+  if (sceneName !== undefined && sceneName !== name) {
+    throw new SceneDocumentError(`Scene '${sceneName}' was not found; the document describes '${name}'`, path);
+  }
+  return { Ctor: sceneFromDocument(doc, { name, baseDir: dirname(abs), source: path }), fileConfig: undefined };
+}
+
+/** An error from the engine's own checks, placed at the spec it came from. */
+function placed(err: unknown, where: string, source?: string): Error {
+  if (err instanceof SceneDocumentError) return err;
+  return new SceneDocumentError(`${where}: ${(err as Error).message}`, source, undefined, err as Error);
+}
+
+async function buildObjects(doc: SceneDocument, baseDir: string, source?: string): Promise<Map<string, Mobject>> {
+  const objects = new Map<string, Mobject>();
+  for (const [i, spec] of doc.objects.entries()) {
+    const where = `objects[${i}]`;
+    const type = OBJECT_TYPES.get(spec.type);
+    if (!type) {
+      throw new SceneDocumentError(`${where}.type: unknown type "${spec.type}"; expected one of ${[...OBJECT_TYPES.keys()].join(', ')}`, source);
+    }
+    const f = new SpecFields(spec, where, source).skip('id', 'type');
+    let obj: Mobject;
+    try {
+      obj = await type.build(f, spec.id, { baseDir });
+    } catch (err) {
+      throw placed(err, where, source);
+    }
+    applyCommon(obj, f, type.styled);
+    f.finish();
+    objects.set(spec.id, obj);
+  }
+  return objects;
+}
+
+/** Placement and style fields every object type takes. */
+function applyCommon(obj: Mobject, f: SpecFields, styled: boolean): void {
+  const position = f.point('position');
+  if (position) obj.setPosition(position[0], position[1]);
+  const rotation = f.angle('rotation');
+  if (rotation !== undefined) obj.setRotation(rotation);
+  const scale = f.factors('scale');
+  if (scale) obj.setScale(scale[0], scale[1]);
+  const opacity = f.number('opacity');
+  if (opacity !== undefined) obj.setOpacity(opacity);
+  const zIndex = f.number('zIndex');
+  if (zIndex !== undefined) obj.setZIndex(zIndex);
+  if (!styled) return;
+
+  // color first, so fill and stroke can override half of it
+  const color = f.string('color');
+  if (color !== undefined) obj.setColor(color);
+  const fill = f.color('fill');
+  if (fill !== undefined) obj.fill(fill);
+  const stroke = f.color('stroke');
+  if (stroke !== undefined) obj.stroke(stroke);
+  const strokeWidth = f.number('strokeWidth');
+  if (strokeWidth !== undefined) obj.setStrokeWidth(strokeWidth);
+  const fillOpacity = f.number('fillOpacity');
+  if (fillOpacity !== undefined) obj.setFillOpacity(fillOpacity);
+  const strokeOpacity = f.number('strokeOpacity');
+  if (strokeOpacity !== undefined) obj.setStrokeOpacity(strokeOpacity);
+}
+
+function buildStep(step: StepSpec, where: string, objects: ReadonlyMap<string, Mobject>, source?: string): Step {
+  if ('wait' in step) return (scene) => scene.wait(step.wait);
+  if ('add' in step) {
+    const targets = step.add.map((id) => objects.get(id)!);
+    return async (scene) => void scene.add(...targets);
+  }
+  if ('remove' in step) {
+    const targets = step.remove.map((id) => objects.get(id)!);
+    return async (scene) => void scene.remove(...targets);
+  }
+
+  const anims: Animation[] = step.play.map((spec, k) => {
+    const at = step.play.length === 1 ? where : `${where}.play[${k}]`;
+    const type = ANIMATIONS.get(spec.animation);
+    if (!type) {
+      throw new SceneDocumentError(`${at}.animation: unknown animation "${spec.animation}"; expected one of ${[...ANIMATIONS.keys()].join(', ')}`, source);
+    }
+    const f = new SpecFields(spec, at, source).skip('animation', 'target', 'duration', 'easing');
+    let anim: Animation;
+    try {
+      anim = type.build(objects.get(spec.target)!, f, objects);
+    } catch (err) {
+      throw placed(err, at, source);
+    }
+    f.finish();
+    const duration = spec.duration ?? step.duration;
+    if (duration !== undefined) anim.setDuration(duration);
+    const easing = spec.easing ?? step.easing;
+    if (easing !== undefined) anim.setEasing(easing);
+    return anim;
+  });
+  return async (scene) => {
+    // Animated objects enter the scene the first time they play
+    for (const anim of anims) if (!scene.contains(anim.target)) scene.add(anim.target);
+    await scene.play(...anims);
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * SpecFields - typed access to the fields of one object or animation in a
+ * scene document. Every getter returns undefined for an absent field and
+ * throws for one of the wrong type; fields nobody read are reported as
+ * unknown by finish(), which catches misspelled names.
+ */
+import type { ColorString } from '../core/types.ts';
+import type { AxisRange } from '../graphing/number_line.ts';
+import { SceneDocumentError } from './document.ts';
+
+type Point = [number, number];
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isPoint = (v: unknown): v is Point => Array.isArray(v) && v.length === 2 && v.every(isNumber);
+
+export class SpecFields {
+  private readonly used = new Set<string>();
+
+  /**
+   * @param spec - The object's or animation's fields
+   * @param where - Path of the spec in the document, e.g. "objects[2]"
+   * @param source - File name used in error messages
+   */
+  constructor(
+    private readonly spec: Readonly<Record<string, unknown>>,
+    private readonly where: string,
+    private readonly source?: string,
+  ) {}
+
+  /** Mark fields as handled elsewhere. */
+  public skip(...keys: string[]): this {
+    for (const key of keys) this.used.add(key);
+    return this;
+  }
+
+  /** Whether a field is present. */
+  public has(key: string): boolean {
+    return this.spec[key] !== undefined;
+  }
+
+  /**
+   * A field of any shape, checked by a type guard
+   * @param expected - What the field should be, for the error message
+   */
+  public field<T>(key: string, expected: string, test: (value: unknown) => value is T): T | undefined {
+    this.used.add(key);
+    const value = this.spec[key];
+    if (value === undefined) return undefined;
+    if (!test(value)) throw this.error(key, `expected ${expected}, got ${JSON.stringify(value)}`);
+    return value;
+  }
+
+  /** A field that must be present, read with one of the getters: `f.required('text', f.string)`. */
+  public required<T>(key: string, read: (this: SpecFields, key: string) => T | undefined): T {
+    const value = read.call(this, key);
+    if (value === undefined) throw this.error(key, 'is required');
+    return value;
+  }
+
+  public number(key: string): number | undefined {
+    return this.field(key, 'a number', isNumber);
+  }
+
+  /** An angle given in degrees, in radians. */
+  public angle(key: string): number | undefined {
+    const degrees = this.field(key, 'an angle in degrees', isNumber);
+    return degrees === undefined ? undefined : (degrees * Math.PI) / 180;
+  }
+
+  public string(key: string): string | undefined {
+    return this.field(key, 'a string', isString);
+  }
+
+  public boolean(key: string): boolean | undefined {
+    return this.field(key, 'true or false', (v): v is boolean => typeof v === 'boolean');
+  }
+
+  /** A color, or null for none. */
+  public color(key: string): ColorString | null | undefined {
+    return this.field(key, 'a color or null', (v): v is ColorString | null => v === null || isString(v));
+  }
+
+  /** One of a fixed set of strings. */
+  public oneOf<T extends string>(key: string, values: readonly T[]): T | undefined {
+    return this.field(key, `one of ${values.join(', ')}`, (v): v is T => values.includes(v as T));
+  }
+
+  /** A point as [x, y]. */
+  public point(key: string): Point | undefined {
+    return this.field(key, 'a point [x, y]', isPoint);
+  }
+
+  public points(key: string): Point[] | undefined {
+    return this.field(key, 'a list of points [x, y]', (v): v is Point[] => Array.isArray(v) && v.every(isPoint));
+  }
+
+  /** Scale factors: one number for both axes, or [x, y]. */
+  public factors(key: string): Point | undefined {
+    const value = this.field(key, 'a number or [x, y]', (v): v is number | Point => isNumber(v) || isPoint(v));
+    return typeof value === 'number' ? [value, value] : value;
+  }
+
+  public numbers(key: string): number[] | undefined {
+    return this.field(key, 'a list of numbers', (v): v is number[] => Array.isArray(v) && v.every(isNumber));
+  }
+
+  /** A list of numbers, or a list of equally typed lists of numbers. */
+  public data(key: string): number[] | number[][] | undefined {
+    return this.field(key, 'a list of numbers or of lists of numbers', (v): v is number[] | number[][] =>
+      Array.isArray(v) && (v.every(isNumber) || v.every((s) => Array.isArray(s) && s.every(isNumber))));
+  }
+
+  public strings(key: string): string[] | undefined {
+    return this.field(key, 'a list of strings', (v): v is string[] => Array.isArray(v) && v.every(isString));
+  }
+
+  /** An axis range [min, max] or [min, max, step]. */
+  public range(key: string): AxisRange | undefined {
+    return this.field(key, '[min, max] or [min, max, step]', (v): v is AxisRange =>
+      Array.isArray(v) && (v.length === 2 || v.length === 3) && v.every(isNumber));
+  }
+
+  /**
+   * Check that every field was read
+   * @throws SceneDocumentError naming the first unknown field
+   */
+  public finish(): void {
+    const unknown = Object.keys(this.spec).filter((key) => !this.used.has(key));
+    if (unknown.length > 0) {
+      const known = [...this.used].sort().join(', ');
+      throw this.error(unknown[0]!, `unknown field${known ? `; expected one of ${known}` : ''}`);
+    }
+  }
+
+  /** An error about one field. */
+  public error(key: string, message: string): SceneDocumentError {
+    return new SceneDocumentError(`${this.where}.${key}: ${message}`, this.source);
+  }
+}
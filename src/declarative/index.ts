@@ -0,0 +1,3 @@
+export { SceneDocumentError, validateSceneDocument } from './document.ts';
+export { parseSceneDocument, readSceneDocument, isSceneDocumentPath } from './loader.ts';
+export { sceneFromDocument, loadSceneDocument } from './document_scene.ts';
@@ -0,0 +1,51 @@
+/**
+ * Reading scene documents from JSON or YAML text and files.
+ */
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { SceneDocumentError, validateSceneDocument, type SceneDocument } from './document.ts';
+
+export type SceneDocumentFormat = 'json' | 'yaml';
+
+/** File extensions read as scene documents, and their formats. */
+export const SCENE_DOCUMENT_EXTENSIONS: Readonly<Record<string, SceneDocumentFormat>> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+};
+
+/** Whether a path names a scene document (by extension) rather than a scene module. */
+export function isSceneDocumentPath(path: string): boolean {
+  return extname(path).toLowerCase() in SCENE_DOCUMENT_EXTENSIONS;
+}
+
+/**
+ * Parse and check scene document text of a known format.
+ * @param source - File name used in error messages
+ * @throws SceneDocumentError on malformed text or an invalid document
+ */
+export function parseSceneDocument(text: string, format: SceneDocumentFormat, source?: string): SceneDocument {
+  let json: unknown;
+  try {
+    json = format === 'yaml' ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch (err) {
+    throw new SceneDocumentError(`Invalid ${format.toUpperCase()}: ${(err as Error).message}`, source, undefined, err as Error);
+  }
+  return validateSceneDocument(json, source);
+}
+
+/**
+ * Read a .json, .yaml or .yml scene document.
+ * @throws SceneDocumentError when the file cannot be read or holds an invalid document
+ */
+export async function readSceneDocument(path: string): Promise<SceneDocument> {
+  const format = SCENE_DOCUMENT_EXTENSIONS[extname(path).toLowerCase()];
+  if (!format) throw new SceneDocumentError('Unknown scene document format; use a .json, .yaml or .yml file', path);
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    throw new SceneDocumentError(`Cannot read file: ${(err as Error).message}`, path, undefined, err as Error);
+  }
+  return parseSceneDocument(text, format, path);
+}
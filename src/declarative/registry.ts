@@ -0,0 +1,187 @@
+/**
+ * Object types and animations available to scene documents, by the names
+ * documents use for them. Each entry reads its fields through SpecFields,
+ * so a document gets an error naming any field it misspells.
+ */
+import { resolve } from 'node:path';
+import type { Mobject } from '../core/mobject.ts';
+import { VMobject } from '../core/vmobject.ts';
+import type { Animation } from '../animation/base/animation.ts';
+import { FadeIn, FadeOut } from '../animation/transforms/fade.ts';
+import { Create, Uncreate, Write } from '../animation/transforms/create.ts';
+import { MoveBy, MoveTo } from '../animation/transforms/move.ts';
+import { RotateBy, RotateTo } from '../animation/transforms/rotate.ts';
+import { ScaleBy, ScaleTo } from '../animation/transforms/scale.ts';
+import { OpacityTo } from '../animation/transforms/opacity.ts';
+import { FillColorTo, StrokeColorTo, StrokeWidthTo } from '../animation/transforms/style.ts';
+import { ReplacementTransform, Transform } from '../animation/transforms/transform.ts';
+import { ChangeData, ChangeValue, CountTo } from '../animation/transforms/value.ts';
+import { Annulus, Arc, Arrow, Circle, Line, Polygon, Rectangle, Sector } from '../shapes/index.ts';
+import { Text } from '../text/text.ts';
+import { DecimalNumber, Integer, type DecimalNumberOptions } from '../text/decimal_number.ts';
+import { MathTex, Tex } from '../tex/tex.ts';
+import { SVGMobject } from '../svg/svg_mobject.ts';
+import { BarChart, LineChart, PieChart } from '../charts/index.ts';
+import type { FontWeight } from '../font/font_scanner.ts';
+import type { SpecFields } from './fields.ts';
+
+/** What object builders may need besides their fields. */
+export interface BuildContext {
+  /** Directory relative file paths resolve against */
+  readonly baseDir: string;
+}
+
+export interface ObjectType {
+  /**
+   * Whether the common style fields (color, fill, stroke, strokeWidth,
+   * fillOpacity, strokeOpacity) apply; charts style their parts through
+   * their own fields instead
+   */
+  readonly styled: boolean;
+  build(f: SpecFields, id: string, context: BuildContext): Mobject | Promise<Mobject>;
+}
+
+export interface AnimationType {
+  /**
+   * @param objects - Every object of the document by id, for animations
+   *   that refer to a second object
+   */
+  build(target: Mobject, f: SpecFields, objects: ReadonlyMap<string, Mobject>): Animation;
+}
+
+const shape = (build: ObjectType['build']): ObjectType => ({ styled: true, build });
+const chart = (build: ObjectType['build']): ObjectType => ({ styled: false, build });
+
+function decimalOptions(f: SpecFields): DecimalNumberOptions {
+  return {
+    thousandsSeparator: f.string('thousandsSeparator'),
+    decimalSeparator: f.string('decimalSeparator'),
+    unit: f.string('unit'),
+    showSign: f.boolean('showSign'),
+    fontSize: f.number('fontSize'),
+    anchor: f.oneOf('anchor', ['left', 'center', 'right'] as const),
+  };
+}
+
+/** Object types by document name. */
+export const OBJECT_TYPES: ReadonlyMap<string, ObjectType> = new Map<string, ObjectType>([
+  ['Circle', shape((f, id) => new Circle(f.number('radius'), id))],
+  ['Rectangle', shape((f, id) => new Rectangle(f.number('width'), f.number('height'), id))],
+  ['Line', shape((f, id) => new Line(f.point('from'), f.point('to'), id))],
+  ['Arrow', shape((f, id) => new Arrow(f.point('from'), f.point('to'), f.number('headLength'), f.number('headWidth'), id))],
+  ['Arc', shape((f, id) => new Arc(f.number('radius'), f.angle('start'), f.angle('end'), false, id))],
+  ['Annulus', shape((f, id) => new Annulus(f.number('outerRadius'), f.number('innerRadius'), id))],
+  ['Sector', shape((f, id) => new Sector(f.number('outerRadius'), f.angle('start'), f.angle('end'), f.number('innerRadius'), id))],
+  ['Polygon', shape((f, id) => new Polygon(f.required('points', f.points), f.boolean('closed'), id))],
+  ['Text', shape((f, id) => new Text(f.required('text', f.string), {
+    font: f.string('font'),
+    weight: f.field('weight', "'normal', 'bold' or a number", (v): v is FontWeight => v === 'normal' || v === 'bold' || typeof v === 'number'),
+    style: f.oneOf('style', ['normal', 'italic', 'oblique'] as const),
+    fontSize: f.number('fontSize'),
+    maxWidth: f.number('maxWidth'),
+    align: f.oneOf('align', ['left', 'center', 'right', 'justify'] as const),
+    lineHeight: f.number('lineHeight'),
+  }, id))],
+  ['DecimalNumber', shape((f, id) => new DecimalNumber(f.number('value'), { ...decimalOptions(f), decimals: f.number('decimals') }, id))],
+  ['Integer', shape((f, id) => new Integer(f.number('value'), decimalOptions(f), id))],
+  ['MathTex', shape((f) => MathTex.create(f.required('tex', f.string), { fontSize: f.number('fontSize') }))],
+  ['Tex', shape((f) => Tex.create(f.required('tex', f.string), { fontSize: f.number('fontSize') }))],
+  ['SVG', shape((f, _id, context) => new SVGMobject(resolve(context.baseDir, f.required('file', f.string)), {
+    width: f.number('width'),
+    height: f.number('height'),
+  }))],
+  ['BarChart', chart((f, id) => new BarChart(f.required('values', f.numbers), {
+    labels: f.strings('labels'),
+    yRange: f.range('yRange'),
+    width: f.number('width'),
+    height: f.number('height'),
+    barWidth: f.number('barWidth'),
+    colors: f.strings('colors'),
+    showValues: f.boolean('showValues'),
+    decimals: f.number('decimals'),
+    fontSize: f.number('fontSize'),
+    color: f.string('color'),
+    legend: f.boolean('legend'),
+  }, id))],
+  ['LineChart', chart((f, id) => {
+    const values = f.required('values', f.data);
+    const names = f.strings('names');
+    // Nested lists are one series each, named by `names`
+    const data = values.length > 0 && Array.isArray(values[0])
+      ? (values as number[][]).map((v, k) => ({ values: v, name: names?.[k] }))
+      : (values as number[]);
+    return new LineChart(data, {
+      labels: f.strings('labels'),
+      yRange: f.range('yRange'),
+      width: f.number('width'),
+      height: f.number('height'),
+      colors: f.strings('colors'),
+      strokeWidth: f.number('strokeWidth'),
+      dotRadius: f.number('dotRadius'),
+      decimals: f.number('decimals'),
+      fontSize: f.number('fontSize'),
+      color: f.string('color'),
+      legend: f.boolean('legend'),
+    }, id);
+  })],
+  ['PieChart', chart((f, id) => new PieChart(f.required('values', f.numbers), {
+    labels: f.strings('labels'),
+    radius: f.number('radius'),
+    innerRadius: f.number('innerRadius'),
+    colors: f.strings('colors'),
+    startAngle: f.angle('startAngle'),
+    clockwise: f.boolean('clockwise'),
+    showPercentages: f.boolean('showPercentages'),
+    decimals: f.number('decimals'),
+    fontSize: f.number('fontSize'),
+    color: f.string('color'),
+    legend: f.boolean('legend'),
+  }, id))],
+]);
+
+/** The target as a vector mobject, for animations that trace or morph outlines. */
+function vector(target: Mobject, f: SpecFields, animation: string): VMobject {
+  if (!(target instanceof VMobject)) throw f.error('target', `${animation} needs a shape, text or group`);
+  return target;
+}
+
+function numberTarget(target: Mobject, f: SpecFields, animation: string): DecimalNumber {
+  if (!(target instanceof DecimalNumber)) throw f.error('target', `${animation} needs a DecimalNumber or Integer`);
+  return target;
+}
+
+function other(f: SpecFields, key: string, objects: ReadonlyMap<string, Mobject>): Mobject {
+  const id = f.required(key, f.string);
+  const obj = objects.get(id);
+  if (!obj) throw f.error(key, `no object "${id}"`);
+  return obj;
+}
+
+/** Animations by document name. */
+export const ANIMATIONS: ReadonlyMap<string, AnimationType> = new Map<string, AnimationType>([
+  ['FadeIn', { build: (t) => new FadeIn(t) }],
+  ['FadeOut', { build: (t) => new FadeOut(t) }],
+  ['Create', { build: (t, f) => new Create(vector(t, f, 'Create')) }],
+  ['Uncreate', { build: (t, f) => new Uncreate(vector(t, f, 'Uncreate')) }],
+  ['Write', { build: (t, f) => new Write(vector(t, f, 'Write')) }],
+  ['MoveTo', { build: (t, f) => new MoveTo(t, f.required('to', f.point)) }],
+  ['MoveBy', { build: (t, f) => new MoveBy(t, f.required('by', f.point)) }],
+  ['RotateTo', { build: (t, f) => new RotateTo(t, f.required('angle', f.angle)) }],
+  ['RotateBy', { build: (t, f) => new RotateBy(t, f.required('angle', f.angle)) }],
+  ['ScaleTo', { build: (t, f) => new ScaleTo(t, f.required('scale', f.factors)) }],
+  ['ScaleBy', { build: (t, f) => new ScaleBy(t, f.required('factor', f.factors)) }],
+  ['OpacityTo', { build: (t, f) => new OpacityTo(t, f.required('opacity', f.number)) }],
+  ['FillColorTo', { build: (t, f) => new FillColorTo(t, f.required('color', f.string)) }],
+  ['StrokeColorTo', { build: (t, f) => new StrokeColorTo(t, f.required('color', f.string)) }],
+  ['StrokeWidthTo', { build: (t, f) => new StrokeWidthTo(t, f.required('width', f.number)) }],
+  ['Transform', { build: (t, f, objects) => new Transform(vector(t, f, 'Transform'), other(f, 'into', objects)) }],
+  ['ReplacementTransform', { build: (t, f, objects) => new ReplacementTransform(vector(t, f, 'ReplacementTransform'), other(f, 'into', objects)) }],
+  ['ChangeValue', { build: (t, f) => new ChangeValue(numberTarget(t, f, 'ChangeValue'), f.required('value', f.number)) }],
+  ['CountTo', { build: (t, f) => new CountTo(numberTarget(t, f, 'CountTo'), f.required('value', f.number), f.number('from')) }],
+  ['ChangeData', {
+    build: (t, f) => {
+      if (!(t instanceof BarChart || t instanceof LineChart || t instanceof PieChart)) throw f.error('target', 'ChangeData needs a chart');
+      return new ChangeData(t, f.required('values', f.data));
+    },
+  }],
+]);
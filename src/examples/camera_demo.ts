@@ -0,0 +1,35 @@
+/**
+ * Camera demo: panning, zooming and rotating the view.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/camera_demo.ts CameraDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Circle } from '../shapes/circle.ts';
+import { Rectangle } from '../shapes/rectangle.ts';
+import { Text } from '../text/text.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class CameraDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const box = new Rectangle(300, 180).fill(null).stroke('#ffffff').setStrokeWidth(3);
+    const left = new Circle(30).setColor('#1e90ff').setPosition(-90, 20);
+    const right = new Circle(30).setColor('#ff4081').setPosition(90, 20);
+    const label = new Text('detail', { fontSize: 14 }).setColor('#ffd54f').setPosition(90, -30);
+
+    this.add(box, left, right, label);
+    await this.wait(0.5);
+    await this.play(this.camera.focusOn(right, 1.5).setZoom(3).setEasing('easeInOut'));
+    await this.wait(0.5);
+    await this.play(this.camera.rotateTo(Math.PI / 8, 1), this.camera.zoomTo(1.5, 1));
+    await this.play(this.camera.moveTo([0, 0], 1).setEasing('easeInOut'), this.camera.rotateTo(0, 1), this.camera.zoomTo(1, 1));
+    await this.wait(0.5);
+  }
+}
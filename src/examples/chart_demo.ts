@@ -0,0 +1,54 @@
+/**
+ * Chart demo: a bar chart, a two-series line chart and a donut chart
+ * morphing to a second set of numbers.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/chart_demo.ts ChartDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { BarChart } from '../charts/bar_chart.ts';
+import { LineChart } from '../charts/line_chart.ts';
+import { PieChart } from '../charts/pie_chart.ts';
+
+export const config: SceneConfig = {
+  width: 1280,
+  height: 720,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class ChartDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const days = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+    const bars = new BarChart([12, 30, 21, 8, 17], {
+      labels: days,
+      yRange: [0, 40, 10],
+      width: 480,
+      height: 220,
+      showValues: true,
+      fontSize: 18,
+    }).setPosition(-330, 170);
+
+    const lines = new LineChart([
+      { name: 'Visits', values: [3, 5, 4, 7, 6] },
+      { name: 'Signups', values: [1, 2, 2, 3, 5] },
+    ], { labels: days, yRange: [0, 10, 2], width: 480, height: 220, fontSize: 18 }).setPosition(-330, -170);
+
+    const pie = new PieChart([45, 30, 25], {
+      labels: ['Rent', 'Food', 'Other'],
+      radius: 170,
+      innerRadius: 80,
+      fontSize: 22,
+    }).setPosition(300, 0);
+
+    this.add(bars, lines, pie);
+    await this.wait(0.5);
+    await this.play(
+      bars.changeData([25, 14, 33, 19, 6], 1.5),
+      lines.changeData([[4, 6, 8, 7, 9], [2, 3, 5, 4, 6]], 1.5),
+      pie.changeData([20, 35, 45], 1.5),
+    );
+    await this.wait(0.5);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Counter demo: a percentage counting up and a revenue figure changing value.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/counter_demo.ts CounterDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Text } from '../text/text.ts';
+import { DecimalNumber, Integer } from '../text/decimal_number.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class CounterDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const label = new Text('Completion', { fontSize: 28 }).setPosition(-140, 60);
+    const percent = new DecimalNumber(0, { fontSize: 56, decimals: 1, unit: '%', anchor: 'right' }).setPosition(260, 45);
+    const revenue = new Integer(950, { fontSize: 40, thousandsSeparator: ',', unit: ' USD' })
+      .setColor('#ffd54f')
+      .setPosition(-240, -80);
+
+    this.add(label, percent, revenue);
+    await this.play(percent.countTo(87.5, 2).setEasing('easeInOut'), revenue.changeValue(1_284_000, 2));
+    await this.wait(0.5);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Create / Write demo: progressive stroke drawing.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/create_demo.ts CreateDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Circle } from '../shapes/circle.ts';
+import { Arrow } from '../shapes/arrow.ts';
+import { Text } from '../text/text.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class CreateDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const title = new Text('Write me', { fontSize: 96 }).setColor('#ffffff').setPosition(0, 80);
+    const ring = new Circle(70).fill(null).stroke('#1e90ff').setStrokeWidth(6).setPosition(-150, -100);
+    const arrow = new Arrow([-60, -100], [120, -100]).setColor('#ffd54f').setStrokeWidth(4);
+
+    this.add(title, ring, arrow);
+    await this.play(title.write(2), ring.create(1.5), arrow.create(1.5).setEasing('easeInOut'));
+    await this.wait(0.5);
+    await this.play(ring.uncreate(1), arrow.uncreate(1));
+    await this.wait(0.5);
+  }
+}
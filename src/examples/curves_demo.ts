@@ -0,0 +1,43 @@
+/**
+ * Curves demo: a filled Lissajous figure and a spiral drawn progressively,
+ * and level curves of a function on axes, traced with marching squares.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/curves_demo.ts CurvesDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Axes } from '../graphing/axes.ts';
+import { ParametricFunction } from '../graphing/parametric_function.ts';
+
+export const config: SceneConfig = {
+  width: 960,
+  height: 540,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class CurvesDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const lissajous = new ParametricFunction((t) => [130 * Math.sin(3 * t), 130 * Math.sin(2 * t)], [0, 2 * Math.PI])
+      .stroke('#ffd54f')
+      .setStrokeWidth(3)
+      .fill('#101010') // Background color until it is filled in
+      .setPosition(-290, 80);
+    const spiral = new ParametricFunction((t) => [6 * t * Math.cos(t), 6 * t * Math.sin(t)], [0, 8 * Math.PI])
+      .stroke('#69f0ae')
+      .setStrokeWidth(2)
+      .setPosition(-290, -150);
+    spiral.setScale(0.6, 0.6);
+
+    const axes = new Axes({ xRange: [-3, 3], yRange: [-3, 3], xLength: 420, yLength: 420 }).setPosition(230, 0);
+    const levels = [-0.8, -0.4, 0.4, 0.8].map((c) =>
+      axes.plotImplicit((x, y) => Math.sin(x) * Math.cos(y) - c, { color: c < 0 ? '#1e90ff' : '#ff5252', strokeWidth: 2 }),
+    );
+
+    this.add(axes, lissajous, spiral, ...levels);
+    await this.play(lissajous.create(2), spiral.create(2), ...levels.map((l) => l.create(2)));
+    await this.play(lissajous.fillColorTo('#6b5a20', 0.5));
+    await this.wait(0.5);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Data demo: a bar chart of monthly revenue read from a CSV file, so the
+ * same scene renders any year's numbers.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/data_demo.ts RevenueChart -s -o out
+ *   bun run src/cli/cli.ts src/examples/data_demo.ts RevenueChart -s -o out --data sales=src/examples/data/sales_2025.csv
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { BarChart } from '../charts/bar_chart.ts';
+import { Text } from '../text/text.ts';
+
+export const config: SceneConfig = {
+  width: 960,
+  height: 540,
+  backgroundColor: '#101010',
+  fps: 30,
+  // Default dataset; --data sales=other.csv replaces it
+  data: { sales: 'src/examples/data/sales.csv' },
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export class RevenueChart extends Scene {
+  public override async construct(): Promise<void> {
+    const table = (await this.loadData('sales')).dropMissing('month', 'revenue');
+    const months = table.dates('month').map((d) => MONTHS[d!.getUTCMonth()]!);
+    const revenue = table.numbers('revenue').map((v) => v! / 1000);
+    const year = table.dates('month')[0]!.getUTCFullYear();
+
+    const chart = new BarChart(revenue.map(() => 0), {
+      labels: months,
+      yRange: [0, 30, 5],
+      width: 720,
+      height: 340,
+      showValues: true,
+      decimals: 1,
+    }).setPosition(0, -30);
+    const title = new Text(`Revenue ${year} (thousands)`, { fontSize: 30 }).setColor('#ffffff').setPosition(0, 215);
+    title.setStrokeWidth(0);
+
+    this.add(chart, title);
+    await this.play(chart.changeData(revenue, 1.5));
+    await this.wait(0.5);
+  }
+}
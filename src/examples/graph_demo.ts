@@ -0,0 +1,55 @@
+/**
+ * Graph demo: labeled axes with a plotted sine curve, its shaded area and
+ * a label; and curves on a number plane.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/graph_demo.ts GraphDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Circle } from '../shapes/circle.ts';
+import { Axes } from '../graphing/axes.ts';
+import { NumberPlane } from '../graphing/number_plane.ts';
+
+export const config: SceneConfig = {
+  width: 960,
+  height: 540,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class GraphDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const axes = new Axes({
+      xRange: [-4, 4, 1],
+      yRange: [-2, 2, 0.5],
+      xLength: 800,
+      yLength: 400,
+      includeNumbers: true,
+      yAxis: { fontSize: 16 },
+    });
+    const sine = axes.plot((x) => 1.5 * Math.sin(x), undefined, { color: '#ffd54f' });
+    const area = axes.getArea(sine, [0, Math.PI], { color: '#1e90ff', opacity: 0.4 });
+    const label = axes.getGraphLabel(sine, 'y = 1.5 sin x', { x: -Math.PI / 2, direction: [0, -1] });
+    const peak = new Circle(6).setColor('#ff5252').positionTo(axes.c2p(Math.PI / 2, 1.5));
+
+    this.add(axes, sine);
+    await this.play(sine.create(1.5));
+    this.add(area, label);
+    this.sendToBack(area);
+    await this.play(area.fadeIn(0.5), label.write(0.5));
+    this.add(peak);
+    await this.wait(0.5);
+  }
+}
+
+/** Tangent and 1/x on a number plane: the curves break at their poles. */
+export class PlaneDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const plane = new NumberPlane({ xRange: [-5, 5], yRange: [-3, 3], xLength: 900, yLength: 540, includeNumbers: true });
+    const hyperbola = plane.plot((x) => 1 / x, [-5, 5], { color: '#ff5252' });
+    const parabola = plane.plot((x) => x * x / 4 - 2, [-4.5, 4.5], { color: '#69f0ae' });
+    this.add(plane, hyperbola, parabola);
+    await this.play(hyperbola.create(1), parabola.create(1));
+  }
+}
@@ -41,6 +41,7 @@ export class HelloWorld extends Scene {
 
     // Fade in, then move
     await this.play(title.fadeIn(3), circle.fadeIn(1));
+    await this.wait(0.5);
     await this.play(circle.moveTo([150, 90]).setEasing('easeInOut').setDuration(2.0));
 
     //or use
@@ -0,0 +1,39 @@
+/**
+ * Markup demo: keywords highlighted inside sentences with colors, sizes and bold.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/markup_demo.ts MarkupDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Text } from '../text/text.ts';
+import { MarkupText } from '../text/markup_text.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class MarkupDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const law = new MarkupText(
+      'In a closed system, <b><color=#ffd54f>energy</color></b> is <size=44>conserved</size>.\n' +
+        'It changes form &amp; <color=#1e90ff>never</color> disappears.',
+      { fontSize: 30, align: 'center' },
+    ).setPosition(0, 60);
+    const note = new Text('Every mention of energy in this sentence is highlighted: energy, energy.', {
+      fontSize: 22,
+      maxWidth: 520,
+      align: 'center',
+    }).setPosition(0, -100);
+
+    this.add(law);
+    await this.play(law.write(2));
+    this.add(note);
+    await this.play(note.fadeIn(0.5));
+    note.setStyle('energy', { color: '#ff7043', weight: 'bold' });
+    await this.wait(1);
+  }
+}
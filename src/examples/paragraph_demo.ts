@@ -0,0 +1,36 @@
+/**
+ * Paragraph demo: wrapped, aligned multi-line text written line by line.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/paragraph_demo.ts ParagraphDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Text } from '../text/text.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+const LOREM =
+  'Vector text is laid out once and then animated glyph by glyph. ' +
+  'Long captions wrap at spaces to a maximum width, and every character remembers its line.';
+
+export class ParagraphDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const title = new Text('Multi-line text\nwith alignment', { fontSize: 36, align: 'center' }).setPosition(0, 140);
+    const body = new Text(LOREM, { fontSize: 24, maxWidth: 560, align: 'justify', lineHeight: 1.3 }).setPosition(0, -20);
+
+    this.add(title, body);
+    await this.play(title.write(1));
+    await this.play(body.write(2));
+    await this.wait(1);
+    await this.play(body.fadeOut(0.5));
+    body.setAlign('right').setMaxWidth(360);
+    await this.play(body.fadeIn(0.5));
+    await this.wait(1);
+  }
+}
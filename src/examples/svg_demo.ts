@@ -0,0 +1,38 @@
+/**
+ * SVG demo: an icon imported from markup, drawn part by part and restyled.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/svg_demo.ts SVGDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { SVGMobject } from '../svg/svg_mobject.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+const HOUSE = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 100">
+  <polygon id="roof" points="10,45 60,5 110,45" fill="#e5533d" stroke="#ffffff" stroke-width="3"/>
+  <g transform="translate(20 45)" stroke="#ffffff" stroke-width="3">
+    <rect id="wall" width="80" height="50" fill="#f2e8cf"/>
+    <rect id="door" x="32" y="20" width="16" height="30" rx="3" fill="#6d4c41"/>
+    <circle id="window" cx="17" cy="18" r="8" fill="#4fc3f7"/>
+    <path id="smoke" d="M58 -35 c5 -8 -5 -12 0 -20 s-5 -12 0 -20" fill="none" stroke-opacity="0.6"/>
+  </g>
+</svg>`;
+
+export class SVGDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const house = new SVGMobject(HOUSE, { height: 300 });
+    this.add(house);
+    await this.play(house.write(2));
+    await this.wait(0.5);
+    await this.play(house.getById('window')!.fillColorTo('#ffd54f', 0.5), house.getById('roof')!.rotateTo(0.1, 0.5));
+    await this.play(house.scaleTo([0.6, 0.6], 1).setEasing('easeInOut'));
+    await this.wait(1);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * LaTeX demo: formulas written glyph by glyph, with parts styled separately.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/tex_demo.ts TexDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { MathTex, Tex } from '../tex/tex.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class TexDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const title = (await Tex.create('Euler\'s identity', { fontSize: 40 })).setPosition(0, 140);
+    const euler = (await MathTex.create(['e^{i\\pi}', '+', '1', '=', '0'], { fontSize: 96 })).setPosition(0, 30);
+    euler.getPartByTex('e^{i\\pi}')!.setColor('#ffd54f');
+    euler.getPartByTex('0')!.setColor('#1e90ff');
+    const series = (await MathTex.create('\\sum_{n=1}^{\\infty} \\frac{1}{n^2} = \\frac{\\pi^2}{6}', { fontSize: 56 })).setPosition(0, -140);
+
+    this.add(title, euler);
+    await this.play(title.write(1), euler.write(2));
+    await this.wait(0.5);
+    await this.play(euler.get(4)!.scaleTo([1.6, 1.6], 0.6).setEasing('easeInOut'));
+    this.add(series);
+    await this.play(series.create(1.5));
+    await this.wait(1);
+  }
+}
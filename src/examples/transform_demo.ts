@@ -0,0 +1,40 @@
+/**
+ * Transform demo: morphing between shapes and glyphs.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/transform_demo.ts TransformDemo -s -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Circle } from '../shapes/circle.ts';
+import { Rectangle } from '../shapes/rectangle.ts';
+import { Polygon } from '../shapes/polygon.ts';
+import { Text } from '../text/text.ts';
+import { ReplacementTransform } from '../animation/transforms/transform.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class TransformDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const shape = new Circle(80).setColor('#1e90ff').setPosition(-180, 0);
+    const square = new Rectangle(160, 160).setColor('#ff4081').setPosition(-180, 0);
+    const star = new Polygon([
+      [0, 90], [25, 30], [90, 25], [40, -15], [55, -85], [0, -45], [-55, -85], [-40, -15], [-90, 25], [-25, 30],
+    ]).setColor('#ffd54f').setPosition(-180, 0);
+
+    const letter = new Text('A', { fontSize: 200 }).setColor('#00ff88').setPosition(180, 0);
+    const nextLetter = new Text('B', { fontSize: 200 }).setColor('#ffffff').setPosition(180, 0);
+
+    this.add(shape, letter);
+    await this.wait(0.5);
+    await this.play(shape.transformTo(square, 1).setEasing('easeInOut'));
+    await this.play(shape.transformTo(star, 1).setEasing('easeInOut'));
+    await this.play(new ReplacementTransform(letter, nextLetter).setDuration(1.5).setEasing('easeInOut'));
+    await this.wait(0.5);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Updater demo: a label follows a moving dot and an arrow stays attached
+ * between two circles while a ValueTracker swings one of them around.
+ *
+ * Run:
+ *   bun run src/cli/cli.ts src/examples/updater_demo.ts UpdaterDemo -f mp4 -o out
+ */
+import type { SceneConfig } from '../core/types.ts';
+import { Scene } from '../scene/scene.ts';
+import { Circle } from '../shapes/circle.ts';
+import { Arrow } from '../shapes/arrow.ts';
+import { Text } from '../text/text.ts';
+import { DecimalNumber } from '../text/decimal_number.ts';
+import { ValueTracker } from '../core/value_tracker.ts';
+
+export const config: SceneConfig = {
+  width: 800,
+  height: 450,
+  backgroundColor: '#101010',
+  fps: 30,
+};
+
+export class UpdaterDemo extends Scene {
+  public override async construct(): Promise<void> {
+    const hub = new Circle(30).setColor('#1e90ff').setPosition(-150, 0);
+    const angle = new ValueTracker(0);
+    const moon = new Circle(20)
+      .setColor('#ffd54f')
+      .addUpdater((m) => {
+        const a = angle.getValue();
+        m.setPosition(hub.position[0]! + 180 * Math.cos(a), hub.position[1]! + 120 * Math.sin(a));
+      }, true);
+
+    // Arrow from the hub's edge to the moon's edge, recomputed every frame
+    const link = new Arrow().setColor('#ffffff').addUpdater((a) => {
+      const [x1, y1] = hub.position;
+      const [x2, y2] = moon.position;
+      const d = Math.hypot(x2! - x1!, y2! - y1!) || 1;
+      const ux = (x2! - x1!) / d;
+      const uy = (y2! - y1!) / d;
+      a.setEndpoints(x1! + ux * 34, y1! + uy * 34, x2! - ux * 24, y2! - uy * 24);
+    }, true);
+
+    const label = new Text('moon', { fontSize: 22 }).addUpdater((t) => t.setPosition(moon.position[0]! + 60, moon.position[1]!), true);
+    const readout = new DecimalNumber(0, { fontSize: 26, decimals: 2, unit: ' rad' })
+      .setPosition(-360, 180)
+      .addUpdater((n) => n.setValue(angle.getValue()));
+
+    this.add(hub, moon, link, label, readout);
+    await this.play(angle.changeValue(1.5 * Math.PI, 3).setEasing('easeInOut'));
+    // Updaters also run while waiting: let the hub drift
+    hub.addUpdater((h, dt) => h.translate(40 * dt, 0));
+    await this.wait(1);
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * System font discovery: finds the font file for a family name, weight and
+ * style so scenes can ask for "DejaVu Sans" instead of a machine-specific path.
+ *
+ * The font directories of the current platform are scanned once, on the first
+ * lookup, reading each file's name and OS/2 tables with fontkit. Lookups are
+ * cached. Of a font collection (.ttc), only the first face is indexed, since
+ * that is the one FontLoader opens.
+ */
+import * as fontkit from 'fontkit';
+import type { Font } from 'fontkit';
+import { readdirSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { extname, join } from 'path';
+import { FontError } from './glyph_path_extractor.ts';
+
+/** CSS-style weight: 100 (thin) to 900 (black); 'normal' is 400 and 'bold' 700 */
+export type FontWeight = number | 'normal' | 'bold';
+
+export type FontStyle = 'normal' | 'italic' | 'oblique';
+
+export interface FontQuery {
+  /** Family name, matched ignoring case, spaces, hyphens and underscores */
+  family: string;
+  /** Desired weight (default: 'normal') */
+  weight?: FontWeight;
+  /** Desired style (default: 'normal') */
+  style?: FontStyle;
+}
+
+/** An installed font face */
+export interface FontFace {
+  readonly path: string;
+  readonly family: string;
+  readonly subfamily: string;
+  readonly postscriptName: string;
+  /** Numeric weight from the OS/2 table */
+  readonly weight: number;
+  readonly style: FontStyle;
+}
+
+const FONT_EXTENSIONS = new Set(['.ttf', '.otf', '.ttc']);
+
+/** Styles to try, best first, when the requested one is not installed */
+const STYLE_ORDER: Record<FontStyle, FontStyle[]> = {
+  normal: ['normal', 'oblique', 'italic'],
+  italic: ['italic', 'oblique', 'normal'],
+  oblique: ['oblique', 'italic', 'normal'],
+};
+
+/** Whether a font specification is a file path rather than a family name */
+export function isFontPath(font: string): boolean {
+  return font.includes('.') || font.includes('/') || font.includes('\\');
+}
+
+/** Numeric value of a weight; throws on values outside 1..1000. */
+export function weightValue(weight: FontWeight = 'normal'): number {
+  const value = weight === 'normal' ? 400 : weight === 'bold' ? 700 : weight;
+  if (!(value >= 1 && value <= 1000)) {
+    throw new FontError(`Font weight must be 'normal', 'bold' or a number from 1 to 1000, got: ${weight}`);
+  }
+  return value;
+}
+
+/** Directories fonts are installed in on this platform. */
+export function systemFontDirs(): string[] {
+  const home = homedir();
+  switch (process.platform) {
+    case 'darwin':
+      return ['/System/Library/Fonts', '/Library/Fonts', join(home, 'Library/Fonts')];
+    case 'win32': {
+      const windir = process.env['WINDIR'] ?? 'C:\\Windows';
+      const local = process.env['LOCALAPPDATA'];
+      return [join(windir, 'Fonts'), ...(local ? [join(local, 'Microsoft\\Windows\\Fonts')] : [])];
+    }
+    default:
+      return ['/usr/share/fonts', '/usr/local/share/fonts', join(home, '.fonts'), join(home, '.local/share/fonts')];
+  }
+}
+
+function normalizeFamily(family: string): string {
+  return family.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/** Edit distance between two strings. */
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+/**
+ * CSS font matching order for weights: for 400-500 first up to 500, then
+ * down, then up; below 400 down first; above 500 up first.
+ */
+function weightRank(weight: number, target: number): number {
+  const up = weight >= target;
+  const distance = Math.abs(weight - target);
+  if (target >= 400 && target <= 500) {
+    if (up && weight <= 500) return distance;
+    return (up ? 2000 : 1000) + distance;
+  }
+  const preferred = target < 400 ? !up : up;
+  return (preferred ? 0 : 1000) + distance;
+}
+
+function faceStyle(font: Font): FontStyle {
+  const selection = font['OS/2']?.fsSelection;
+  if (selection?.oblique) return 'oblique';
+  if (selection?.italic || font.italicAngle !== 0) {
+    return /oblique/i.test(font.subfamilyName ?? '') ? 'oblique' : 'italic';
+  }
+  return 'normal';
+}
+
+/**
+ * Index of installed fonts. Use the shared instance for system fonts, or
+ * construct one over other directories (e.g. a project's fonts folder).
+ */
+export class FontScanner {
+  private static instance?: FontScanner;
+  private faces?: FontFace[];
+  private readonly lookups = new Map<string, FontFace>();
+
+  constructor(private readonly dirs: readonly string[] = systemFontDirs()) {}
+
+  /** Scanner over the platform's font directories, shared by all lookups. */
+  public static getInstance(): FontScanner {
+    if (!FontScanner.instance) {
+      FontScanner.instance = new FontScanner();
+    }
+    return FontScanner.instance;
+  }
+
+  /** Every font face found, scanning the directories on first use. */
+  public getFaces(): readonly FontFace[] {
+    if (!this.faces) {
+      this.faces = [];
+      for (const dir of this.dirs) this.scanDir(dir, this.faces);
+    }
+    return this.faces;
+  }
+
+  /** Installed family names, sorted. */
+  public getFamilies(): string[] {
+    return [...new Set(this.getFaces().map((f) => f.family))].sort();
+  }
+
+  /**
+   * Find the face of a family closest to the requested weight and style,
+   * following CSS font matching.
+   * @throws FontError listing similar family names when the family is not installed
+   */
+  public find(query: FontQuery): FontFace {
+    const weight = weightValue(query.weight);
+    const style = query.style ?? 'normal';
+    const key = `${normalizeFamily(query.family)}|${weight}|${style}`;
+    const cached = this.lookups.get(key);
+    if (cached) return cached;
+
+    const family = normalizeFamily(query.family);
+    const faces = this.getFaces().filter((f) => normalizeFamily(f.family) === family);
+    if (faces.length === 0) {
+      const matches = this.closeMatches(query.family);
+      const hint = matches.length > 0
+        ? ` Close matches: ${matches.map((m) => `"${m}"`).join(', ')}.`
+        : ` Searched: ${this.dirs.join(', ')}.`;
+      throw new FontError(`No installed font family "${query.family}".${hint}`, query.family, undefined, matches);
+    }
+
+    const inStyle = STYLE_ORDER[style].map((s) => faces.filter((f) => f.style === s)).find((list) => list.length > 0)!;
+    const best = inStyle.reduce((a, b) => (weightRank(b.weight, weight) < weightRank(a.weight, weight) ? b : a));
+    this.lookups.set(key, best);
+    return best;
+  }
+
+  /** Up to five installed families whose names resemble the given one. */
+  public closeMatches(family: string): string[] {
+    const wanted = normalizeFamily(family);
+    return this.getFamilies()
+      .map((name) => {
+        const norm = normalizeFamily(name);
+        const contains = norm.includes(wanted) || wanted.includes(norm);
+        return { name, score: contains ? 0 : levenshtein(norm, wanted) };
+      })
+      .filter((m) => m.score <= Math.max(2, Math.floor(wanted.length / 3)))
+      .sort((a, b) => a.score - b.score || a.name.localeCompare(b.name))
+      .slice(0, 5)
+      .map((m) => m.name);
+  }
+
+  private scanDir(dir: string, out: FontFace[]): void {
+    let entries: string[];
+    try {
+      entries = readdirSync(dir);
+    } catch {
+      return; // Missing or unreadable directories are normal
+    }
+    for (const entry of entries) {
+      const path = join(dir, entry);
+      let isDir: boolean;
+      try {
+        isDir = statSync(path).isDirectory();
+      } catch {
+        continue;
+      }
+      if (isDir) {
+        this.scanDir(path, out);
+      } else if (FONT_EXTENSIONS.has(extname(entry).toLowerCase())) {
+        const face = this.readFace(path);
+        if (face) out.push(face);
+      }
+    }
+  }
+
+  private readFace(path: string): FontFace | null {
+    try {
+      const opened = fontkit.openSync(path);
+      const font = 'fonts' in opened ? opened.fonts[0] : opened;
+      if (!font) return null;
+      return {
+        path,
+        family: font.getName('preferredFamily', 'en') ?? font.familyName,
+        subfamily: font.getName('preferredSubfamily', 'en') ?? font.subfamilyName,
+        postscriptName: font.postscriptName,
+        weight: font['OS/2']?.usWeightClass || 400,
+        style: faceStyle(font),
+      };
+    } catch {
+      return null; // Unreadable or unsupported files are skipped
+    }
+  }
+}
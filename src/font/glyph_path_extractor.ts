@@ -4,7 +4,7 @@
 
 import * as fontkit from 'fontkit';
 import type { SKRSContext2D } from '@napi-rs/canvas';
-import type { Font, FontCollection, GlyphRun, Glyph } from 'fontkit';
+import type { Font, FontCollection, Glyph, GlyphPosition } from 'fontkit';
 
 /** Configuration for font loading behavior */
 export interface FontLoadConfig {
@@ -38,16 +38,64 @@ export interface GlyphData {
   }>;
   readonly unicode?: number;
   readonly glyphId?: number;
+  /** Index of the line the glyph was laid out on (0 when absent) */
+  readonly line?: number;
+  /** Font the glyph was taken from, as the path or name it was requested by */
+  readonly font?: string;
+}
+
+/** Horizontal alignment of the lines of a multi-line text */
+export type TextAlign = 'left' | 'center' | 'right' | 'justify';
+
+/** Line breaking and alignment options for layoutText */
+export interface TextLayoutOptions {
+  /** Wrap lines at spaces so none is wider than this (scene units) */
+  maxWidth?: number;
+  /** Alignment of lines within the widest line (default: 'left') */
+  align?: TextAlign;
+  /** Factor on the font's natural line spacing (default: 1) */
+  lineHeight?: number;
+  /** Character ranges set in another font or size; later runs win where they overlap */
+  runs?: readonly FontRun[];
+  /** Fonts tried in order for characters missing from the font chosen for them */
+  fallbacks?: readonly string[];
+}
+
+/** A range of text set in its own font and size */
+export interface FontRun {
+  /** Index of the run's first character */
+  readonly start: number;
+  /** Index one past the run's last character */
+  readonly end: number;
+  readonly fontPath: string;
+  readonly fontSize: number;
+}
+
+/** One laid-out line; indices count glyphs, which follow the characters of the text */
+export interface LineLayout {
+  /** Index of the first glyph on the line */
+  readonly start: number;
+  /** Index one past the last glyph on the line, excluding a line-ending newline */
+  readonly end: number;
+  /** Width without trailing spaces */
+  readonly width: number;
+  /** Left edge of the line within the layout */
+  readonly x: number;
+  /** Baseline: 0 for the first line, negative below (y up) */
+  readonly baseline: number;
 }
 
 /** Text layout result with positioned glyphs */
 export interface TextLayout {
   readonly glyphs: readonly GlyphData[];
+  readonly lines: readonly LineLayout[];
   readonly totalWidth: number;
   readonly totalHeight: number;
   readonly baseline: number;
   readonly ascender: number;
   readonly descender: number;
+  /** Distance between consecutive baselines of lines set in the base font */
+  readonly lineHeight: number;
 }
 
 /** Font metrics for layout calculations */
@@ -76,7 +124,9 @@ export class FontError extends Error {
   constructor(
     message: string,
     public readonly fontPath?: string,
-    public override readonly cause?: Error
+    public override readonly cause?: Error,
+    /** Installed family names similar to a family that was not found */
+    public readonly suggestions: readonly string[] = []
   ) {
     super(message);
     this.name = 'FontError';
@@ -185,13 +235,46 @@ export class FontLoader {
    * Load font with proper error handling and fallback support
    */
   public loadFont(fontPath: string): Font {
+    return this.resolveFont(fontPath).font;
+  }
+
+  /**
+   * Load font like loadFont(), also reporting the path that was actually
+   * loaded (the fallback font's when the requested one fails)
+   */
+  public resolveFont(fontPath: string): { font: Font; path: string } {
+    try {
+      return { font: this.loadFontStrict(fontPath), path: fontPath };
+    } catch (error) {
+      return this.handleFontLoadError(fontPath, error);
+    }
+  }
+
+  /**
+   * Load font without falling back to another one
+   * @throws FontError if the font cannot be loaded
+   */
+  public loadFontStrict(fontPath: string): Font {
     // Check cache first if enabled
     if (this.config.enableCache) {
       const cached = this.cache.get(fontPath);
       if (cached) return cached;
     }
 
-    return this.loadFontInternal(fontPath);
+    try {
+      const fontData = fontkit.openSync(fontPath);
+      const font = this.extractFont(fontData, fontPath);
+      
+      if (this.config.enableCache) {
+        this.cache.set(fontPath, font);
+      }
+      
+      return font;
+    } catch (error) {
+      if (error instanceof FontError) throw error;
+      const err = error instanceof Error ? error : new Error(String(error));
+      throw new FontError(err.message, fontPath, err);
+    }
   }
 
   /**
@@ -216,21 +299,6 @@ export class FontLoader {
     this.cache.clear();
   }
 
-  private loadFontInternal(fontPath: string): Font {
-    try {
-      const fontData = fontkit.openSync(fontPath);
-      const font = this.extractFont(fontData, fontPath);
-      
-      if (this.config.enableCache) {
-        this.cache.set(fontPath, font);
-      }
-      
-      return font;
-    } catch (error) {
-      return this.handleFontLoadError(fontPath, error);
-    }
-  }
-
   private extractFont(fontData: Font | FontCollection, fontPath: string): Font {
     if ('fonts' in fontData) {
       const collection = fontData as FontCollection;
@@ -243,7 +311,7 @@ export class FontLoader {
     return fontData as Font;
   }
 
-  private handleFontLoadError(fontPath: string, error: unknown): Font {
+  private handleFontLoadError(fontPath: string, error: unknown): { font: Font; path: string } {
     const err = error instanceof Error ? error : new Error(String(error));
     
     // Don't retry fallback font to avoid infinite recursion
@@ -256,7 +324,7 @@ export class FontLoader {
     }
 
     console.warn(`Failed to load font "${fontPath}", using fallback: ${err.message}`);
-    return this.loadFontInternal(this.config.fallbackFontPath);
+    return this.resolveFont(this.config.fallbackFontPath);
   }
 }
 
@@ -264,31 +332,88 @@ export class FontLoader {
 // TEXT LAYOUT ENGINE
 // ============================================================================
 
+/** Font chosen for a character */
+interface CharFont {
+  readonly font: Font;
+  /** Path or name the font was requested by */
+  readonly path: string;
+  readonly size: number;
+  readonly scale: number;
+}
+
+/**
+ * One shaped glyph with the font it was set in. A null glyph stands for a
+ * character merged into the previous glyph (the second half of a surrogate
+ * pair, or a ligature), so glyphs keep following the characters of the text.
+ */
+interface ShapedGlyph {
+  readonly glyph: Glyph | null;
+  readonly position: GlyphPosition | null;
+  readonly char: CharFont;
+}
+
+/** A paragraph shaped run by run, with the pen position before each glyph */
+interface ShapedParagraph {
+  readonly glyphs: readonly ShapedGlyph[];
+  readonly pen: readonly number[];
+}
+
+/** Glyph range of a shaped paragraph that forms one line */
+interface PendingLine {
+  readonly para: ShapedParagraph;
+  readonly start: number;
+  readonly end: number;
+  /** Whether this line ends its paragraph */
+  last: boolean;
+}
+
+/** Vertical extent of a line, from the largest font on it */
+interface LineExtent {
+  ascent: number;
+  descent: number;
+  gap: number;
+}
+
+function isSpace(glyph: Glyph | null): boolean {
+  if (!glyph) return false;
+  const cps = glyph.codePoints;
+  return cps !== undefined && cps.length > 0 && cps.every((c) => c === 0x20 || c === 0x09 || c === 0x3000);
+}
+
 export class TextLayoutEngine {
   private fontLoader: FontLoader;
+  /** Fallback fonts already reported as unloadable */
+  private readonly missingFallbacks = new Set<string>();
 
   constructor(fontLoader?: FontLoader) {
     this.fontLoader = fontLoader ?? new FontLoader();
   }
 
   /**
-   * Layout text using fontkit's proper text shaping engine
+   * Layout text using fontkit's proper text shaping engine.
+   * Each `\n` starts a new line and yields an empty glyph, so glyphs keep
+   * following the characters of the text.
    */
-  public layoutText(fontPath: string, text: string, fontSize: number): TextLayout {
+  public layoutText(fontPath: string, text: string, fontSize: number, options: TextLayoutOptions = {}): TextLayout {
     if (fontSize <= 0) {
       throw new TextLayoutError('Font size must be positive', text, fontPath);
     }
+    if (options.maxWidth !== undefined && !(options.maxWidth > 0)) {
+      throw new TextLayoutError(`Maximum width must be positive, got: ${options.maxWidth}`, text, fontPath);
+    }
+    if (options.lineHeight !== undefined && !(options.lineHeight > 0)) {
+      throw new TextLayoutError(`Line height must be positive, got: ${options.lineHeight}`, text, fontPath);
+    }
 
     if (!text) {
       return this.createEmptyLayout(fontSize);
     }
 
     try {
-      const font = this.fontLoader.loadFont(fontPath);
-      const run = font.layout(text);
-      const scale = fontSize / font.unitsPerEm;
+      const { font, path } = this.fontLoader.resolveFont(fontPath);
+      const base: CharFont = { font, path, size: fontSize, scale: fontSize / font.unitsPerEm };
       
-      return this.processGlyphRun(run, scale, font, fontSize);
+      return this.layoutLines(text, base, options);
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       throw new TextLayoutError(
@@ -303,53 +428,276 @@ export class TextLayoutEngine {
   private createEmptyLayout(fontSize: number): TextLayout {
     return {
       glyphs: [],
+      lines: [{ start: 0, end: 0, width: 0, x: 0, baseline: 0 }],
       totalWidth: 0,
       totalHeight: fontSize,
       baseline: fontSize * 0.8, // Approximate baseline
       ascender: fontSize,
       descender: 0,
+      lineHeight: fontSize * 1.2,
     };
   }
 
-  private processGlyphRun(
-    run: GlyphRun,
-    scale: number,
-    font: Font,
-    fontSize: number
-  ): TextLayout {
+  /**
+   * Shape each paragraph on its own, break it into lines, then align
+   * every line within the widest one. Glyphs of all fonts on a line share
+   * its baseline; lines are spaced by the largest font on them.
+   */
+  private layoutLines(text: string, base: CharFont, options: TextLayoutOptions): TextLayout {
+    const { font, scale, size: fontSize } = base;
+    const factor = options.lineHeight ?? 1;
+    const align = options.align ?? 'left';
+    const fonts = this.resolveFonts(text, base, options.runs ?? [], options.fallbacks ?? []);
+    const lines: PendingLine[] = [];
+
+    let offset = 0;
+    for (const paragraph of text.split('\n')) {
+      const para = this.shapeParagraph(paragraph, fonts.slice(offset, offset + paragraph.length));
+      for (const [start, end] of this.breakParagraph(para, options.maxWidth)) {
+        lines.push({ para, start, end, last: false });
+      }
+      lines[lines.length - 1]!.last = true;
+      offset += paragraph.length + 1;
+    }
+
+    const widths = lines.map((l) => this.lineWidth(l));
+    const extents = lines.map((l) => this.lineExtent(l, font, scale));
+    const totalWidth = Math.max(0, ...widths);
     const glyphs: GlyphData[] = [];
-    let currentX = 0;
+    const out: LineLayout[] = [];
     let maxY = 0;
     let minY = 0;
+    let baseline = 0;
+
+    for (let li = 0; li < lines.length; li++) {
+      const line = lines[li]!;
+      const width = widths[li]!;
+      if (li > 0) {
+        const prev = extents[li - 1]!;
+        const cur = extents[li]!;
+        baseline -= factor * (prev.descent + Math.max(prev.gap, cur.gap) + cur.ascent);
+      }
+      const x = align === 'center' ? (totalWidth - width) / 2 : align === 'right' ? totalWidth - width : 0;
+
+      // Justified lines stretch their inner spaces; a paragraph's last line stays left-aligned
+      const inner = this.innerSpaces(line);
+      const stretch = align === 'justify' && !line.last && inner > 0 ? (totalWidth - width) / inner : 0;
+
+      const { glyphs: shaped, pen } = line.para;
+      const contentEnd = this.contentEnd(line);
+      const first = glyphs.length;
+      let shift = 0;
+      for (let i = line.start; i < line.end; i++) {
+        const g = shaped[i]!;
+        const penX = x + shift + pen[i]! - pen[line.start]!;
+        if (!g.glyph || !g.position) {
+          glyphs.push(this.emptyGlyph(penX, baseline, li, g.char.path));
+          continue;
+        }
+        const data = this.processGlyph(g.glyph, g.position, g.char.scale, penX);
+        glyphs.push({ ...data, position: { x: data.position.x, y: data.position.y + baseline }, line: li, font: g.char.path });
+        if (stretch > 0 && isSpace(g.glyph) && i < contentEnd) shift += stretch;
+
+        // Blank glyphs such as spaces report an infinite bbox
+        if (Number.isFinite(data.bbox.y) && Number.isFinite(data.bbox.height)) {
+          maxY = Math.max(maxY, baseline + data.bbox.y + data.bbox.height);
+          minY = Math.min(minY, baseline + data.bbox.y);
+        }
+      }
+      out.push({ start: first, end: glyphs.length, width: line.last ? width : width + shift, x, baseline });
 
-    for (let i = 0; i < run.glyphs.length; i++) {
-      const glyph = run.glyphs[i]!;
-      const position = run.positions[i]!;
-
-      const glyphData = this.processGlyph(glyph, position, scale, currentX);
-      glyphs.push(glyphData);
-
-      // Update bounds
-      maxY = Math.max(maxY, glyphData.bbox.y + glyphData.bbox.height);
-      minY = Math.min(minY, glyphData.bbox.y);
-
-      // Move pen for next glyph
-      currentX += position.xAdvance * scale;
+      // The newline itself becomes an empty glyph at the end of its line
+      if (line.last && li < lines.length - 1) {
+        glyphs.push({ ...this.emptyGlyph(x + width, baseline, li, base.path), unicode: 10 });
+      }
     }
 
     return {
       glyphs,
-      totalWidth: currentX,
+      lines: out,
+      totalWidth,
       totalHeight: maxY - minY || fontSize,
       baseline: font.ascent * scale,
       ascender: font.ascent * scale,
       descender: Math.abs(font.descent * scale),
+      lineHeight: (font.ascent - font.descent + font.lineGap) * scale * factor,
     };
   }
 
+  /**
+   * Font of every character: the base font unless a run covers it, then the
+   * first fallback with a glyph for it if that font has none.
+   */
+  private resolveFonts(
+    text: string,
+    base: CharFont,
+    runs: readonly FontRun[],
+    fallbacks: readonly string[]
+  ): CharFont[] {
+    const out: CharFont[] = Array.from({ length: text.length }, () => base);
+    for (const run of runs) {
+      if (!(run.fontSize > 0)) {
+        throw new TextLayoutError(`Font size must be positive, got: ${run.fontSize}`, text, run.fontPath);
+      }
+      const { font, path } = this.fontLoader.resolveFont(run.fontPath);
+      const style: CharFont = { font, path, size: run.fontSize, scale: run.fontSize / font.unitsPerEm };
+      for (let i = Math.max(0, run.start); i < Math.min(text.length, run.end); i++) out[i] = style;
+    }
+    if (fallbacks.length === 0) return out;
+
+    const chain = this.loadFallbacks(fallbacks);
+    // One CharFont per (fallback, size) so equal neighbours shape together
+    const derived = new Map<string, CharFont>();
+    for (let i = 0; i < text.length; i++) {
+      const cp = text.codePointAt(i)!;
+      const chosen = out[i]!;
+      if (cp !== 10 && !chosen.font.hasGlyphForCodePoint(cp)) {
+        const fallback = chain.find((f) => f.font.hasGlyphForCodePoint(cp));
+        if (fallback) {
+          const key = `${fallback.path}|${chosen.size}`;
+          let style = derived.get(key);
+          if (!style) {
+            style = { ...fallback, size: chosen.size, scale: chosen.size / fallback.font.unitsPerEm };
+            derived.set(key, style);
+          }
+          out[i] = style;
+        }
+      }
+      // Both halves of a surrogate pair use the same font
+      if (cp > 0xffff && i + 1 < text.length) out[++i] = out[i - 1]!;
+    }
+    return out;
+  }
+
+  /** Fallback fonts that load; missing ones are skipped with a warning. */
+  private loadFallbacks(paths: readonly string[]): { font: Font; path: string }[] {
+    const out: { font: Font; path: string }[] = [];
+    for (const path of paths) {
+      try {
+        out.push({ font: this.fontLoader.loadFontStrict(path), path });
+      } catch (error) {
+        if (!this.missingFallbacks.has(path)) {
+          this.missingFallbacks.add(path);
+          console.warn(`Skipping fallback font "${path}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Shape a paragraph in pieces of constant font and size. Glyphs covering
+   * several characters are followed by empty placeholders for the rest.
+   */
+  private shapeParagraph(paragraph: string, styles: readonly CharFont[]): ShapedParagraph {
+    const glyphs: ShapedGlyph[] = [];
+    const pen: number[] = [0];
+    for (let start = 0; start < paragraph.length; ) {
+      const char = styles[start]!;
+      let end = start + 1;
+      while (end < paragraph.length && styles[end] === char) end++;
+      const run = char.font.layout(paragraph.slice(start, end));
+      for (let i = 0; i < run.glyphs.length; i++) {
+        const glyph = run.glyphs[i]!;
+        const position = run.positions[i]!;
+        glyphs.push({ glyph, position, char });
+        pen.push(pen[pen.length - 1]! + position.xAdvance * char.scale);
+        // Code units beyond the first that this glyph stands for
+        const units = (glyph.codePoints ?? []).reduce((n, cp) => n + (cp > 0xffff ? 2 : 1), 0);
+        for (let k = 1; k < units; k++) {
+          glyphs.push({ glyph: null, position: null, char });
+          pen.push(pen[pen.length - 1]!);
+        }
+      }
+      start = end;
+    }
+    return { glyphs, pen };
+  }
+
+  /** Glyph with no outline, standing for a character that draws nothing by itself. */
+  private emptyGlyph(x: number, y: number, line: number, font: string): GlyphData {
+    return {
+      pathCommands: [],
+      advanceWidth: 0,
+      bbox: { x: 0, y: 0, width: 0, height: 0 },
+      position: { x, y },
+      line,
+      font,
+    };
+  }
+
+  /**
+   * Greedy line breaking: wrap after the last space that keeps a line within
+   * maxWidth, or inside a word that is wider than maxWidth on its own.
+   * Spaces at a break stay at the end of the line and never force a wrap.
+   */
+  private breakParagraph(para: ShapedParagraph, maxWidth?: number): [number, number][] {
+    const count = para.glyphs.length;
+    if (maxWidth === undefined) return [[0, count]];
+
+    const { pen } = para;
+    const out: [number, number][] = [];
+    let start = 0;
+    let lastSpace = -1;
+    for (let i = 0; i < count; i++) {
+      if (isSpace(para.glyphs[i]!.glyph)) {
+        lastSpace = i;
+        continue;
+      }
+      if (i > start && pen[i + 1]! - pen[start]! > maxWidth) {
+        const breakAt = lastSpace >= start ? lastSpace + 1 : i;
+        out.push([start, breakAt]);
+        start = breakAt;
+        lastSpace = -1;
+        // Recheck the same glyph on the new line: a long word may need another break
+        i = Math.max(start, i) - 1;
+      }
+    }
+    out.push([start, count]);
+    return out;
+  }
+
+  /** Index one past the last non-space glyph of a line. */
+  private contentEnd(line: PendingLine): number {
+    let end = line.end;
+    while (end > line.start && isSpace(line.para.glyphs[end - 1]!.glyph)) end--;
+    return end;
+  }
+
+  private lineWidth(line: PendingLine): number {
+    return line.para.pen[this.contentEnd(line)]! - line.para.pen[line.start]!;
+  }
+
+  /** Largest ascent, descent and line gap among the fonts on a line (the base font's if empty). */
+  private lineExtent(line: PendingLine, font: Font, scale: number): LineExtent {
+    if (line.end === line.start) {
+      return { ascent: font.ascent * scale, descent: -font.descent * scale, gap: font.lineGap * scale };
+    }
+    const extent: LineExtent = { ascent: 0, descent: 0, gap: 0 };
+    for (let i = line.start; i < line.end; i++) {
+      const g = line.para.glyphs[i]!;
+      const { font, scale } = g.char;
+      extent.ascent = Math.max(extent.ascent, font.ascent * scale);
+      extent.descent = Math.max(extent.descent, -font.descent * scale);
+      extent.gap = Math.max(extent.gap, font.lineGap * scale);
+    }
+    return extent;
+  }
+
+  /** Spaces between the words of a line (not leading or trailing ones). */
+  private innerSpaces(line: PendingLine): number {
+    let firstWord = line.start;
+    while (firstWord < line.end && isSpace(line.para.glyphs[firstWord]!.glyph)) firstWord++;
+    let count = 0;
+    for (let i = firstWord; i < this.contentEnd(line); i++) {
+      if (isSpace(line.para.glyphs[i]!.glyph)) count++;
+    }
+    return count;
+  }
+
   private processGlyph(
     glyph: Glyph,
-    position: { xOffset: number; yOffset: number; xAdvance: number; yAdvance: number },
+    position: GlyphPosition,
     scale: number,
     currentX: number
   ): GlyphData {
@@ -521,8 +869,8 @@ const defaultLayoutEngine = new TextLayoutEngine();
 /**
  * Layout text using the default layout engine (backward compatibility)
  */
-export function layoutText(fontPath: string, text: string, fontSize: number): TextLayout {
-  return defaultLayoutEngine.layoutText(fontPath, text, fontSize);
+export function layoutText(fontPath: string, text: string, fontSize: number, options?: TextLayoutOptions): TextLayout {
+  return defaultLayoutEngine.layoutText(fontPath, text, fontSize, options);
 }
 
 /**
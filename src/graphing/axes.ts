@@ -0,0 +1,266 @@
+/**
+ * Axes - an x and a y NumberLine crossing at the origin (or the nearest
+ * point of the ranges), with coordinate conversion and function plotting.
+ *
+ * c2p()/p2c() convert between graph coordinates and points in the axes'
+ * parent coordinates. Graphs, areas and labels made by the axes are not
+ * added to it: they are positioned for the axes' current placement and are
+ * meant to be added to the scene next to it, so position the axes first.
+ */
+import type { ColorString, ReadonlyVec2 } from '../core/types.ts';
+import type { Mobject } from '../core/mobject.ts';
+import { VGroup } from '../core/vgroup.ts';
+import { VMobject } from '../core/vmobject.ts';
+import { Polygon } from '../shapes/polygon.ts';
+import { Text } from '../text/text.ts';
+import { NumberLine, placeCenter, resolveRange, type AxisRange, type NumberLineOptions } from './number_line.ts';
+import { FunctionGraph, type FunctionGraphOptions } from './function_graph.ts';
+import { ParametricFunction, type ParametricFunctionOptions } from './parametric_function.ts';
+import { ImplicitFunction, type ImplicitFunctionOptions } from './implicit_function.ts';
+
+/** Options of one axis that can be set apart from the other. */
+export type AxisOptions = Omit<NumberLineOptions, 'range' | 'length' | 'direction'>;
+
+export interface AxesOptions {
+  /** x range and tick step (default: [-5, 5, 1]) */
+  xRange?: AxisRange;
+  /** y range and tick step (default: [-3, 3, 1]) */
+  yRange?: AxisRange;
+  /** Width of the x axis in scene units (default: 100 per unit) */
+  xLength?: number;
+  /** Height of the y axis in scene units (default: 100 per unit) */
+  yLength?: number;
+  /** Color of both axes (default: '#ffffff') */
+  color?: ColorString;
+  /** End both axes with arrow heads (default: true) */
+  includeTips?: boolean;
+  /** Label the ticks of both axes (default: false) */
+  includeNumbers?: boolean;
+  /** Overrides for the x axis */
+  xAxis?: AxisOptions;
+  /** Overrides for the y axis */
+  yAxis?: AxisOptions;
+}
+
+/** Curve styling shared by the plot methods. */
+export interface CurveStyle {
+  /** Curve color (default: '#ffd54f') */
+  color?: ColorString;
+  /** Curve width (default: 3) */
+  strokeWidth?: number;
+}
+
+export interface PlotOptions extends FunctionGraphOptions, CurveStyle {}
+
+export interface AreaOptions {
+  /** Fill color (default: the graph's stroke color) */
+  color?: ColorString;
+  /** Fill opacity (default: 0.3) */
+  opacity?: number;
+  /** Shade between the graph and this one instead of the x axis */
+  boundedGraph?: FunctionGraph;
+  /** Samples along the x range (default: 100) */
+  samples?: number;
+}
+
+export interface GraphLabelOptions {
+  /** x of the graph point to label (default: the end of the graph) */
+  x?: number;
+  /** Direction from the point to the label (default: [1, 1], up and right) */
+  direction?: ReadonlyVec2;
+  /** Gap between the point and the label's edge (default: 10) */
+  buff?: number;
+  /** Font size of a string label (default: 28) */
+  fontSize?: number;
+  /** Color of a string label (default: the graph's stroke color) */
+  color?: ColorString;
+}
+
+/** Nearest value to zero inside [min, max]: where the other axis crosses. */
+function crossing(min: number, max: number): number {
+  return Math.min(Math.max(0, min), max);
+}
+
+export class Axes extends VGroup {
+  protected readonly xAxis: NumberLine;
+  protected readonly yAxis: NumberLine;
+  private readonly xMid: number;
+  private readonly yMid: number;
+
+  /**
+   * Create axes
+   *
+   * @param options - Ranges, sizes and per-axis options
+   * @param name - Mobject name for debugging
+   * @throws RangeError on an empty range or a non-positive step or length
+   */
+  constructor(options: AxesOptions = {}, name: string = 'Axes') {
+    super(name);
+    const [xMin, xMax, xStep] = resolveRange(options.xRange ?? [-5, 5, 1], 'Axes x');
+    const [yMin, yMax, yStep] = resolveRange(options.yRange ?? [-3, 3, 1], 'Axes y');
+    const shared: AxisOptions = {
+      color: options.color ?? '#ffffff',
+      includeTip: options.includeTips ?? true,
+      includeNumbers: options.includeNumbers ?? false,
+    };
+    const x0 = crossing(xMin, xMax);
+    const y0 = crossing(yMin, yMax);
+
+    // The label where the axes cross would sit on the other axis
+    this.xAxis = new NumberLine({
+      numbersToExclude: [x0],
+      ...shared,
+      ...options.xAxis,
+      range: [xMin, xMax, xStep],
+      length: options.xLength ?? (xMax - xMin) * 100,
+    }, `${name}.x`);
+    this.yAxis = new NumberLine({
+      numbersToExclude: [y0],
+      ...shared,
+      ...options.yAxis,
+      range: [yMin, yMax, yStep],
+      length: options.yLength ?? (yMax - yMin) * 100,
+      direction: 'vertical',
+    }, `${name}.y`);
+    this.xMid = (xMin + xMax) / 2;
+    this.yMid = (yMin + yMax) / 2;
+
+    const [cx, cy] = this.coordsToLocal(x0, y0);
+    this.xAxis.setPosition(0, cy);
+    this.yAxis.setPosition(cx, 0);
+    this.add(this.xAxis, this.yAxis);
+  }
+
+  /** The horizontal axis. */
+  public getXAxis(): NumberLine {
+    return this.xAxis;
+  }
+
+  /** The vertical axis. */
+  public getYAxis(): NumberLine {
+    return this.yAxis;
+  }
+
+  /** Point of graph coordinates in local coordinates. */
+  public coordsToLocal(x: number, y: number): [number, number] {
+    return [
+      (x - this.xMid) * this.xAxis.getUnitSize(),
+      (y - this.yMid) * this.yAxis.getUnitSize(),
+    ];
+  }
+
+  /** Point of graph coordinates in parent (usually scene) coordinates. */
+  public c2p(x: number, y: number): [number, number] {
+    const [lx, ly] = this.coordsToLocal(x, y);
+    return this.localToParent(lx, ly);
+  }
+
+  /** Graph coordinates of a point in parent coordinates. */
+  public p2c(point: ReadonlyVec2): [number, number] {
+    const [lx, ly] = this.parentToLocal(point[0], point[1]);
+    return [lx / this.xAxis.getUnitSize() + this.xMid, ly / this.yAxis.getUnitSize() + this.yMid];
+  }
+
+  /**
+   * Plot y = fn(x) over an x range (default: the x axis' range), broken
+   * where it leaves the y axis' range unless options.yRange says otherwise.
+   * The curve is in parent coordinates: add it to the scene, not to the axes.
+   */
+  public plot(fn: (x: number) => number, xRange?: readonly [number, number], options: PlotOptions = {}): FunctionGraph {
+    const [xMin, xMax] = this.xAxis.getRange();
+    const [yMin, yMax] = this.yAxis.getRange();
+    const graph = new FunctionGraph(
+      fn,
+      xRange ?? [xMin, xMax],
+      { yRange: [yMin, yMax], ...options },
+      (x, y) => this.c2p(x, y),
+      `${this.name}.plot`,
+    );
+    return graph.stroke(options.color ?? '#ffd54f').setStrokeWidth(options.strokeWidth ?? 3);
+  }
+
+  /**
+   * Plot the curve t => [x, y] given in graph coordinates. The tolerance
+   * is in scene units; the curve is in parent coordinates, like plot().
+   */
+  public plotParametric(
+    fn: (t: number) => readonly [number, number],
+    tRange: readonly [number, number],
+    options: ParametricFunctionOptions & CurveStyle = {},
+  ): ParametricFunction {
+    const curve = new ParametricFunction((t) => {
+      const [x, y] = fn(t);
+      return this.c2p(x, y);
+    }, tRange, options, `${this.name}.parametric`);
+    return curve.stroke(options.color ?? '#ffd54f').setStrokeWidth(options.strokeWidth ?? 3);
+  }
+
+  /**
+   * Plot the level curve f(x, y) = 0 in graph coordinates, searched over
+   * the axes' ranges unless given. The curve is in parent coordinates, like plot().
+   */
+  public plotImplicit(fn: (x: number, y: number) => number, options: ImplicitFunctionOptions & CurveStyle = {}): ImplicitFunction {
+    const [xMin, xMax] = this.xAxis.getRange();
+    const [yMin, yMax] = this.yAxis.getRange();
+    const curve = new ImplicitFunction(
+      fn,
+      { xRange: [xMin, xMax], yRange: [yMin, yMax], ...options },
+      (x, y) => this.c2p(x, y),
+      `${this.name}.implicit`,
+    );
+    return curve.stroke(options.color ?? '#ffd54f').setStrokeWidth(options.strokeWidth ?? 3);
+  }
+
+  /**
+   * Shade the area between a graph and the x axis (or another graph)
+   * over an x range (default: the graph's range).
+   */
+  public getArea(graph: FunctionGraph, xRange?: readonly [number, number], options: AreaOptions = {}): Polygon {
+    const [from, to] = xRange ?? graph.getXRange();
+    const samples = options.samples ?? 100;
+    const [yMin, yMax] = this.yAxis.getRange();
+    const bound = options.boundedGraph;
+    const xs = Array.from({ length: samples }, (_, i) => from + ((to - from) * i) / (samples - 1));
+
+    const top: [number, number][] = [];
+    const bottom: [number, number][] = [];
+    for (const x of xs) {
+      // Only x values where both edges exist, so the edges pair up
+      const p = graph.pointAt(x);
+      const base = bound ? bound.pointAt(x) : this.c2p(x, crossing(yMin, yMax));
+      if (!p || !base) continue;
+      top.push(p);
+      bottom.push(base);
+    }
+    const area = new Polygon([...top, ...bottom.reverse()], true, `${this.name}.area`);
+    return area
+      .fill(options.color ?? graph.strokeColor ?? '#ffd54f')
+      .setFillOpacity(options.opacity ?? 0.3)
+      .stroke(null);
+  }
+
+  /**
+   * Label a graph next to one of its points (default: its end). A string
+   * becomes a Text in the graph's color; any other mobject is moved into place.
+   */
+  public getGraphLabel(graph: FunctionGraph, label: string, options?: GraphLabelOptions): Text;
+  public getGraphLabel<T extends Mobject>(graph: FunctionGraph, label: T, options?: GraphLabelOptions): T;
+  public getGraphLabel(graph: FunctionGraph, label: string | Mobject, options: GraphLabelOptions = {}): Mobject {
+    const x = options.x ?? graph.getXRange()[1];
+    const point = graph.pointAt(x);
+    if (!point) throw new RangeError(`Graph is undefined at x = ${x}`);
+    const mob = typeof label === 'string'
+      ? new Text(label, { fontSize: options.fontSize ?? 28 }).setColor(options.color ?? graph.strokeColor ?? '#ffffff')
+      : label;
+
+    // Push the label out until its edge, not its center, is buff away
+    const [dx, dy] = options.direction ?? [1, 1];
+    const len = Math.hypot(dx, dy) || 1;
+    const ux = dx / len;
+    const uy = dy / len;
+    const b = mob instanceof VMobject ? mob.getBounds() : { width: 0, height: 0 };
+    const d = (options.buff ?? 10) + (Math.abs(ux) * b.width + Math.abs(uy) * b.height) / 2;
+    placeCenter(mob, point[0] + ux * d, point[1] + uy * d);
+    return mob;
+  }
+}
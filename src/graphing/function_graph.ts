@@ -0,0 +1,123 @@
+/**
+ * FunctionGraph - the graph of y = f(x) as a smooth curve.
+ *
+ * The function is sampled uniformly over its x range and the samples are
+ * joined with a smooth spline. Where f is undefined (NaN or infinite) the
+ * curve is broken; with a y range it is also broken where it leaves the
+ * range, so 1/x or tan(x) draw without a line across their poles.
+ * Usually created through Axes.plot(), which maps the samples into the
+ * axes' coordinates.
+ */
+import { VMobject } from '../core/vmobject.ts';
+import { smoothSubpath, type BezierPath } from '../core/path.ts';
+
+export interface FunctionGraphOptions {
+  /** Number of samples across the x range (default: 200) */
+  samples?: number;
+  /**
+   * Drop samples outside this y range, breaking the curve there. Samples
+   * next to one inside are kept, so the curve still runs off the edge.
+   */
+  yRange?: readonly [number, number];
+}
+
+/** Maps a graph point (x, f(x)) to local coordinates. */
+export type PointMapper = (x: number, y: number) => [number, number];
+
+export class FunctionGraph extends VMobject {
+  private readonly fn: (x: number) => number;
+  private readonly xMin: number;
+  private readonly xMax: number;
+  private readonly samples: number;
+  private readonly yRange?: readonly [number, number];
+  private readonly map: PointMapper;
+
+  /**
+   * Create a function graph
+   *
+   * @param fn - Function to plot
+   * @param xRange - [min, max] of x to plot over
+   * @param options - Sampling options
+   * @param map - Mapping from graph points to local coordinates (default: identity)
+   * @param name - Mobject name for debugging
+   * @throws RangeError on an empty x range or fewer than 2 samples
+   */
+  constructor(
+    fn: (x: number) => number,
+    xRange: readonly [number, number],
+    options: FunctionGraphOptions = {},
+    map: PointMapper = (x, y) => [x, y],
+    name: string = 'FunctionGraph',
+  ) {
+    super(name);
+    const [xMin, xMax] = xRange;
+    if (!Number.isFinite(xMin) || !Number.isFinite(xMax) || !(xMax > xMin)) {
+      throw new RangeError(`FunctionGraph x range needs min < max, got [${xMin}, ${xMax}]`);
+    }
+    const samples = options.samples ?? 200;
+    if (!Number.isInteger(samples) || samples < 2) {
+      throw new RangeError(`FunctionGraph needs an integer of at least 2 samples, got ${samples}`);
+    }
+    this.fn = fn;
+    this.xMin = xMin;
+    this.xMax = xMax;
+    this.samples = samples;
+    this.yRange = options.yRange;
+    this.map = map;
+    this.fill(null);
+  }
+
+  /** The plotted function. */
+  public getFunction(): (x: number) => number {
+    return this.fn;
+  }
+
+  /** Plotted x range as [min, max]. */
+  public getXRange(): [number, number] {
+    return [this.xMin, this.xMax];
+  }
+
+  /** Local point of (x, f(x)), or null where f is undefined. */
+  public pointAt(x: number): [number, number] | null {
+    const y = this.fn(x);
+    return Number.isFinite(y) ? this.map(x, y) : null;
+  }
+
+  /** One smooth subpath per run of defined samples. */
+  protected generatePoints(): BezierPath {
+    const ys: number[] = [];
+    for (let i = 0; i < this.samples; i++) ys.push(this.fn(this.xAt(i)));
+    const inside = (i: number): boolean => {
+      const y = ys[i];
+      if (y === undefined || !Number.isFinite(y)) return false;
+      return !this.yRange || (y >= this.yRange[0] && y <= this.yRange[1]);
+    };
+
+    const path: BezierPath = [];
+    let run: [number, number][] = [];
+    const flush = (): void => {
+      if (run.length > 1) path.push(smoothSubpath(run));
+      run = [];
+    };
+    for (let i = 0; i < this.samples; i++) {
+      const y = ys[i]!;
+      if (inside(i) || (Number.isFinite(y) && (inside(i - 1) || inside(i + 1)))) {
+        const point = this.map(this.xAt(i), y);
+        run.push(point);
+        // Leaving the range: end the run past the edge (and start the next one there if it re-enters)
+        if (!inside(i) && inside(i - 1)) {
+          flush();
+          if (inside(i + 1)) run.push(point);
+        }
+      } else {
+        flush();
+      }
+    }
+    flush();
+    return path;
+  }
+
+  private xAt(i: number): number {
+    return this.xMin + ((this.xMax - this.xMin) * i) / (this.samples - 1);
+  }
+}
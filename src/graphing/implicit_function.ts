@@ -0,0 +1,192 @@
+/**
+ * ImplicitFunction - the level curve f(x, y) = 0, e.g. a circle from
+ * `new ImplicitFunction((x, y) => x * x + y * y - 100 ** 2, { xRange: [-150, 150], yRange: [-150, 150] })`.
+ *
+ * The function is evaluated on a grid and traced with marching squares:
+ * each cell the curve passes through contributes a segment between the
+ * points where f changes sign along its edges, and segments sharing an
+ * edge point are chained into curves. Saddle cells are resolved by the
+ * value at the cell center. Chain points are then pulled onto the curve
+ * with a Newton step and joined smoothly; loops become closed subpaths.
+ */
+import { VMobject } from '../core/vmobject.ts';
+import { smoothSubpath, type BezierPath } from '../core/path.ts';
+import type { PointMapper } from './function_graph.ts';
+
+export interface ImplicitFunctionOptions {
+  /** [min, max] of x to search (default: [-5, 5]) */
+  xRange?: readonly [number, number];
+  /** [min, max] of y to search (default: [-5, 5]) */
+  yRange?: readonly [number, number];
+  /** Grid cells along each axis; smaller features may be missed (default: 100) */
+  resolution?: number;
+}
+
+type Point = [number, number];
+
+/**
+ * Edges crossed by the curve for each corner sign pattern (bit 0: bottom
+ * left, 1: bottom right, 2: top right, 3: top left; set where f > 0).
+ * Edges: 0 bottom, 1 right, 2 top, 3 left. Saddles (5, 10) are resolved
+ * separately.
+ */
+const CASES: readonly (readonly [number, number][])[] = [
+  [], [[3, 0]], [[0, 1]], [[3, 1]],
+  [[1, 2]], [], [[0, 2]], [[3, 2]],
+  [[2, 3]], [[2, 0]], [], [[2, 1]],
+  [[1, 3]], [[1, 0]], [[0, 3]], [],
+];
+
+export class ImplicitFunction extends VMobject {
+  private readonly fn: (x: number, y: number) => number;
+  private readonly xRange: readonly [number, number];
+  private readonly yRange: readonly [number, number];
+  private readonly resolution: number;
+  private readonly map: PointMapper;
+
+  /**
+   * Create an implicit curve
+   *
+   * @param fn - Function whose zero set is drawn
+   * @param options - Search region and grid resolution
+   * @param map - Mapping from curve points to local coordinates (default: identity)
+   * @param name - Mobject name for debugging
+   * @throws RangeError on an empty range or a resolution below 2
+   */
+  constructor(
+    fn: (x: number, y: number) => number,
+    options: ImplicitFunctionOptions = {},
+    map: PointMapper = (x, y) => [x, y],
+    name: string = 'ImplicitFunction',
+  ) {
+    super(name);
+    this.xRange = options.xRange ?? [-5, 5];
+    this.yRange = options.yRange ?? [-5, 5];
+    for (const [axis, [min, max]] of [['x', this.xRange], ['y', this.yRange]] as const) {
+      if (!Number.isFinite(min) || !Number.isFinite(max) || !(max > min)) {
+        throw new RangeError(`ImplicitFunction ${axis} range needs min < max, got [${min}, ${max}]`);
+      }
+    }
+    const resolution = options.resolution ?? 100;
+    if (!Number.isInteger(resolution) || resolution < 2) {
+      throw new RangeError(`ImplicitFunction resolution must be an integer of at least 2, got ${resolution}`);
+    }
+    this.fn = fn;
+    this.resolution = resolution;
+    this.map = map;
+    this.fill(null);
+  }
+
+  /** The function whose zero set is drawn. */
+  public getFunction(): (x: number, y: number) => number {
+    return this.fn;
+  }
+
+  /**
+   * Traced curves as point lists in the function's coordinates (before
+   * mapping); a closed loop does not repeat its first point.
+   */
+  public trace(): { points: [number, number][]; closed: boolean }[] {
+    const n = this.resolution;
+    const [x0, x1] = this.xRange;
+    const [y0, y1] = this.yRange;
+    const dx = (x1 - x0) / n;
+    const dy = (y1 - y0) / n;
+    const xs = Array.from({ length: n + 1 }, (_, i) => x0 + i * dx);
+    const ys = Array.from({ length: n + 1 }, (_, j) => y0 + j * dy);
+    const values = ys.map((y) => xs.map((x) => this.fn(x, y)));
+    const value = (i: number, j: number): number => values[j]![i]!;
+    const positive = (v: number): boolean => v > 0;
+
+    // Where the curve crosses each edge, keyed by edge; horizontal edges
+    // are 'h,i,j' (from corner i,j to i+1,j), vertical ones 'v,i,j'
+    const crossings = new Map<string, Point>();
+    const crossing = (key: string, ax: number, ay: number, va: number, bx: number, by: number, vb: number): string => {
+      if (!crossings.has(key)) {
+        const u = va === vb ? 0.5 : va / (va - vb);
+        crossings.set(key, [ax + (bx - ax) * u, ay + (by - ay) * u]);
+      }
+      return key;
+    };
+    const edgeKey = (i: number, j: number, edge: number): string => {
+      const [xa, ya, xb, yb] = [xs[i]!, ys[j]!, xs[i + 1]!, ys[j + 1]!];
+      switch (edge) {
+        case 0: return crossing(`h,${i},${j}`, xa, ya, value(i, j), xb, ya, value(i + 1, j));
+        case 1: return crossing(`v,${i + 1},${j}`, xb, ya, value(i + 1, j), xb, yb, value(i + 1, j + 1));
+        case 2: return crossing(`h,${i},${j + 1}`, xa, yb, value(i, j + 1), xb, yb, value(i + 1, j + 1));
+        default: return crossing(`v,${i},${j}`, xa, ya, value(i, j), xa, yb, value(i, j + 1));
+      }
+    };
+
+    // Segments as links between edge crossings
+    const links = new Map<string, string[]>();
+    const link = (a: string, b: string): void => {
+      links.set(a, [...(links.get(a) ?? []), b]);
+      links.set(b, [...(links.get(b) ?? []), a]);
+    };
+    for (let j = 0; j < n; j++) {
+      for (let i = 0; i < n; i++) {
+        const corners = [value(i, j), value(i + 1, j), value(i + 1, j + 1), value(i, j + 1)];
+        if (corners.some((v) => !Number.isFinite(v))) continue;
+        const index = corners.reduce((acc, v, k) => acc | (positive(v) ? 1 << k : 0), 0);
+        let pairs = CASES[index]!;
+        if (index === 5 || index === 10) {
+          // Saddle: the center's sign decides which corners are joined
+          const center = positive(this.fn(xs[i]! + dx / 2, ys[j]! + dy / 2));
+          const joinBottomLeft = (index === 5) !== center;
+          pairs = joinBottomLeft ? [[3, 0], [1, 2]] : [[0, 1], [2, 3]];
+        }
+        for (const [a, b] of pairs) link(edgeKey(i, j, a), edgeKey(i, j, b));
+      }
+    }
+
+    // Chain links: open chains from their loose ends first, then loops
+    const curves: { points: Point[]; closed: boolean }[] = [];
+    const visited = new Set<string>();
+    const walk = (start: string): string[] => {
+      const chain = [start];
+      visited.add(start);
+      let current = start;
+      for (;;) {
+        const next = links.get(current)!.find((k) => !visited.has(k));
+        if (next === undefined) return chain;
+        visited.add(next);
+        chain.push(next);
+        current = next;
+      }
+    };
+    const ends = [...links.keys()].filter((k) => links.get(k)!.length === 1);
+    for (const key of ends) {
+      if (!visited.has(key)) curves.push({ points: walk(key).map((k) => this.snap(crossings.get(k)!, dx, dy)), closed: false });
+    }
+    for (const key of links.keys()) {
+      if (visited.has(key)) continue;
+      const chain = walk(key);
+      curves.push({ points: chain.map((k) => this.snap(crossings.get(k)!, dx, dy)), closed: chain.length > 2 });
+    }
+    return curves.filter((c) => c.points.length > 1);
+  }
+
+  /** One smooth subpath per traced curve. */
+  protected generatePoints(): BezierPath {
+    return this.trace().map(({ points, closed }) => smoothSubpath(points.map(([x, y]) => this.map(x, y)), closed));
+  }
+
+  /**
+   * Pull a point onto the curve with a Newton step along the gradient,
+   * keeping the grid estimate when the step would leave its cell.
+   */
+  private snap(p: Point, dx: number, dy: number): Point {
+    const [x, y] = p;
+    const h = Math.min(dx, dy) * 1e-3;
+    const v = this.fn(x, y);
+    const gx = (this.fn(x + h, y) - this.fn(x - h, y)) / (2 * h);
+    const gy = (this.fn(x, y + h) - this.fn(x, y - h)) / (2 * h);
+    const g2 = gx * gx + gy * gy;
+    if (!Number.isFinite(v) || !(g2 > 0) || !Number.isFinite(g2)) return p;
+    const sx = (v * gx) / g2;
+    const sy = (v * gy) / g2;
+    if (Math.abs(sx) > dx || Math.abs(sy) > dy) return p;
+    return [x - sx, y - sy];
+  }
+}
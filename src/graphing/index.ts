@@ -0,0 +1,6 @@
+export { NumberLine } from './number_line.ts';
+export { Axes } from './axes.ts';
+export { NumberPlane } from './number_plane.ts';
+export { FunctionGraph } from './function_graph.ts';
+export { ParametricFunction } from './parametric_function.ts';
+export { ImplicitFunction } from './implicit_function.ts';
@@ -0,0 +1,209 @@
+/**
+ * NumberLine - an axis with ticks and optional numeric labels.
+ *
+ * The line is centered on the group's origin and runs horizontally or
+ * vertically. n2p()/p2n() convert between numbers and points in the
+ * line's parent coordinates (scene coordinates for a top-level line).
+ */
+import type { ColorString, ReadonlyVec2 } from '../core/types.ts';
+import type { Mobject } from '../core/mobject.ts';
+import { VGroup } from '../core/vgroup.ts';
+import { VMobject } from '../core/vmobject.ts';
+import { Line } from '../shapes/line.ts';
+import { Arrow } from '../shapes/arrow.ts';
+import { Text } from '../text/text.ts';
+import { formatNumber } from '../text/decimal_number.ts';
+
+/** [min, max] or [min, max, step]; the step defaults to 1. */
+export type AxisRange = readonly [number, number] | readonly [number, number, number];
+
+export interface NumberLineOptions {
+  /** Numbers covered and tick spacing (default: [-5, 5, 1]) */
+  range?: AxisRange;
+  /** Length in scene units (default: 100 per unit of range) */
+  length?: number;
+  /** Orientation (default: 'horizontal') */
+  direction?: 'horizontal' | 'vertical';
+  /** Color of line, ticks and labels (default: '#ffffff') */
+  color?: ColorString;
+  /** Width of line and ticks (default: 2) */
+  strokeWidth?: number;
+  /** Draw a tick at every step (default: true) */
+  includeTicks?: boolean;
+  /** Total tick length in scene units (default: 10) */
+  tickSize?: number;
+  /** End the line with an arrow head past the maximum (default: false) */
+  includeTip?: boolean;
+  /** Label ticks with their numbers (default: false) */
+  includeNumbers?: boolean;
+  /** Ticks left without a label */
+  numbersToExclude?: readonly number[];
+  /** Digits after the decimal point in labels (default: as many as the step has) */
+  decimals?: number;
+  /** Label font size (default: 20) */
+  fontSize?: number;
+}
+
+/** Arrow head size of axis tips, in scene units. */
+const TIP_LENGTH = 12;
+const TIP_WIDTH = 10;
+
+/** Gap between a tick and its label, in scene units. */
+const LABEL_GAP = 6;
+
+/** Validated [min, max, step] of a range. */
+export function resolveRange(range: AxisRange, what: string): [number, number, number] {
+  const [min, max, step = 1] = range;
+  if (!Number.isFinite(min) || !Number.isFinite(max) || !(max > min)) {
+    throw new RangeError(`${what} range needs min < max, got [${min}, ${max}]`);
+  }
+  if (!(step > 0)) throw new RangeError(`${what} step must be positive, got ${step}`);
+  return [min, max, step];
+}
+
+/** Multiples of step from min to max, cleaned of floating point noise. */
+export function tickValues(min: number, max: number, step: number): number[] {
+  const out: number[] = [];
+  const count = Math.floor((max - min) / step + 1e-9);
+  for (let i = 0; i <= count; i++) out.push(Number((min + i * step).toPrecision(12)));
+  return out;
+}
+
+/** Digits after the decimal point in a step such as 0.25. */
+function stepDecimals(step: number): number {
+  const text = String(Number(step.toPrecision(12)));
+  const dot = text.indexOf('.');
+  return dot < 0 ? 0 : text.length - dot - 1;
+}
+
+/**
+ * Move a mobject so the center of its bounds lands on a point
+ * (its position when it has no outline to measure).
+ */
+export function placeCenter(m: Mobject, x: number, y: number): void {
+  if (m instanceof VMobject) {
+    const b = m.getBounds();
+    m.translate(x - (b.x + b.width / 2), y - (b.y + b.height / 2));
+  } else {
+    m.setPosition(x, y);
+  }
+}
+
+export class NumberLine extends VGroup {
+  private readonly min: number;
+  private readonly max: number;
+  private readonly step: number;
+  private readonly unit: number;
+  private readonly vertical: boolean;
+  private readonly axis: Line | Arrow;
+  private readonly ticks: Line[] = [];
+  private readonly numbers: Text[] = [];
+
+  /**
+   * Create a number line
+   *
+   * @param options - Range, size, ticks and labels
+   * @param name - Mobject name for debugging
+   * @throws RangeError on an empty range or a non-positive step or length
+   */
+  constructor(options: NumberLineOptions = {}, name: string = 'NumberLine') {
+    super(name);
+    [this.min, this.max, this.step] = resolveRange(options.range ?? [-5, 5, 1], 'NumberLine');
+    const length = options.length ?? (this.max - this.min) * 100;
+    if (!(length > 0)) throw new RangeError(`NumberLine length must be positive, got ${length}`);
+    this.unit = length / (this.max - this.min);
+    this.vertical = options.direction === 'vertical';
+
+    const color = options.color ?? '#ffffff';
+    const width = options.strokeWidth ?? 2;
+    const start = this.numberToLocal(this.min);
+    const end = this.numberToLocal(this.max);
+    if (options.includeTip) {
+      const [dx, dy] = this.vertical ? [0, TIP_LENGTH] : [TIP_LENGTH, 0];
+      this.axis = new Arrow(start, [end[0] + dx, end[1] + dy], TIP_LENGTH, TIP_WIDTH, `${name}.axis`);
+    } else {
+      this.axis = new Line(start, end, `${name}.axis`);
+    }
+    this.axis.fill(color).stroke(color).setStrokeWidth(width);
+    if (!options.includeTip) this.axis.fill(null);
+    this.add(this.axis);
+
+    const values = tickValues(this.min, this.max, this.step);
+    if (options.includeTicks ?? true) {
+      const half = (options.tickSize ?? 10) / 2;
+      for (const v of values) {
+        const [x, y] = this.numberToLocal(v);
+        const tick = this.vertical ? new Line([x - half, y], [x + half, y]) : new Line([x, y - half], [x, y + half]);
+        tick.stroke(color).setStrokeWidth(width);
+        this.ticks.push(tick);
+        this.add(tick);
+      }
+    }
+
+    if (options.includeNumbers) {
+      const exclude = options.numbersToExclude ?? [];
+      const decimals = options.decimals ?? stepDecimals(this.step);
+      const offset = (options.includeTicks ?? true ? (options.tickSize ?? 10) / 2 : 0) + LABEL_GAP;
+      for (const v of values) {
+        if (exclude.some((e) => Math.abs(e - v) < this.step * 1e-6)) continue;
+        const label = new Text(formatNumber(v, { decimals }), { fontSize: options.fontSize ?? 20 }).setColor(color);
+        label.setStrokeWidth(0);
+        const b = label.getBounds();
+        const [x, y] = this.numberToLocal(v);
+        // Below a horizontal line, left of a vertical one
+        if (this.vertical) placeCenter(label, x - offset - b.width / 2, y);
+        else placeCenter(label, x, y - offset - b.height / 2);
+        this.numbers.push(label);
+        this.add(label);
+      }
+    }
+  }
+
+  /** Covered range as [min, max, step]. */
+  public getRange(): [number, number, number] {
+    return [this.min, this.max, this.step];
+  }
+
+  /** Scene units per unit of the number line. */
+  public getUnitSize(): number {
+    return this.unit;
+  }
+
+  /** The line itself (an Arrow when it has a tip). */
+  public getAxisLine(): Line | Arrow {
+    return this.axis;
+  }
+
+  /** Tick marks, in increasing order. */
+  public getTicks(): readonly Line[] {
+    return this.ticks;
+  }
+
+  /** Number labels, in increasing order. */
+  public getNumbers(): readonly Text[] {
+    return this.numbers;
+  }
+
+  /** Point of a number in local coordinates. */
+  public numberToLocal(value: number): [number, number] {
+    const u = (value - (this.min + this.max) / 2) * this.unit;
+    return this.vertical ? [0, u] : [u, 0];
+  }
+
+  /** Number at a point in local coordinates (projected onto the line). */
+  public localToNumber(point: ReadonlyVec2): number {
+    const u = this.vertical ? point[1] : point[0];
+    return u / this.unit + (this.min + this.max) / 2;
+  }
+
+  /** Point of a number in parent coordinates. */
+  public n2p(value: number): [number, number] {
+    const [x, y] = this.numberToLocal(value);
+    return this.localToParent(x, y);
+  }
+
+  /** Number at a point in parent coordinates. */
+  public p2n(point: ReadonlyVec2): number {
+    return this.localToNumber(this.parentToLocal(point[0], point[1]));
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * NumberPlane - Axes over a background grid with a line at every tick,
+ * filling the 1920x1080 frame by default.
+ */
+import type { ColorString } from '../core/types.ts';
+import { Line } from '../shapes/line.ts';
+import { Axes, type AxesOptions } from './axes.ts';
+import { tickValues } from './number_line.ts';
+
+export interface NumberPlaneOptions extends AxesOptions {
+  /** Grid line color (default: '#29abca') */
+  gridColor?: ColorString;
+  /** Grid line width (default: 1) */
+  gridWidth?: number;
+  /** Grid line opacity (default: 0.5) */
+  gridOpacity?: number;
+}
+
+export class NumberPlane extends Axes {
+  private readonly grid: Line[] = [];
+
+  /**
+   * Create a number plane
+   *
+   * @param options - Axes options plus grid styling; ranges default to [-9, 9] by [-5, 5] without tips
+   * @param name - Mobject name for debugging
+   */
+  constructor(options: NumberPlaneOptions = {}, name: string = 'NumberPlane') {
+    super({ xRange: [-9, 9, 1], yRange: [-5, 5, 1], includeTips: false, ...options }, name);
+    const color = options.gridColor ?? '#29abca';
+    const width = options.gridWidth ?? 1;
+    const opacity = options.gridOpacity ?? 0.5;
+
+    const [xMin, xMax, xStep] = this.xAxis.getRange();
+    const [yMin, yMax, yStep] = this.yAxis.getRange();
+    const [left, bottom] = this.coordsToLocal(xMin, yMin);
+    const [right, top] = this.coordsToLocal(xMax, yMax);
+    for (const x of tickValues(xMin, xMax, xStep)) {
+      const [lx] = this.coordsToLocal(x, 0);
+      this.grid.push(new Line([lx, bottom], [lx, top]));
+    }
+    for (const y of tickValues(yMin, yMax, yStep)) {
+      const [, ly] = this.coordsToLocal(0, y);
+      this.grid.push(new Line([left, ly], [right, ly]));
+    }
+    for (const line of this.grid) line.stroke(color).setStrokeWidth(width).setStrokeOpacity(opacity);
+    // Under the axes
+    this.sendToBack(...this.grid);
+  }
+
+  /** Background grid lines: vertical ones first, then horizontal. */
+  public getGridLines(): readonly Line[] {
+    return this.grid;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * ParametricFunction - the curve traced by t => [x, y] over a t range:
+ * `new ParametricFunction((t) => [200 * Math.sin(3 * t), 200 * Math.sin(2 * t)], [0, 2 * Math.PI])`.
+ *
+ * Sampling is adaptive: a uniform pass is refined wherever the curve bends
+ * away from the chord between two samples by more than the tolerance, so
+ * tight turns get many samples and straight stretches few. The curve breaks
+ * where the function is undefined (NaN or infinite), at the given
+ * discontinuities, and where it jumps: a step that does not shrink as the
+ * t interval is halved down to the finest level. A curve that ends where
+ * it starts is closed, so it can be filled like a Polygon.
+ */
+import { VMobject } from '../core/vmobject.ts';
+import { smoothSubpath, type BezierPath } from '../core/path.ts';
+
+export interface ParametricFunctionOptions {
+  /** Samples of the uniform first pass (default: 64) */
+  samples?: number;
+  /** Largest allowed distance between the curve and the polyline through the samples (default: 0.5) */
+  tolerance?: number;
+  /** Times a first-pass interval may be halved (default: 10) */
+  maxDepth?: number;
+  /** Values of t where the curve is broken */
+  discontinuities?: readonly number[];
+}
+
+type Point = [number, number];
+
+/** A step this many tolerances long at the finest level is a jump, not a curve. */
+const JUMP_FACTOR = 20;
+
+function evaluate(fn: (t: number) => readonly [number, number], t: number): Point | null {
+  const [x, y] = fn(t);
+  return Number.isFinite(x) && Number.isFinite(y) ? [x, y] : null;
+}
+
+/** Distance from p to the segment a-b. */
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const len2 = dx * dx + dy * dy;
+  const u = len2 > 0 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / len2)) : 0;
+  return Math.hypot(p[0] - a[0] - u * dx, p[1] - a[1] - u * dy);
+}
+
+export class ParametricFunction extends VMobject {
+  private readonly fn: (t: number) => readonly [number, number];
+  private readonly tMin: number;
+  private readonly tMax: number;
+  private readonly samples: number;
+  private readonly tolerance: number;
+  private readonly maxDepth: number;
+  private readonly discontinuities: number[];
+
+  /**
+   * Create a parametric curve
+   *
+   * @param fn - Point of the curve at t, in local coordinates
+   * @param tRange - [min, max] of t
+   * @param options - Sampling options
+   * @param name - Mobject name for debugging
+   * @throws RangeError on an empty t range or invalid sampling options
+   */
+  constructor(
+    fn: (t: number) => readonly [number, number],
+    tRange: readonly [number, number],
+    options: ParametricFunctionOptions = {},
+    name: string = 'ParametricFunction',
+  ) {
+    super(name);
+    const [tMin, tMax] = tRange;
+    if (!Number.isFinite(tMin) || !Number.isFinite(tMax) || !(tMax > tMin)) {
+      throw new RangeError(`ParametricFunction t range needs min < max, got [${tMin}, ${tMax}]`);
+    }
+    const samples = options.samples ?? 64;
+    if (!Number.isInteger(samples) || samples < 2) {
+      throw new RangeError(`ParametricFunction needs an integer of at least 2 samples, got ${samples}`);
+    }
+    const tolerance = options.tolerance ?? 0.5;
+    if (!(tolerance > 0)) throw new RangeError(`ParametricFunction tolerance must be positive, got ${tolerance}`);
+    this.fn = fn;
+    this.tMin = tMin;
+    this.tMax = tMax;
+    this.samples = samples;
+    this.tolerance = tolerance;
+    this.maxDepth = Math.max(0, Math.floor(options.maxDepth ?? 10));
+    this.discontinuities = (options.discontinuities ?? []).filter((t) => t > tMin && t < tMax).sort((a, b) => a - b);
+    this.fill(null);
+  }
+
+  /** The curve's function. */
+  public getFunction(): (t: number) => readonly [number, number] {
+    return this.fn;
+  }
+
+  /** Covered t range as [min, max]. */
+  public getTRange(): [number, number] {
+    return [this.tMin, this.tMax];
+  }
+
+  /** Local point at t, or null where the function is undefined. */
+  public pointAt(t: number): [number, number] | null {
+    return evaluate(this.fn, t);
+  }
+
+  /** Sampled points, one list per unbroken run of the curve. */
+  public sample(): [number, number][][] {
+    const runs: Point[][] = [];
+    let run: Point[] = [];
+    const flush = (): void => {
+      if (run.length > 1) runs.push(run);
+      run = [];
+    };
+
+    // Sample each piece between discontinuities on its own
+    const bounds = [this.tMin, ...this.discontinuities, this.tMax];
+    const span = this.tMax - this.tMin;
+    for (let k = 0; k + 1 < bounds.length; k++) {
+      const from = bounds[k]!;
+      const to = bounds[k + 1]!;
+      const count = Math.max(2, Math.ceil((this.samples * (to - from)) / span) + 1);
+      let prevT = from;
+      let prev = evaluate(this.fn, from);
+      if (prev) run.push(prev);
+      for (let i = 1; i < count; i++) {
+        const t = from + ((to - from) * i) / (count - 1);
+        const p = evaluate(this.fn, t);
+        this.refine(prevT, prev, t, p, 0, run, flush);
+        if (p) run.push(p);
+        prevT = t;
+        prev = p;
+      }
+      flush();
+    }
+    return runs;
+  }
+
+  /** One smooth subpath per run; closed when the curve returns to its start. */
+  protected generatePoints(): BezierPath {
+    const runs = this.sample();
+    return runs.map((run) => {
+      const first = run[0]!;
+      const last = run[run.length - 1]!;
+      const closes = runs.length === 1 && run.length > 3 && Math.hypot(last[0] - first[0], last[1] - first[1]) <= this.tolerance;
+      return closes ? smoothSubpath(run.slice(0, -1), true) : smoothSubpath(run);
+    });
+  }
+
+  /**
+   * Push the samples strictly between (t0, p0) and (t1, p1), halving the
+   * interval while the curve strays from the chord. A null end is undefined:
+   * the interval is bisected towards the gap and the run flushed there.
+   * Flushes at jumps too.
+   */
+  private refine(t0: number, p0: Point | null, t1: number, p1: Point | null, depth: number, run: Point[], flush: () => void): void {
+    if (!p0 && !p1) return;
+    if (depth >= this.maxDepth) {
+      if (!p1 || (p0 && Math.hypot(p1[0] - p0[0], p1[1] - p0[1]) > JUMP_FACTOR * this.tolerance)) flush();
+      return;
+    }
+    const tm = (t0 + t1) / 2;
+    const pm = evaluate(this.fn, tm);
+    if (p0 && p1 && pm) {
+      // Check the quarter points too, so a symmetric wiggle is not missed
+      const q1 = evaluate(this.fn, (t0 + tm) / 2);
+      const q3 = evaluate(this.fn, (tm + t1) / 2);
+      // A long chord is split even when flat: a step's midpoint lies on its chord
+      const flat =
+        q1 !== null &&
+        q3 !== null &&
+        Math.hypot(p1[0] - p0[0], p1[1] - p0[1]) <= JUMP_FACTOR * this.tolerance &&
+        distanceToSegment(pm, p0, p1) <= this.tolerance &&
+        distanceToSegment(q1, p0, p1) <= this.tolerance &&
+        distanceToSegment(q3, p0, p1) <= this.tolerance;
+      if (flat) return;
+    }
+    this.refine(t0, p0, tm, pm, depth + 1, run, flush);
+    if (pm) run.push(pm);
+    this.refine(tm, pm, t1, p1, depth + 1, run, flush);
+  }
+}
@@ -2,26 +2,91 @@
  * Public API exports for the server-side TypeScript Manim-like engine.
  */
 export { Scene } from './scene/scene.ts';
+export { Camera } from './scene/camera.ts';
 export { Mobject } from './core/mobject.ts';
+export type { Updater } from './core/mobject.ts';
+export { ValueTracker } from './core/value_tracker.ts';
+export { VMobject } from './core/vmobject.ts';
+export { VGroup } from './core/vgroup.ts';
+export { StyleGroup } from './core/style_group.ts';
 export type {
   EngineConfig,
   FileConfig,
   SceneConfig,
+  CliConfig,
+  QualityPreset,
   RenderOutputOptions,
+  VideoFormat,
+  StillFormat,
+  FramePartition,
   Vec2,
   ReadonlyVec2,
   ColorString,
+  FillRule,
   EasingName,
 } from './core/types.ts';
-export { resolveConfig, DEFAULT_ENGINE_CONFIG } from './core/config.ts';
+export { resolveConfig, DEFAULT_ENGINE_CONFIG, QUALITY_PRESETS } from './core/config.ts';
 export { CanvasRenderer } from './renderer/canvas_renderer.ts';
+export type { FrameSource } from './renderer/canvas_renderer.ts';
+export { SVGRenderer } from './renderer/svg_renderer.ts';
+export { PngSequenceSink, MemoryFrameSink, ConcatFrameSink } from './renderer/frame_sink.ts';
+export type { FrameSink } from './renderer/frame_sink.ts';
+export { FfmpegPipeSink } from './renderer/ffmpeg.ts';
+export { renderParallel } from './renderer/parallel.ts';
+export type { ParallelRenderOptions, SceneJob } from './renderer/parallel.ts';
+export { loadScene, loadScenes } from './scene/scene_loader.ts';
+export type { SceneConstructor, LoadedScene, LoadedScenes } from './scene/scene_loader.ts';
 export { MoveTo, MoveBy } from './animation/transforms/move.ts';
 export { RotateTo, RotateBy } from './animation/transforms/rotate.ts';
 export { ScaleTo, ScaleBy } from './animation/transforms/scale.ts';
 export { OpacityTo } from './animation/transforms/opacity.ts';
 export { FillColorTo, StrokeColorTo, StrokeWidthTo } from './animation/transforms/style.ts';
 export { FadeIn, FadeOut } from './animation/transforms/fade.ts';
+export { Transform, ReplacementTransform } from './animation/transforms/transform.ts';
+export { Create, Uncreate, Write } from './animation/transforms/create.ts';
+export { ChangeValue, CountTo, ChangeData } from './animation/transforms/value.ts';
+export type { ValueMobject, DataMobject, ChartData } from './animation/transforms/value.ts';
+export { ZoomTo, FocusOn } from './animation/transforms/camera.ts';
 export { Sequence, Parallel, SequenceAnimation, ParallelAnimation } from './animation/base/combinators.ts';
-export { Circle, Rectangle, Line, Polygon, Arc, Annulus, Arrow } from './shapes/index.ts';
+export { Circle, Rectangle, Line, Polygon, Arc, Annulus, Arrow, PathShape, Sector } from './shapes/index.ts';
+export { NumberLine, Axes, NumberPlane, FunctionGraph, ParametricFunction, ImplicitFunction } from './graphing/index.ts';
+export type { AxisRange, NumberLineOptions } from './graphing/number_line.ts';
+export type { AxesOptions, AxisOptions, CurveStyle, PlotOptions, AreaOptions, GraphLabelOptions } from './graphing/axes.ts';
+export type { NumberPlaneOptions } from './graphing/number_plane.ts';
+export type { FunctionGraphOptions } from './graphing/function_graph.ts';
+export type { ParametricFunctionOptions } from './graphing/parametric_function.ts';
+export type { ImplicitFunctionOptions } from './graphing/implicit_function.ts';
+export { BarChart, LineChart, PieChart, Legend } from './charts/index.ts';
+export type { BarChartOptions } from './charts/bar_chart.ts';
+export type { LineChartOptions, LineSeries } from './charts/line_chart.ts';
+export type { PieChartOptions } from './charts/pie_chart.ts';
+export type { LegendEntry, LegendOptions } from './charts/legend.ts';
+export { DEFAULT_PALETTE, niceRange } from './charts/chart.ts';
+export { DataTable, DataError, parseNumber, parseDate } from './data/table.ts';
+export type { ColumnType, DataValue, DataTableOptions } from './data/table.ts';
+export { parseCSV } from './data/csv.ts';
+export type { CSVOptions } from './data/csv.ts';
+export { loadData, parseData } from './data/loader.ts';
+export type { DataFormat, LoadDataOptions } from './data/loader.ts';
+export { SceneDocumentError, validateSceneDocument, parseSceneDocument, readSceneDocument, sceneFromDocument, loadSceneDocument } from './declarative/index.ts';
+export type { SceneDocument, ObjectSpec, AnimationSpec, StepSpec } from './declarative/document.ts';
+export type { SceneDocumentFormat } from './declarative/loader.ts';
+export type { DocumentSceneOptions } from './declarative/document_scene.ts';
 export { Text } from './text/text.ts';
+export type { TextOptions, TextStyle, TextSpan, TextMetrics, LineMetrics } from './text/text.ts';
+export { FontError } from './font/glyph_path_extractor.ts';
+export type { TextAlign } from './font/glyph_path_extractor.ts';
+export { FontScanner } from './font/font_scanner.ts';
+export type { FontFace, FontQuery, FontStyle, FontWeight } from './font/font_scanner.ts';
+export { MarkupText } from './text/markup_text.ts';
+export { DecimalNumber, Integer, formatNumber } from './text/decimal_number.ts';
+export type { DecimalNumberOptions } from './text/decimal_number.ts';
+export { parseMarkup, MarkupError } from './text/markup.ts';
+export { MathTex, Tex, TexError, texToSVG } from './tex/tex.ts';
+export type { TexOptions } from './tex/tex.ts';
+export { SVGMobject } from './svg/svg_mobject.ts';
+export type { SVGOptions } from './svg/svg_mobject.ts';
+export { SVGParseError } from './svg/xml.ts';
+export { PathBuilder } from './core/path.ts';
+export type { BezierPath, BezierSubpath } from './core/path.ts';
 export { linear, easeIn, easeOut, easeInOut, elastic, bounce, spring } from './animation/base/easing.ts';
\ No newline at end of file
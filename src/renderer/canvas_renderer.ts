@@ -5,18 +5,39 @@ import { createCanvas, type Canvas, type SKRSContext2D } from '@napi-rs/canvas';
 import { promises as fs } from 'fs';
 import { dirname } from 'path';
 import type { EngineConfig } from '../core/types.ts';
+import type { Camera } from '../scene/camera.ts';
+
+/**
+ * Read access to the most recently rendered frame, handed to frame sinks.
+ */
+export interface FrameSource {
+  readonly width: number;
+  readonly height: number;
+  /** Frame encoded as PNG. */
+  toPNG(): Promise<Uint8Array>;
+  /** Raw, non-premultiplied RGBA pixels (width * height * 4 bytes). */
+  toRGBA(): Uint8Array;
+}
 
 /**
  * Renderer that manages a canvas and draws frames.
  */
-export class CanvasRenderer {
+export class CanvasRenderer implements FrameSource {
   private readonly canvas: Canvas;
   private readonly ctx: SKRSContext2D;
-  private readonly width: number;
-  private readonly height: number;
+  public readonly width: number;
+  public readonly height: number;
+
+  /** Pixels per scene unit. */
+  public readonly pixelsPerUnit: number;
+
+  /** Encodings of the current frame, reused until the next beginFrame(). */
+  private pngCache: Uint8Array | null = null;
+  private rgbaCache: Uint8Array | null = null;
 
   constructor(private readonly config: EngineConfig) {
     this.width = config.width;
+    this.pixelsPerUnit = config.width / (config.frameWidth ?? config.width);
     this.height = config.height;
     this.canvas = createCanvas(this.width, this.height) as unknown as Canvas;
     const ctx = this.canvas.getContext('2d');
@@ -31,8 +52,13 @@ export class CanvasRenderer {
     return ctx;
   }
 
-  /** Prepare frame: clear and set transforms for scene coordinates. */
-  public beginFrame(): void {
+  /**
+   * Prepare frame: clear and set transforms for scene coordinates,
+   * viewed through the camera if one is given.
+   */
+  public beginFrame(camera?: Camera): void {
+    this.pngCache = null;
+    this.rgbaCache = null;
     const ctx = this.ctx;
     ctx.save();
     // Reset to identity
@@ -46,9 +72,10 @@ export class CanvasRenderer {
       ctx.fillRect(0, 0, this.width, this.height);
     }
 
-    // Set mathematical coordinates: origin center, Y-up
+    // Set mathematical coordinates: origin center, Y-up, scene units
     ctx.translate(this.width / 2, this.height / 2);
-    ctx.scale(1, -1);
+    ctx.scale(this.pixelsPerUnit, -this.pixelsPerUnit);
+    camera?.applyTo(ctx);
   }
 
   /** Finish frame and return PNG bytes. */
@@ -65,6 +92,21 @@ export class CanvasRenderer {
     this.ctx.restore();
   }
 
+  /** Current canvas pixels as PNG (cached until the next frame begins). */
+  public async toPNG(): Promise<Uint8Array> {
+    if (!this.pngCache) this.pngCache = await this.canvas.encode('png');
+    return this.pngCache;
+  }
+
+  /** Current canvas pixels as raw RGBA (cached until the next frame begins). */
+  public toRGBA(): Uint8Array {
+    if (!this.rgbaCache) {
+      const data = this.ctx.getImageData(0, 0, this.width, this.height).data;
+      this.rgbaCache = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+    return this.rgbaCache;
+  }
+
   /** Write PNG to file asynchronously. */
   public async writePNG(filePath: string): Promise<void> {
     const buf = await this.endFrameToPNG();
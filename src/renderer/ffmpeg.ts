@@ -0,0 +1,72 @@
+/**
+ * ffmpeg integration: frames are streamed as raw RGBA into an ffmpeg child
+ * process over stdin, so no intermediate image files are written.
+ */
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import type { FrameSource } from './canvas_renderer.ts';
+import type { FrameSink } from './frame_sink.ts';
+import type { VideoFormat } from '../core/types.ts';
+
+/**
+ * Build the ffmpeg arguments for encoding raw RGBA frames read from stdin.
+ * @throws Error on a format outside VideoFormat (e.g. an unchecked CLI value)
+ */
+export function buildFfmpegArgs(width: number, height: number, fps: number, fmt: VideoFormat, outFile: string): string[] {
+  const common = ['-y', '-f', 'rawvideo', '-pix_fmt', 'rgba', '-s', `${width}x${height}`, '-framerate', String(fps), '-i', 'pipe:0'];
+  switch (fmt) {
+    case 'mp4':
+      return [...common, '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-crf', '18', '-preset', 'medium', outFile];
+    case 'webm':
+      return [...common, '-c:v', 'libvpx-vp9', '-b:v', '0', '-crf', '35', outFile];
+    case 'gif':
+      // Simple direct conversion; for best quality a palette pass is recommended.
+      return [...common, '-vf', `fps=${fps}`, outFile];
+    case 'mov':
+      return [...common, '-c:v', 'prores_ks', '-profile:v', '3', outFile];
+    default: {
+      const unknown: never = fmt;
+      throw new Error(`Unsupported video format '${String(unknown)}' (expected mp4, webm, gif or mov)`);
+    }
+  }
+}
+
+/**
+ * Streams frames into ffmpeg without intermediate files. The process is
+ * started on the first frame; each write waits for the pipe to drain.
+ */
+export class FfmpegPipeSink implements FrameSink {
+  private proc: Bun.Subprocess<'pipe', 'inherit', 'inherit'> | null = null;
+
+  constructor(
+    private readonly outFile: string,
+    private readonly format: VideoFormat,
+    private readonly fps: number,
+  ) {}
+
+  public async writeFrame(_index: number, frame: FrameSource): Promise<void> {
+    const proc = this.proc ?? (await this.start(frame.width, frame.height));
+    const stdin = proc.stdin;
+    // Both calls return promises while the pipe is full: awaiting them is the backpressure
+    await stdin.write(frame.toRGBA());
+    await stdin.flush();
+  }
+
+  public async close(): Promise<void> {
+    const proc = this.proc;
+    if (!proc) return;
+    this.proc = null;
+    await proc.stdin.end();
+    const code = await proc.exited;
+    if (code !== 0) {
+      throw new Error(`ffmpeg failed with exit code ${code}`);
+    }
+  }
+
+  private async start(width: number, height: number): Promise<Bun.Subprocess<'pipe', 'inherit', 'inherit'>> {
+    await fs.mkdir(dirname(this.outFile), { recursive: true }).catch(() => {});
+    const args = buildFfmpegArgs(width, height, this.fps, this.format, this.outFile);
+    this.proc = Bun.spawn(['ffmpeg', ...args], { stdin: 'pipe', stdout: 'inherit', stderr: 'inherit' });
+    return this.proc;
+  }
+}
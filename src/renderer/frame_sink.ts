@@ -0,0 +1,114 @@
+/**
+ * Frame sinks - destinations for rendered frames.
+ *
+ * The scene hands every frame to each registered sink in order, so a PNG
+ * sequence, a pipe into ffmpeg and an in-memory buffer are interchangeable.
+ */
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { FrameSource } from './canvas_renderer.ts';
+
+/** Destination for a stream of rendered frames. */
+export interface FrameSink {
+  /**
+   * Consume one frame. Resolves once the sink is ready for the next one,
+   * which is how slow consumers apply backpressure to the render loop.
+   * @param index Running frame number across the whole scene
+   */
+  writeFrame(index: number, frame: FrameSource): Promise<void>;
+  /**
+   * Whether writeFrame() reads the PNG encoding. Parallel workers then
+   * encode PNGs in their own thread instead of on the merging thread.
+   */
+  readonly usesPNG?: boolean;
+  /** Flush and release resources after the last frame. */
+  close(): Promise<void>;
+}
+
+/**
+ * Writes each frame as `<prefix>_00000.png`, `<prefix>_00001.png`, ...
+ */
+export class PngSequenceSink implements FrameSink {
+  public readonly usesPNG = true;
+  private dirReady = false;
+
+  constructor(
+    private readonly outDir: string,
+    private readonly prefix: string,
+  ) {}
+
+  /** File path for a frame index. */
+  public framePath(index: number): string {
+    return join(this.outDir, `${this.prefix}_${String(index).padStart(5, '0')}.png`);
+  }
+
+  public async writeFrame(index: number, frame: FrameSource): Promise<void> {
+    if (!this.dirReady) {
+      await fs.mkdir(this.outDir, { recursive: true }).catch(() => {});
+      this.dirReady = true;
+    }
+    await fs.writeFile(this.framePath(index), await frame.toPNG());
+  }
+
+  public async close(): Promise<void> {
+    // Files are complete as soon as they are written
+  }
+}
+
+/**
+ * Keeps copies of raw RGBA frames in memory (useful for tests and previews).
+ */
+export class MemoryFrameSink implements FrameSink {
+  /** Captured frames in the order received. */
+  public readonly frames: Uint8Array[] = [];
+  /** Frame indices matching `frames`. */
+  public readonly indices: number[] = [];
+  public width = 0;
+  public height = 0;
+  public closed = false;
+
+  public async writeFrame(index: number, frame: FrameSource): Promise<void> {
+    this.width = frame.width;
+    this.height = frame.height;
+    this.frames.push(frame.toRGBA().slice());
+    this.indices.push(index);
+  }
+
+  public async close(): Promise<void> {
+    this.closed = true;
+  }
+}
+
+/**
+ * Joins the renders of several scenes into one stream: each render's
+ * frames go on to the inner sink numbered after the previous render's,
+ * and closing only ends the current render. finish() closes the inner sink.
+ */
+export class ConcatFrameSink implements FrameSink {
+  /** Index of the current render's first frame in the joined stream. */
+  private offset = 0;
+  /** Frames of the current render so far. */
+  private count = 0;
+
+  constructor(private readonly inner: FrameSink) {}
+
+  public get usesPNG(): boolean {
+    return this.inner.usesPNG ?? false;
+  }
+
+  public async writeFrame(index: number, frame: FrameSource): Promise<void> {
+    this.count = Math.max(this.count, index + 1);
+    await this.inner.writeFrame(this.offset + index, frame);
+  }
+
+  /** End the current render; the next one continues the numbering. */
+  public async close(): Promise<void> {
+    this.offset += this.count;
+    this.count = 0;
+  }
+
+  /** Close the inner sink after the last render. */
+  public async finish(): Promise<void> {
+    await this.inner.close();
+  }
+}
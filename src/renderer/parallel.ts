@@ -0,0 +1,175 @@
+/**
+ * Parallel rendering - splits a scene's timeline across Bun workers.
+ *
+ * Every worker imports the scene module and runs construct() on its own
+ * CanvasRenderer, ticking every animation but drawing only the frames of
+ * its partition. Frames are dealt out in small chunks round-robin, so all
+ * workers stay busy while the main thread merges their output in frame
+ * order into the regular frame sinks. Scenes must be deterministic
+ * (no unseeded randomness) for the workers' timelines to agree.
+ */
+import { createCanvas, ImageData } from '@napi-rs/canvas';
+import type { FrameSource } from './canvas_renderer.ts';
+import type { FrameSink } from './frame_sink.ts';
+import type { CliConfig, FramePartition, RenderOutputOptions, SceneConfig } from '../core/types.ts';
+
+/** Whether a frame index belongs to a worker's partition. */
+export function ownsFrame(partition: FramePartition, index: number): boolean {
+  return Math.floor(index / partition.chunkSize) % partition.count === partition.index;
+}
+
+/** Scene to render, described so a worker can load it on its own. */
+export interface SceneJob {
+  sceneFile: string;
+  /** Scene class export; omitted for scene documents */
+  sceneName?: string;
+  /** File-level config (Level 2) as resolved by the caller. */
+  fileConfig?: SceneConfig;
+  /** Command-line overrides (Level 4). */
+  cliConfig?: CliConfig;
+  output: RenderOutputOptions;
+}
+
+/** Options for renderParallel(). */
+export interface ParallelRenderOptions {
+  /** Number of worker threads. */
+  workers: number;
+  /** Consecutive frames dealt to a worker at a time (default 4). */
+  chunkSize?: number;
+}
+
+/** Sent to a worker to start rendering. */
+export interface WorkerStart {
+  type: 'start';
+  job: SceneJob;
+  /** Encode PNGs in the worker as well as raw RGBA. */
+  encodePNG: boolean;
+  /** Frames a worker may send ahead before waiting for acknowledgements. */
+  window: number;
+}
+
+/** Acknowledges that the main thread consumed one frame. */
+export interface WorkerAck {
+  type: 'ack';
+}
+
+export type MainToWorker = WorkerStart | WorkerAck;
+
+export type WorkerToMain =
+  | { type: 'frame'; index: number; width: number; height: number; rgba: Uint8Array; png: Uint8Array | null }
+  | { type: 'done' }
+  | { type: 'error'; message: string; stack?: string };
+
+/** Frame received from a worker. */
+class TransferredFrame implements FrameSource {
+  constructor(
+    public readonly width: number,
+    public readonly height: number,
+    private readonly rgba: Uint8Array,
+    private png: Uint8Array | null,
+  ) {}
+
+  public async toPNG(): Promise<Uint8Array> {
+    if (!this.png) {
+      // Worker did not encode: rebuild the picture on this thread
+      const canvas = createCanvas(this.width, this.height);
+      const pixels = new Uint8ClampedArray(this.rgba.buffer, this.rgba.byteOffset, this.rgba.byteLength);
+      canvas.getContext('2d').putImageData(new ImageData(pixels, this.width, this.height), 0, 0);
+      this.png = await canvas.encode('png');
+    }
+    return this.png;
+  }
+
+  public toRGBA(): Uint8Array {
+    return this.rgba;
+  }
+}
+
+/**
+ * Render a scene with several workers and write its frames, in order, to the given sinks.
+ * Sinks are closed once the last frame has been written.
+ * @throws Error if a worker fails or a frame goes missing
+ */
+export async function renderParallel(job: SceneJob, sinks: readonly FrameSink[], options: ParallelRenderOptions): Promise<void> {
+  const count = Math.max(1, Math.floor(options.workers));
+  const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? 4));
+  const encodePNG = sinks.some((s) => s.usesPNG === true);
+  const workers: Worker[] = [];
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const pending = new Map<number, { frame: TransferredFrame; worker: Worker }>();
+      let next = 0;
+      let running = count;
+      let failed = false;
+      let draining: Promise<void> = Promise.resolve();
+
+      const fail = (err: unknown): void => {
+        if (failed) return;
+        failed = true;
+        reject(err instanceof Error ? err : new Error(String(err)));
+      };
+
+      // Write frames to the sinks strictly in index order, acknowledging each one
+      const drain = async (): Promise<void> => {
+        for (let item = pending.get(next); item && !failed; item = pending.get(next)) {
+          pending.delete(next);
+          for (let i = 0; i < sinks.length; i++) await sinks[i]!.writeFrame(next, item.frame);
+          item.worker.postMessage({ type: 'ack' } satisfies MainToWorker);
+          next++;
+        }
+      };
+      const schedule = (): void => {
+        draining = draining.then(drain).catch(fail);
+      };
+
+      for (let index = 0; index < count; index++) {
+        const worker = new Worker(new URL('./render_worker.ts', import.meta.url).href);
+        workers.push(worker);
+        worker.onmessage = (event: MessageEvent<WorkerToMain>) => {
+          const msg = event.data;
+          switch (msg.type) {
+            case 'frame':
+              pending.set(msg.index, { frame: new TransferredFrame(msg.width, msg.height, msg.rgba, msg.png), worker });
+              schedule();
+              break;
+            case 'done':
+              running--;
+              if (running === 0) {
+                draining = draining.then(() => {
+                  if (pending.size > 0) throw new Error(`Parallel render is missing frame ${next}`);
+                  resolve();
+                }).catch(fail);
+              }
+              break;
+            case 'error': {
+              const err = new Error(`Render worker ${index} failed: ${msg.message}`);
+              if (msg.stack) err.stack = msg.stack;
+              fail(err);
+              break;
+            }
+          }
+        };
+        worker.onerror = (event: ErrorEvent) => fail(event.error ?? new Error(event.message));
+
+        const partition: FramePartition = { index, count, chunkSize };
+        const output: RenderOutputOptions = {
+          ...job.output,
+          savePNGs: false,
+          // One worker is enough to capture the final picture
+          saveLastFrame: job.output.saveLastFrame && index === 0,
+          partition,
+        };
+        worker.postMessage({
+          type: 'start',
+          job: { ...job, output },
+          encodePNG,
+          window: chunkSize * 2,
+        } satisfies MainToWorker);
+      }
+    });
+  } finally {
+    for (const worker of workers) worker.terminate();
+    for (let i = 0; i < sinks.length; i++) await sinks[i]!.close();
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Worker entry for parallel rendering: renders one partition of a scene's
+ * timeline and posts its frames back to the main thread.
+ */
+import { loadScene } from '../scene/scene_loader.ts';
+import type { FrameSource } from './canvas_renderer.ts';
+import type { FrameSink } from './frame_sink.ts';
+import type { MainToWorker, WorkerStart, WorkerToMain } from './parallel.ts';
+
+declare var self: Worker;
+
+/**
+ * Posts frames to the main thread, pausing once `window` frames
+ * are waiting to be merged.
+ */
+class PostingSink implements FrameSink {
+  private inFlight = 0;
+  private resume: (() => void) | null = null;
+
+  constructor(
+    private readonly encodePNG: boolean,
+    private readonly window: number,
+  ) {}
+
+  public async writeFrame(index: number, frame: FrameSource): Promise<void> {
+    // Copy into fresh buffers: held frames reuse the renderer's cached ones
+    const rgba = new Uint8Array(frame.toRGBA());
+    const png = this.encodePNG ? new Uint8Array(await frame.toPNG()) : null;
+    const msg: WorkerToMain = { type: 'frame', index, width: frame.width, height: frame.height, rgba, png };
+    self.postMessage(msg, png ? [rgba.buffer, png.buffer] : [rgba.buffer]);
+    this.inFlight++;
+    if (this.inFlight >= this.window) {
+      await new Promise<void>((resolve) => {
+        this.resume = resolve;
+      });
+    }
+  }
+
+  /** The main thread consumed one frame. */
+  public ack(): void {
+    this.inFlight--;
+    if (this.resume && this.inFlight < this.window) {
+      const resume = this.resume;
+      this.resume = null;
+      resume();
+    }
+  }
+
+  public async close(): Promise<void> {
+    // 'done' is posted by start() so a failed render never looks complete
+  }
+}
+
+let sink: PostingSink | null = null;
+
+async function start(msg: WorkerStart): Promise<void> {
+  const { job } = msg;
+  const { Ctor } = await loadScene(job.sceneFile, job.sceneName);
+  sink = new PostingSink(msg.encodePNG, msg.window);
+  const scene = new Ctor(job.fileConfig, job.output, job.cliConfig);
+  await scene.addFrameSink(sink).render();
+  self.postMessage({ type: 'done' } satisfies WorkerToMain);
+}
+
+self.onmessage = (event: MessageEvent<MainToWorker>) => {
+  const msg = event.data;
+  if (msg.type === 'ack') {
+    sink?.ack();
+    return;
+  }
+  start(msg).catch((err: unknown) => {
+    const e = err instanceof Error ? err : new Error(String(err));
+    self.postMessage({ type: 'error', message: e.message, stack: e.stack } satisfies WorkerToMain);
+  });
+};
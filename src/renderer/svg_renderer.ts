@@ -0,0 +1,301 @@
+/**
+ * SVGRenderer - draws frames as SVG documents instead of pixels.
+ *
+ * Mobjects keep drawing through the canvas API: the renderer hands them a
+ * recording context that tracks transforms, alpha and style the way a canvas
+ * does, and turns every fill() and stroke() into a <path> element in pixel
+ * coordinates. Whatever a frame paints (shapes, groups, glyph outlines of
+ * TextChar) therefore comes out as the same geometry, just scalable.
+ */
+import type { SKRSContext2D } from '@napi-rs/canvas';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
+import type { EngineConfig, FillRule } from '../core/types.ts';
+import type { Camera } from '../scene/camera.ts';
+import { IDENTITY, matrixScale, multiply, type Matrix } from '../svg/matrix.ts';
+import { bezierToPathData } from '../svg/path_data.ts';
+
+/** Canvas state covered by save() and restore(). */
+interface DrawState {
+  matrix: Matrix;
+  globalAlpha: number;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  lineDash: number[];
+}
+
+/** Escape a value for use inside a double-quoted attribute. */
+function attr(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/** Paint and opacity attributes; 8-digit hex colors move their alpha into the opacity. */
+function paintAttrs(kind: 'fill' | 'stroke', color: string, alpha: number): string {
+  let paint = color;
+  let opacity = alpha;
+  const m = /^#([0-9a-f]{6})([0-9a-f]{2})$/i.exec(color);
+  if (m) {
+    paint = `#${m[1]}`;
+    opacity *= parseInt(m[2]!, 16) / 255;
+  }
+  const out = ` ${kind}="${attr(paint)}"`;
+  return opacity < 1 ? `${out} ${kind}-opacity="${Math.round(opacity * 1000) / 1000}"` : out;
+}
+
+/**
+ * Records canvas drawing calls as SVG elements. Implements the part of the
+ * 2D context API that mobjects use; everything else is absent.
+ */
+class SVGRecordingContext {
+  public readonly elements: string[] = [];
+  private state: DrawState = SVGRecordingContext.initialState();
+  private readonly stack: DrawState[] = [];
+
+  /** Path under construction: finished pieces in pixels plus the current local piece. */
+  private pathDone: BezierPath = [];
+  private builder = new PathBuilder();
+  private builderMatrix: Matrix = IDENTITY;
+
+  private static initialState(): DrawState {
+    return { matrix: IDENTITY, globalAlpha: 1, fillStyle: '#000000', strokeStyle: '#000000', lineWidth: 1, lineDash: [] };
+  }
+
+  public get globalAlpha(): number {
+    return this.state.globalAlpha;
+  }
+  public set globalAlpha(value: number) {
+    if (value >= 0 && value <= 1) this.state.globalAlpha = value;
+  }
+
+  public get fillStyle(): string {
+    return this.state.fillStyle;
+  }
+  public set fillStyle(value: string) {
+    this.state.fillStyle = String(value);
+  }
+
+  public get strokeStyle(): string {
+    return this.state.strokeStyle;
+  }
+  public set strokeStyle(value: string) {
+    this.state.strokeStyle = String(value);
+  }
+
+  public get lineWidth(): number {
+    return this.state.lineWidth;
+  }
+  public set lineWidth(value: number) {
+    if (value > 0) this.state.lineWidth = value;
+  }
+
+  public setLineDash(segments: number[]): void {
+    this.state.lineDash = [...segments];
+  }
+
+  public save(): void {
+    this.stack.push({ ...this.state });
+  }
+
+  public restore(): void {
+    const prev = this.stack.pop();
+    if (prev) this.state = prev;
+  }
+
+  /** Start over with an empty document and default state. */
+  public reset(): void {
+    this.elements.length = 0;
+    this.stack.length = 0;
+    this.state = SVGRecordingContext.initialState();
+    this.beginPath();
+  }
+
+  // Transforms --------------------------------------------------------------
+
+  public setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.matrix = [a, b, c, d, e, f];
+  }
+
+  public transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.matrix = multiply(this.state.matrix, [a, b, c, d, e, f]);
+  }
+
+  public translate(x: number, y: number): void {
+    this.transform(1, 0, 0, 1, x, y);
+  }
+
+  public rotate(angle: number): void {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  public scale(x: number, y: number): void {
+    this.transform(x, 0, 0, y, 0, 0);
+  }
+
+  // Paths -------------------------------------------------------------------
+
+  public beginPath(): void {
+    this.pathDone = [];
+    this.builder = new PathBuilder();
+    this.builderMatrix = this.state.matrix;
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.local().moveTo(x, y);
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.local().lineTo(x, y);
+  }
+
+  public quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this.local().quadraticCurveTo(cpx, cpy, x, y);
+  }
+
+  public bezierCurveTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number): void {
+    this.local().bezierCurveTo(c1x, c1y, c2x, c2y, x, y);
+  }
+
+  public arc(cx: number, cy: number, r: number, start: number, end: number, anticlockwise?: boolean): void {
+    this.local().arc(cx, cy, r, start, end, anticlockwise);
+  }
+
+  public rect(x: number, y: number, w: number, h: number): void {
+    this.local().rect(x, y, w, h);
+  }
+
+  public closePath(): void {
+    this.local().closePath();
+  }
+
+  public fill(fillRule: FillRule = 'nonzero'): void {
+    const d = this.pathData();
+    if (!d) return;
+    const rule = fillRule === 'evenodd' ? ' fill-rule="evenodd"' : '';
+    this.elements.push(`<path d="${d}"${paintAttrs('fill', this.state.fillStyle, this.state.globalAlpha)}${rule}/>`);
+  }
+
+  public stroke(): void {
+    const d = this.pathData();
+    if (!d) return;
+    // Canvas scales the line width with the current transform
+    const k = matrixScale(this.state.matrix);
+    const width = Math.round(this.state.lineWidth * k * 1000) / 1000;
+    let el = `<path d="${d}" fill="none"${paintAttrs('stroke', this.state.strokeStyle, this.state.globalAlpha)} stroke-width="${width}"`;
+    if (this.state.lineDash.length > 0) el += ` stroke-dasharray="${this.state.lineDash.map((v) => Math.round(v * k * 1000) / 1000).join(' ')}"`;
+    this.elements.push(`${el}/>`);
+  }
+
+  public fillRect(x: number, y: number, w: number, h: number): void {
+    this.beginPath();
+    this.rect(x, y, w, h);
+    this.fill();
+    this.beginPath();
+  }
+
+  public strokeRect(x: number, y: number, w: number, h: number): void {
+    this.beginPath();
+    this.rect(x, y, w, h);
+    this.stroke();
+    this.beginPath();
+  }
+
+  /** Clearing only affects what was drawn before; nothing is recorded. */
+  public clearRect(): void {}
+
+  /**
+   * Builder for new path commands. Canvas maps points through the transform
+   * current when they are added, so a transform change mid-path closes off
+   * the recorded piece in pixel coordinates.
+   */
+  private local(): PathBuilder {
+    if (this.builderMatrix !== this.state.matrix) {
+      this.flushBuilder();
+      this.builderMatrix = this.state.matrix;
+    }
+    return this.builder;
+  }
+
+  private flushBuilder(): void {
+    const piece = this.builder.toPath();
+    if (piece.length > 0) this.pathDone.push(...piece.map((sp) => ({ points: mapPoints(sp.points, this.builderMatrix), closed: sp.closed })));
+    this.builder = new PathBuilder();
+  }
+
+  /** Current path as pixel-space path data. */
+  private pathData(): string {
+    const pending = this.builder.toPath();
+    return bezierToPathData(this.pathDone) + bezierToPathData(pending, this.builderMatrix);
+  }
+}
+
+function mapPoints(points: Float64Array, m: Matrix): Float64Array {
+  const out = new Float64Array(points.length);
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    const x = points[i]!;
+    const y = points[i + 1]!;
+    out[i] = m[0] * x + m[2] * y + m[4];
+    out[i + 1] = m[1] * x + m[3] * y + m[5];
+  }
+  return out;
+}
+
+/**
+ * Renderer producing one SVG document per frame, with the same coordinate
+ * system and camera handling as CanvasRenderer.
+ */
+export class SVGRenderer {
+  private readonly ctx = new SVGRecordingContext();
+  public readonly width: number;
+  public readonly height: number;
+
+  /** Pixels per scene unit. */
+  public readonly pixelsPerUnit: number;
+
+  constructor(private readonly config: EngineConfig) {
+    this.width = config.width;
+    this.height = config.height;
+    this.pixelsPerUnit = config.width / (config.frameWidth ?? config.width);
+  }
+
+  /** Recording context with scene coordinate system (origin center, Y-up). */
+  public getContext(): SKRSContext2D {
+    return this.ctx as unknown as SKRSContext2D;
+  }
+
+  /**
+   * Start a new document: background, then scene coordinates
+   * viewed through the camera if one is given.
+   */
+  public beginFrame(camera?: Camera): void {
+    const ctx = this.ctx;
+    ctx.reset();
+    if (this.config.backgroundColor !== 'transparent') {
+      ctx.fillStyle = this.config.backgroundColor;
+      ctx.fillRect(0, 0, this.width, this.height);
+    }
+    ctx.translate(this.width / 2, this.height / 2);
+    ctx.scale(this.pixelsPerUnit, -this.pixelsPerUnit);
+    camera?.applyTo(this.getContext());
+  }
+
+  /** The frame drawn since beginFrame() as a standalone SVG document. */
+  public toSVG(): string {
+    const { width, height } = this;
+    return (
+      `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n` +
+      // Match canvas stroke defaults
+      `<g stroke-miterlimit="10">\n${this.ctx.elements.join('\n')}\n</g>\n</svg>\n`
+    );
+  }
+
+  /** Write the current frame as an SVG file. */
+  public async writeSVG(filePath: string): Promise<void> {
+    await fs.mkdir(dirname(filePath), { recursive: true }).catch(() => {});
+    await fs.writeFile(filePath, this.toSVG());
+  }
+}
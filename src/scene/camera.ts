@@ -0,0 +1,64 @@
+/**
+ * Camera - the view onto scene space that the renderer maps to the canvas.
+ *
+ * The camera's position is the scene point shown at the canvas center, its
+ * rotation turns the view and its zoom magnifies it (2 shows half as much
+ * of the scene). Being a Mobject, it can be moved and rotated with the
+ * regular animations, so `camera.moveTo(...)` plays like any other.
+ */
+import type { SKRSContext2D } from '@napi-rs/canvas';
+import { Mobject } from '../core/mobject.ts';
+import { ZoomTo, FocusOn } from '../animation/transforms/camera.ts';
+
+export class Camera extends Mobject {
+  /** Magnification factor (> 0). */
+  private _zoom: number = 1;
+
+  constructor() {
+    super('Camera');
+  }
+
+  /** Current magnification. */
+  public get zoom(): number {
+    return this._zoom;
+  }
+
+  /** Set magnification; non-positive values are ignored. */
+  public setZoom(zoom: number): this {
+    if (zoom > 0) this._zoom = zoom;
+    return this;
+  }
+
+  /** Return to the default view: centered on the origin, unrotated, zoom 1. */
+  public reset(): this {
+    this._zoom = 1;
+    return this.setPosition(0, 0).setRotation(0);
+  }
+
+  /**
+   * Apply the view to a context already set up for centered, Y-up scene coordinates.
+   */
+  public applyTo(ctx: SKRSContext2D): void {
+    if (this._zoom !== 1) ctx.scale(this._zoom, this._zoom);
+    if (this._rotation !== 0) ctx.rotate(-this._rotation);
+    if (this._position[0] !== 0 || this._position[1] !== 0) ctx.translate(-this._position[0]!, -this._position[1]!);
+  }
+
+  /** Create a ZoomTo animation to an absolute magnification. */
+  public zoomTo(zoom: number, duration?: number): ZoomTo {
+    const anim = new ZoomTo(this, zoom);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /** Create a FocusOn animation centering the view on a mobject. */
+  public focusOn(target: Mobject, duration?: number): FocusOn {
+    const anim = new FocusOn(this, target);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  protected createPath(_ctx: SKRSContext2D): void {
+    // The camera itself is never drawn
+  }
+}
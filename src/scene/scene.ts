@@ -1,19 +1,27 @@
 /**
  * Scene - orchestrates animations and rendering.
  */
+import type { SKRSContext2D } from '@napi-rs/canvas';
 import { CanvasRenderer } from '../renderer/canvas_renderer.ts';
+import { SVGRenderer } from '../renderer/svg_renderer.ts';
+import { PngSequenceSink, type FrameSink } from '../renderer/frame_sink.ts';
+import { ownsFrame } from '../renderer/parallel.ts';
+import { Camera } from './camera.ts';
 import { clamp } from '../core/math.ts';
-import type { EngineConfig, RenderOutputOptions, SceneConfig } from '../core/types.ts';
+import type { CliConfig, EngineConfig, RenderOutputOptions, SceneConfig } from '../core/types.ts';
 import { resolveConfig } from '../core/config.ts';
 import type { Mobject } from '../core/mobject.ts';
-import type { Animation } from '../animation/base/animation.ts';
+import { inDrawOrder, insertRelative, moveToBack, moveToFront, removeFromList } from '../core/draw_order.ts';
+import type { Animation, SceneMembership } from '../animation/base/animation.ts';
+import { loadData, type LoadDataOptions } from '../data/loader.ts';
+import { DataError, type DataTable } from '../data/table.ts';
 import { join } from 'path';
 import { promises as fs } from 'fs';
 
 /**
  * Base Scene class to subclass by users.
  */
-export abstract class Scene {
+export abstract class Scene implements SceneMembership {
   /** Optional scene-level configuration override (Level 3). */
   public static config?: SceneConfig;
 
@@ -29,21 +37,32 @@ export abstract class Scene {
   /** Render output options. */
   protected readonly output: RenderOutputOptions;
 
-  /** Objects in draw order. */
+  /** View onto the scene; animate it with play() like any mobject. */
+  public readonly camera: Camera = new Camera();
+
+  /** Objects in insertion order; drawn sorted by z-index. */
   protected readonly objects: Mobject[] = [];
 
-  /** Running frame counter across all play() calls (for PNG naming). */
+  /** Destinations receiving every rendered frame, in registration order. */
+  private readonly sinks: FrameSink[] = [];
+
+  /** Vector renderer, created on the first SVG export. */
+  private svgRenderer: SVGRenderer | null = null;
+
+  /** Running frame counter across all play() and wait() calls. */
   private frameCounter: number = 0;
 
-  constructor(fileConfig: SceneConfig | undefined, output: RenderOutputOptions) {
+  constructor(fileConfig: SceneConfig | undefined, output: RenderOutputOptions, cliConfig?: CliConfig) {
     // Resolve hierarchical config
     const sceneCtor = this.constructor as typeof Scene;
     const sceneLevel = sceneCtor.config;
-    this.config = resolveConfig(fileConfig, sceneLevel);
+    this.config = resolveConfig(fileConfig, sceneLevel, cliConfig);
 
     this.renderer = new CanvasRenderer(this.config);
     this.output = output;
     this.name = sceneCtor.name || 'Scene';
+
+    if (output.savePNGs) this.sinks.push(new PngSequenceSink(output.outDir, this.name));
   }
 
   /** Hook for user construction (create objects, etc.). */
@@ -51,6 +70,27 @@ export abstract class Scene {
     // Users override
   }
 
+  /**
+   * Run construct() and close every frame sink afterwards,
+   * so streaming encoders can finalize their output.
+   */
+  public async render(): Promise<void> {
+    try {
+      await this.construct();
+    } finally {
+      for (let i = 0; i < this.sinks.length; i++) await this.sinks[i]!.close();
+    }
+  }
+
+  /**
+   * Send every subsequent frame to an additional destination
+   * (e.g. an ffmpeg pipe or an in-memory buffer).
+   */
+  public addFrameSink(sink: FrameSink): this {
+    this.sinks.push(sink);
+    return this;
+  }
+
   /**
    * Expose effective configuration for this scene.
    */
@@ -58,22 +98,126 @@ export abstract class Scene {
     return this.config;
   }
 
-  /** Add objects to the scene in draw order. */
+  /** Width of the visible frame in scene units (at camera zoom 1). */
+  public get frameWidth(): number {
+    return this.config.width / this.renderer.pixelsPerUnit;
+  }
+
+  /** Height of the visible frame in scene units (at camera zoom 1). */
+  public get frameHeight(): number {
+    return this.config.height / this.renderer.pixelsPerUnit;
+  }
+
+  /**
+   * Load the data file configured under a name (`data` in the config, or
+   * `--data name=path` on the CLI), so one scene can render many datasets.
+   * @throws DataError when no file is configured for the name or it cannot be read
+   */
+  public async loadData(name: string, options?: LoadDataOptions): Promise<DataTable> {
+    const path = this.config.data?.[name];
+    if (path === undefined) {
+      const known = Object.keys(this.config.data ?? {});
+      const hint = known.length > 0 ? `configured: ${known.join(', ')}` : 'none are configured';
+      throw new DataError(`No data file named "${name}" (${hint}); pass --data ${name}=path.csv`);
+    }
+    return loadData(path, options);
+  }
+
+  /** Add objects to the scene in draw order (re-adding moves an object to the front). */
   public add(...objs: Mobject[]): this {
-    const arr = this.objects;
-    for (let i = 0, n = objs.length; i < n; i++) arr.push(objs[i]!);
+    moveToFront(this.objects, objs);
+    return this;
+  }
+
+  /** Remove objects from the scene; they are no longer drawn. */
+  public remove(...objs: Mobject[]): this {
+    removeFromList(this.objects, objs);
+    return this;
+  }
+
+  /**
+   * Swap an object for another at the same draw position.
+   * Adds the new object on top if the old one is not in the scene.
+   */
+  public replace(oldObj: Mobject, newObj: Mobject): this {
+    if (oldObj === newObj) return this;
+    removeFromList(this.objects, [newObj]);
+    const idx = this.objects.indexOf(oldObj);
+    if (idx < 0) this.objects.push(newObj);
+    else this.objects[idx] = newObj;
+    return this;
+  }
+
+  /** Remove every object from the scene. */
+  public clear(): this {
+    this.objects.length = 0;
+    return this;
+  }
+
+  /** Whether an object is currently part of the scene. */
+  public contains(obj: Mobject): boolean {
+    return this.objects.includes(obj);
+  }
+
+  /** Scene objects in insertion order. */
+  public getObjects(): readonly Mobject[] {
+    return this.objects;
+  }
+
+  /** Draw objects above all others with the same z-index (adds them if absent). */
+  public bringToFront(...objs: Mobject[]): this {
+    moveToFront(this.objects, objs);
+    return this;
+  }
+
+  /** Draw objects below all others with the same z-index (adds them if absent). */
+  public sendToBack(...objs: Mobject[]): this {
+    moveToBack(this.objects, objs);
     return this;
   }
 
-  /** Draw everything for current frame. */
-  protected draw(): void {
-    const ctx = this.renderer.getContext();
-    for (let i = 0, n = this.objects.length; i < n; i++) {
-      const obj = this.objects[i]!;
+  /** Place an object directly above a reference object already in the scene. */
+  public insertAbove(obj: Mobject, ref: Mobject): this {
+    insertRelative(this.objects, obj, ref, true);
+    return this;
+  }
+
+  /** Place an object directly below a reference object already in the scene. */
+  public insertBelow(obj: Mobject, ref: Mobject): this {
+    insertRelative(this.objects, obj, ref, false);
+    return this;
+  }
+
+  /** Draw everything for current frame (onto the canvas unless another context is given). */
+  protected draw(ctx: SKRSContext2D = this.renderer.getContext()): void {
+    const ordered = inDrawOrder(this.objects);
+    for (let i = 0, n = ordered.length; i < n; i++) {
+      const obj = ordered[i]!;
       obj.draw(ctx);
     }
   }
 
+  /**
+   * The scene as it currently looks, as an SVG document.
+   * Call it between play() and wait() calls to export any moment of the timeline.
+   */
+  public toSVG(): string {
+    return this.drawSVG().toSVG();
+  }
+
+  /** Write the scene as it currently looks to an SVG file. */
+  public async saveSVG(filePath: string): Promise<void> {
+    await this.drawSVG().writeSVG(filePath);
+  }
+
+  /** Record the current state with the vector renderer. */
+  private drawSVG(): SVGRenderer {
+    const svg = (this.svgRenderer ??= new SVGRenderer(this.config));
+    svg.beginFrame(this.camera);
+    this.draw(svg.getContext());
+    return svg;
+  }
+
   /**
    * Play animations in parallel.
    */
@@ -92,13 +236,9 @@ export abstract class Scene {
     const fps = this.config.fps;
     const totalFrames = Math.max(1, Math.ceil(maxDur * fps));
 
-    // Ensure out dir exists if writing PNGs
-    if (this.output.savePNGs) {
-      await fs.mkdir(this.output.outDir, { recursive: true }).catch(() => {});
-    }
-
     for (let frame = 0; frame < totalFrames; frame++) {
       const tSec = frame / fps;
+      const index = this.frameCounter++;
 
       // Tick each animation
       for (let i = 0; i < anims.length; i++) {
@@ -106,32 +246,107 @@ export abstract class Scene {
         const t = clamp(tSec / a.duration, 0, 1);
         a.tick(t);
       }
+      // Updaters see this frame's animated state
+      this.runUpdaters(1 / fps);
 
-      // Render frame
-      this.renderer.beginFrame();
+      // Frames nobody consumes are not rendered
+      if (!this.wantsFrame(index)) continue;
+      this.renderer.beginFrame(this.camera);
       this.draw();
+      this.renderer.endFrame();
+      await this.emitFrame(index);
+    }
 
-      if (this.output.savePNGs) {
-        const file = join(this.output.outDir, `${this.name}_${String(this.frameCounter).padStart(5, '0')}.png`);
-        await this.renderer.writePNG(file);
-        this.frameCounter++;
-      } else {
-        // Not writing intermediate frames, just end frame
+    // Cleanup, then let animations adjust scene membership
+    for (let i = 0; i < anims.length; i++) anims[i]!.cleanup();
+    for (let i = 0; i < anims.length; i++) anims[i]!.finish(this);
+
+    await this.saveLastFrame();
+  }
+
+  /**
+   * Hold the current picture for a number of seconds.
+   * Emits static frames so frame numbering and video timing stay continuous.
+   */
+  public async wait(seconds: number = 1): Promise<void> {
+    if (!(seconds > 0)) return;
+    const totalFrames = Math.max(1, Math.ceil(seconds * this.config.fps));
+
+    const first = this.frameCounter;
+    this.frameCounter += totalFrames;
+    // Updaters keep things moving: step and render every frame
+    if (this.hasUpdaters()) {
+      for (let index = first; index < first + totalFrames; index++) {
+        this.runUpdaters(1 / this.config.fps);
+        if (!this.wantsFrame(index)) continue;
+        this.renderer.beginFrame(this.camera);
+        this.draw();
         this.renderer.endFrame();
+        await this.emitFrame(index);
       }
+      await this.saveLastFrame();
+      return;
     }
 
-    // Cleanup
-    for (let i = 0; i < anims.length; i++) anims[i]!.cleanup();
+    // Nothing changes while waiting: render at most once; the renderer caches its encodings.
+    let rendered = false;
+    for (let index = first; index < first + totalFrames; index++) {
+      if (!this.wantsFrame(index)) continue;
+      if (!rendered) {
+        this.renderer.beginFrame(this.camera);
+        this.draw();
+        this.renderer.endFrame();
+        rendered = true;
+      }
+      await this.emitFrame(index);
+    }
 
-    // Save last frame if requested and not already saved as PNGs
-    if (this.output.saveLastFrame && !this.output.savePNGs) {
-      await fs.mkdir(this.output.outDir, { recursive: true }).catch(() => {});
-      const last = join(this.output.outDir, `${this.name}_last.png`);
-      // Re-render once more to capture the last state
-      this.renderer.beginFrame();
-      this.draw();
-      await this.renderer.writePNG(last);
+    await this.saveLastFrame();
+  }
+
+  /** Whether the camera or any scene object has updaters. */
+  private hasUpdaters(): boolean {
+    return this.camera.hasUpdaters() || this.objects.some((obj) => obj.hasUpdaters());
+  }
+
+  /**
+   * Run updaters of the camera and every scene object, whether or not the
+   * frame is rendered, so every partition of a parallel render sees the same state.
+   */
+  private runUpdaters(dt: number): void {
+    this.camera.update(dt);
+    for (const obj of [...this.objects]) obj.update(dt);
+  }
+
+  /** Whether a frame has any consumer and belongs to this scene's partition. */
+  private wantsFrame(index: number): boolean {
+    if (this.sinks.length === 0) return false;
+    const partition = this.output.partition;
+    return !partition || ownsFrame(partition, index);
+  }
+
+  /** Hand the current canvas to every sink. */
+  private async emitFrame(index: number): Promise<void> {
+    for (let i = 0; i < this.sinks.length; i++) await this.sinks[i]!.writeFrame(index, this.renderer);
+  }
+
+  private async ensureOutDir(): Promise<void> {
+    await fs.mkdir(this.output.outDir, { recursive: true }).catch(() => {});
+  }
+
+  /** Save last frame if requested and not already saved as PNGs. */
+  private async saveLastFrame(): Promise<void> {
+    if (!this.output.saveLastFrame) return;
+    if (this.output.lastFrameFormat === 'svg') {
+      await this.saveSVG(join(this.output.outDir, `${this.name}_last.svg`));
+      return;
     }
+    if (this.output.savePNGs) return;
+    await this.ensureOutDir();
+    const last = join(this.output.outDir, `${this.name}_last.png`);
+    // Re-render once more to capture the last state
+    this.renderer.beginFrame(this.camera);
+    this.draw();
+    await this.renderer.writePNG(last);
   }
 }
@@ -0,0 +1,100 @@
+/**
+ * Loading scene classes from user modules and scene documents (shared by
+ * the CLI and render workers).
+ */
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { promises as fs } from 'fs';
+import { Scene } from './scene.ts';
+import type { CliConfig, FileConfig, RenderOutputOptions, SceneConfig } from '../core/types.ts';
+import { isSceneDocumentPath } from '../declarative/loader.ts';
+import { loadSceneDocument } from '../declarative/document_scene.ts';
+
+/** Constructor signature every Scene subclass exposes. */
+export interface SceneConstructor {
+  new (fileConfig: SceneConfig | undefined, output: RenderOutputOptions, cliConfig?: CliConfig): Scene;
+  /** Scene-level configuration override (Level 3). */
+  config?: SceneConfig;
+  readonly name: string;
+}
+
+/** A scene class together with its module's file-level config. */
+export interface LoadedScene {
+  Ctor: SceneConstructor;
+  fileConfig: SceneConfig | undefined;
+}
+
+/** Every scene of a module or document, with its module's file-level config. */
+export interface LoadedScenes {
+  /** Scenes in export order, each with the name loadScene() finds it by. */
+  scenes: { name: string; Ctor: SceneConstructor }[];
+  fileConfig: SceneConfig | undefined;
+}
+
+/**
+ * Import a scene module and look up a scene class by export name, or build
+ * the scene a .json, .yaml or .yml scene document describes.
+ * @param sceneName - Export name; optional for documents, which hold one scene
+ * @throws Error if the module has no such export
+ * @throws SceneDocumentError if the document is invalid
+ */
+export async function loadScene(sceneFile: string, sceneName?: string): Promise<LoadedScene> {
+  if (isSceneDocumentPath(sceneFile)) return loadSceneDocument(sceneFile, sceneName);
+  if (sceneName === undefined) throw new Error(`Pass the name of the scene class to render from ${sceneFile}`);
+  const abs = resolve(process.cwd(), sceneFile);
+  const mod = await import(pathToFileURL(abs).href);
+
+  const fileConfig: SceneConfig | undefined = (mod.config as FileConfig | undefined) ?? undefined;
+
+  const Ctor = mod[sceneName] as unknown as SceneConstructor;
+  if (!Ctor || typeof Ctor !== 'function') {
+    const names = (await sceneExports(abs, mod)).map((s) => s.name);
+    const hint = names.length > 0 ? `; scenes in it: ${names.join(', ')}` : '; it exports no scenes';
+    throw new Error(`Scene class '${sceneName}' was not found in module ${abs}${hint}`);
+  }
+  return { Ctor, fileConfig };
+}
+
+/**
+ * Every exported Scene subclass of a module in the order the file exports
+ * them, or the one scene of a scene document.
+ * @throws SceneDocumentError if the document is invalid
+ */
+export async function loadScenes(sceneFile: string): Promise<LoadedScenes> {
+  if (isSceneDocumentPath(sceneFile)) {
+    const { Ctor, fileConfig } = await loadSceneDocument(sceneFile);
+    return { scenes: [{ name: Ctor.name, Ctor }], fileConfig };
+  }
+  const abs = resolve(process.cwd(), sceneFile);
+  const mod = await import(pathToFileURL(abs).href);
+  return { scenes: await sceneExports(abs, mod), fileConfig: (mod.config as FileConfig | undefined) ?? undefined };
+}
+
+/**
+ * Scene subclasses among a module's exports, in source order. Classes
+ * declared abstract are bases for other scenes and are left out.
+ */
+async function sceneExports(abs: string, mod: Record<string, unknown>): Promise<{ name: string; Ctor: SceneConstructor }[]> {
+  const candidates = Object.entries(mod)
+    .filter(([, v]) => typeof v === 'function' && v.prototype instanceof Scene)
+    .map(([name, v]) => ({ name, Ctor: v as SceneConstructor }));
+  // Module namespaces list exports alphabetically; order them as the source declares them
+  const source = await fs.readFile(abs, 'utf8').catch(() => '');
+  const escape = (name: string): string => name.replace(/\$/g, '\\$');
+  const position = (exported: string): number => {
+    const name = escape(exported);
+    const declared = new RegExp(`\\bexport\\s+(?:default\\s+)?(?:abstract\\s+)?class\\s+${name}\\b`).exec(source);
+    if (declared) return declared.index;
+    const listed = new RegExp(`\\bexport\\s*\\{[^}]*\\b${name}\\b`).exec(source);
+    return listed ? listed.index + listed[0].length : Infinity;
+  };
+  const isAbstract = (exported: string): boolean => {
+    // `export { Base as Name }` declares the class under its local name
+    const renamed = new RegExp(`\\bexport\\s*\\{[^}]*?([\\w$]+)\\s+as\\s+${escape(exported)}\\b`).exec(source);
+    const local = escape(renamed?.[1] ?? exported);
+    return new RegExp(`\\babstract\\s+class\\s+${local}\\b`).test(source);
+  };
+  const scenes = candidates.filter((s) => !isAbstract(s.name));
+  const order = new Map(scenes.map((s) => [s.name, position(s.name)]));
+  return scenes.sort((a, b) => order.get(a.name)! - order.get(b.name)!);
+}
@@ -5,11 +5,11 @@
  * local origin. Uses opposite arc windings so that the default nonzero fill
  * rule produces a donut hole.
  */
-import { Mobject } from '../core/mobject.ts';
-import type { SKRSContext2D } from '@napi-rs/canvas';
+import { VMobject } from '../core/vmobject.ts';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
 
 /** Annulus defined by outer and inner radii. */
-export class Annulus extends Mobject {
+export class Annulus extends VMobject {
   private _outer: number;
   private _inner: number;
 
@@ -34,19 +34,19 @@ export class Annulus extends Mobject {
   public setRadii(outer: number, inner: number): this {
     this._outer = outer > 0 ? outer : 0;
     this._inner = inner >= 0 ? Math.min(inner, this._outer) : 0;
-    return this;
+    return this.refreshPoints();
   }
 
-  /** Define a donut-shaped path using opposite arc windings. */
-  protected createPath(ctx: SKRSContext2D): void {
+  /** Donut-shaped outline using opposite arc windings. */
+  protected generatePoints(): BezierPath {
     const TWO_PI = Math.PI * 2;
+    const b = new PathBuilder();
     // Outer ring, clockwise (default)
-    ctx.arc(0, 0, this._outer, 0, TWO_PI, false);
+    b.arc(0, 0, this._outer, 0, TWO_PI, false).closePath();
     // Inner hole, opposite winding so nonzero rule subtracts it
     if (this._inner > 0) {
-      ctx.moveTo(this._inner, 0);
-      ctx.arc(0, 0, this._inner, 0, TWO_PI, true);
-      ctx.closePath();
+      b.moveTo(this._inner, 0).arc(0, 0, this._inner, 0, TWO_PI, true).closePath();
     }
+    return b.toPath();
   }
 }
@@ -5,11 +5,11 @@
  * the engine's mathematical coordinate system (origin center, Y-up, CCW).
  * By default, fill is disabled since arcs are typically stroked.
  */
-import { Mobject } from '../core/mobject.ts';
-import type { SKRSContext2D } from '@napi-rs/canvas';
+import { VMobject } from '../core/vmobject.ts';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
 
 /** Circular arc defined by radius and start/end angles. */
-export class Arc extends Mobject {
+export class Arc extends VMobject {
   private _radius: number;
   private _start: number;
   private _end: number;
@@ -54,11 +54,11 @@ export class Arc extends Mobject {
     this._start = start;
     this._end = end;
     if (anticlockwise !== undefined) this._anticlockwise = anticlockwise;
-    return this;
+    return this.refreshPoints();
   }
 
-  /** Define the arc segment path. */
-  protected createPath(ctx: SKRSContext2D): void {
-    ctx.arc(0, 0, this._radius, this._start, this._end, this._anticlockwise);
+  /** Open arc segment. */
+  protected generatePoints(): BezierPath {
+    return new PathBuilder().arc(0, 0, this._radius, this._start, this._end, this._anticlockwise).toPath();
   }
 }
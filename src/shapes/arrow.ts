@@ -5,13 +5,13 @@
  * endpoint. Angles are in scene coordinates (origin center, Y-up). The arrow
  * head is closed and will be filled if a fill color is set.
  */
-import { Mobject } from '../core/mobject.ts';
-import type { SKRSContext2D } from '@napi-rs/canvas';
+import { VMobject } from '../core/vmobject.ts';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
 import type { ReadonlyVec2, Vec2 } from '../core/types.ts';
 import { vec2 } from '../core/types.ts';
 
 /** Arrow defined by endpoints and head dimensions. */
-export class Arrow extends Mobject {
+export class Arrow extends VMobject {
   private readonly _from: Vec2 = vec2(0, 0);
   private readonly _to: Vec2 = vec2(100, 0);
   private _headLength: number;
@@ -39,9 +39,9 @@ export class Arrow extends Mobject {
     this._headWidth = headWidth > 0 ? headWidth : 0;
   }
 
-  /** Start point (mutable typed array). */
+  /** Start point (mutable typed array; call refreshPoints() after mutating in place). */
   public get from(): Vec2 { return this._from; }
-  /** End point (mutable typed array). */
+  /** End point (mutable typed array; call refreshPoints() after mutating in place). */
   public get to(): Vec2 { return this._to; }
   /** Head length. */
   public get headLength(): number { return this._headLength; }
@@ -52,18 +52,19 @@ export class Arrow extends Mobject {
   public setEndpoints(ax: number, ay: number, bx: number, by: number): this {
     this._from[0] = ax; this._from[1] = ay;
     this._to[0] = bx; this._to[1] = by;
-    return this;
+    return this.refreshPoints();
   }
 
   /** Set head dimensions. */
   public setHead(headLength: number, headWidth: number): this {
     this._headLength = headLength > 0 ? headLength : 0;
     this._headWidth = headWidth > 0 ? headWidth : 0;
-    return this;
+    return this.refreshPoints();
   }
 
-  /** Define the arrow path: shaft + triangular head. */
-  protected createPath(ctx: SKRSContext2D): void {
+  /** Arrow outline: open shaft + closed triangular head. */
+  protected generatePoints(): BezierPath {
+    const ctx = new PathBuilder();
     const x1 = this._from[0]!;
     const y1 = this._from[1]!;
     const x2 = this._to[0]!;
@@ -80,7 +81,7 @@ export class Arrow extends Mobject {
       ctx.lineTo(-hl, hw / 2);
       ctx.lineTo(-hl, -hw / 2);
       ctx.closePath();
-      return;
+      return ctx.toPath();
     }
 
     const ux = dx / len;
@@ -110,5 +111,6 @@ export class Arrow extends Mobject {
     ctx.lineTo(x2, y2);
     ctx.lineTo(rx, ry);
     ctx.closePath();
+    return ctx.toPath();
   }
 }
@@ -1,11 +1,11 @@
 /**
  * Circle shape.
  */
-import { Mobject } from '../core/mobject.ts';
-import type { SKRSContext2D } from '@napi-rs/canvas';
+import { VMobject } from '../core/vmobject.ts';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
 
 /** Circle defined by radius. */
-export class Circle extends Mobject {
+export class Circle extends VMobject {
   private _radius: number;
 
   constructor(radius: number = 50, name: string = 'Circle') {
@@ -21,11 +21,11 @@ export class Circle extends Mobject {
   /** Set radius. */
   public setRadius(r: number): this {
     this._radius = r > 0 ? r : 0;
-    return this;
+    return this.refreshPoints();
   }
 
-  protected createPath(ctx: SKRSContext2D): void {
-    const r = this._radius;
-    ctx.arc(0, 0, r, 0, Math.PI * 2);
+  /** Full circle as four quarter-arc cubics. */
+  protected generatePoints(): BezierPath {
+    return new PathBuilder().arc(0, 0, this._radius, 0, Math.PI * 2).closePath().toPath();
   }
 }
@@ -4,4 +4,6 @@ export { Line } from './line.ts';
 export { Polygon } from './polygon.ts';
 export { Arc } from './arc.ts';
 export { Annulus } from './annulus.ts';
-export { Arrow } from './arrow.ts';
\ No newline at end of file
+export { Arrow } from './arrow.ts';
+export { PathShape } from './path_shape.ts';
+export { Sector } from './sector.ts';
@@ -4,13 +4,13 @@
  * Draws a straight segment between two endpoints in local coordinates.
  * Fill is disabled by default.
  */
-import { Mobject } from '../core/mobject.ts';
-import type { SKRSContext2D } from '@napi-rs/canvas';
+import { VMobject } from '../core/vmobject.ts';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
 import type { ReadonlyVec2, Vec2 } from '../core/types.ts';
 import { vec2 } from '../core/types.ts';
 
 /** Line segment defined by two endpoints. */
-export class Line extends Mobject {
+export class Line extends VMobject {
   private readonly _a: Vec2 = vec2(0, 0);
   private readonly _b: Vec2 = vec2(100, 0);
 
@@ -30,9 +30,9 @@ export class Line extends Mobject {
     this.fill(null);
   }
 
-  /** Read-only access to start point array. */
+  /** Start point array (call refreshPoints() after mutating in place). */
   public get a(): Vec2 { return this._a; }
-  /** Read-only access to end point array. */
+  /** End point array (call refreshPoints() after mutating in place). */
   public get b(): Vec2 { return this._b; }
 
   /**
@@ -45,12 +45,11 @@ export class Line extends Mobject {
   public setEndpoints(ax: number, ay: number, bx: number, by: number): this {
     this._a[0] = ax; this._a[1] = ay;
     this._b[0] = bx; this._b[1] = by;
-    return this;
+    return this.refreshPoints();
   }
 
-  /** Define the line path between endpoints. */
-  protected createPath(ctx: SKRSContext2D): void {
-    ctx.moveTo(this._a[0]!, this._a[1]!);
-    ctx.lineTo(this._b[0]!, this._b[1]!);
+  /** Single straight segment between endpoints. */
+  protected generatePoints(): BezierPath {
+    return new PathBuilder().moveTo(this._a[0]!, this._a[1]!).lineTo(this._b[0]!, this._b[1]!).toPath();
   }
 }
@@ -0,0 +1,46 @@
+/**
+ * PathShape.
+ *
+ * A shape given directly as bezier path data, e.g. parsed from SVG or
+ * produced by a formula renderer.
+ */
+import { VMobject } from '../core/vmobject.ts';
+import { clonePath, type BezierPath } from '../core/path.ts';
+import type { FillRule } from '../core/types.ts';
+
+/** Shape whose outline is supplied as bezier subpaths in local coordinates. */
+export class PathShape extends VMobject {
+  private _source: BezierPath;
+  private _fillRule: FillRule = 'nonzero';
+
+  /**
+   * Create a PathShape.
+   * @param path Outline in local coordinates (copied)
+   * @param name Optional debug name
+   */
+  constructor(path: BezierPath = [], name: string = 'PathShape') {
+    super(name);
+    this._source = clonePath(path);
+  }
+
+  /** Replace the outline this shape regenerates from (copied). */
+  public setSourcePath(path: BezierPath): this {
+    this._source = clonePath(path);
+    return this.refreshPoints();
+  }
+
+  public override get fillRule(): FillRule {
+    return this._fillRule;
+  }
+
+  /** Fill with the even-odd rule to cut holes where subpaths overlap, or nonzero (chainable). */
+  public setFillRule(rule: FillRule): this {
+    this._fillRule = rule;
+    return this;
+  }
+
+  /** A fresh copy of the source outline. */
+  protected generatePoints(): BezierPath {
+    return clonePath(this._source);
+  }
+}
@@ -5,13 +5,13 @@
  * polygon is closed and filled; can be used as an open polyline by setting
  * `closed` to false (fill typically disabled in that case).
  */
-import { Mobject } from '../core/mobject.ts';
-import type { SKRSContext2D } from '@napi-rs/canvas';
+import { VMobject } from '../core/vmobject.ts';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
 import type { ReadonlyVec2, Vec2 } from '../core/types.ts';
 import { vec2 } from '../core/types.ts';
 
 /** Polygon defined by a list of vertices. */
-export class Polygon extends Mobject {
+export class Polygon extends VMobject {
   private readonly _points: Vec2[] = [];
   private _closed: boolean = true;
 
@@ -31,14 +31,14 @@ export class Polygon extends Mobject {
     this._closed = closed;
   }
 
-  /** Current points array (mutable Vec2 entries). */
+  /** Current points array (mutable Vec2 entries; call refreshPoints() after mutating in place). */
   public get points(): readonly Vec2[] { return this._points; }
 
   /** Whether polygon is closed. */
   public get closed(): boolean { return this._closed; }
 
   /** Set closed flag. */
-  public setClosed(closed: boolean): this { this._closed = closed; return this; }
+  public setClosed(closed: boolean): this { this._closed = closed; return this.refreshPoints(); }
 
   /** Replace all points (cloned into Vec2 typed arrays). */
   public setPoints(points: ReadonlyVec2[]): this {
@@ -47,18 +47,20 @@ export class Polygon extends Mobject {
       const p = points[i]!;
       this._points.push(vec2(p[0], p[1]));
     }
-    return this;
+    return this.refreshPoints();
   }
 
-  /** Define the polygon path. */
-  protected createPath(ctx: SKRSContext2D): void {
-    if (this._points.length === 0) return;
+  /** Polygon outline through all vertices. */
+  protected generatePoints(): BezierPath {
+    const b = new PathBuilder();
+    if (this._points.length === 0) return b.toPath();
     const p0 = this._points[0]!;
-    ctx.moveTo(p0[0]!, p0[1]!);
+    b.moveTo(p0[0]!, p0[1]!);
     for (let i = 1; i < this._points.length; i++) {
       const p = this._points[i]!;
-      ctx.lineTo(p[0]!, p[1]!);
+      b.lineTo(p[0]!, p[1]!);
     }
-    if (this._closed) ctx.closePath();
+    if (this._closed) b.closePath();
+    return b.toPath();
   }
 }
@@ -4,11 +4,11 @@
  * Axis-aligned rectangle centered at the local origin. Width and height are
  * specified in scene units (pixels by default).
  */
-import { Mobject } from '../core/mobject.ts';
-import type { SKRSContext2D } from '@napi-rs/canvas';
+import { VMobject } from '../core/vmobject.ts';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
 
 /** Rectangle defined by width and height, centered at origin. */
-export class Rectangle extends Mobject {
+export class Rectangle extends VMobject {
   private _width: number;
   private _height: number;
 
@@ -42,13 +42,13 @@ export class Rectangle extends Mobject {
   public setSize(width: number, height: number): this {
     this._width = width >= 0 ? width : 0;
     this._height = height >= 0 ? height : 0;
-    return this;
+    return this.refreshPoints();
   }
 
-  /** Define the rectangle path centered at local origin. */
-  protected createPath(ctx: SKRSContext2D): void {
+  /** Rectangle outline centered at local origin. */
+  protected generatePoints(): BezierPath {
     const w = this._width;
     const h = this._height;
-    ctx.rect(-w / 2, -h / 2, w, h);
+    return new PathBuilder().rect(-w / 2, -h / 2, w, h).toPath();
   }
 }
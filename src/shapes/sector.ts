@@ -0,0 +1,67 @@
+/**
+ * Sector shape.
+ *
+ * Wedge of a disc between two angles, centered at the local origin; with an
+ * inner radius it is a sector of an annulus (a donut slice). Angles are in
+ * radians, CCW in the engine's Y-up coordinates, and the wedge sweeps
+ * counterclockwise from start to end.
+ */
+import { VMobject } from '../core/vmobject.ts';
+import { PathBuilder, type BezierPath } from '../core/path.ts';
+
+/** Circular (or annular) sector defined by radii and start/end angles. */
+export class Sector extends VMobject {
+  private _outer: number;
+  private _inner: number;
+  private _start: number;
+  private _end: number;
+
+  /**
+   * Create a Sector.
+   * @param outer Outer radius
+   * @param start Start angle (radians, CCW)
+   * @param end End angle (radians, CCW); at most one full turn past start
+   * @param inner Inner radius (0 for a pie wedge)
+   * @param name Optional debug name
+   */
+  constructor(outer: number = 60, start: number = 0, end: number = Math.PI / 2, inner: number = 0, name: string = 'Sector') {
+    super(name);
+    this._outer = outer > 0 ? outer : 0;
+    this._inner = inner >= 0 ? Math.min(inner, this._outer) : 0;
+    this._start = start;
+    this._end = end;
+  }
+
+  /** Outer radius. */
+  public get outerRadius(): number { return this._outer; }
+  /** Inner radius. */
+  public get innerRadius(): number { return this._inner; }
+  /** Start angle (rad). */
+  public get start(): number { return this._start; }
+  /** End angle (rad). */
+  public get end(): number { return this._end; }
+
+  /** Set parameters (inner clamped to [0, outer]). */
+  public set(outer: number, start: number, end: number, inner: number = this._inner): this {
+    this._outer = outer > 0 ? outer : 0;
+    this._inner = inner >= 0 ? Math.min(inner, this._outer) : 0;
+    this._start = start;
+    this._end = end;
+    return this.refreshPoints();
+  }
+
+  /** Closed wedge: outer arc forward, then the inner arc (or the center) back. */
+  protected generatePoints(): BezierPath {
+    const sweep = Math.min(Math.max(this._end - this._start, 0), Math.PI * 2);
+    if (sweep === 0 || this._outer === 0) return [];
+    const end = this._start + sweep;
+    const b = new PathBuilder();
+    if (this._inner > 0) {
+      b.arc(0, 0, this._outer, this._start, end, false);
+      b.arc(0, 0, this._inner, end, this._start, true);
+    } else {
+      b.moveTo(0, 0).arc(0, 0, this._outer, this._start, end, false);
+    }
+    return b.closePath().toPath();
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * 2D affine matrices for SVG transforms, in SVG's [a b c d e f] order:
+ * x' = a*x + c*y + e, y' = b*x + d*y + f.
+ */
+import { SVGParseError } from './xml.ts';
+
+export type Matrix = readonly [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Product m * n (apply n first, then m). */
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+/** Apply a matrix to a point. */
+export function applyMatrix(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/** Geometric mean of the matrix's axis scales (for scaling stroke widths). */
+export function matrixScale(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/**
+ * Parse an SVG `transform` attribute (matrix, translate, scale, rotate, skewX, skewY).
+ * @throws SVGParseError on unknown functions or wrong argument counts
+ */
+export function parseTransform(attr: string | undefined): Matrix {
+  if (!attr) return IDENTITY;
+  let out: Matrix = IDENTITY;
+  const re = /(\w+)\s*\(([^)]*)\)/g;
+  for (let m = re.exec(attr); m; m = re.exec(attr)) {
+    const name = m[1]!;
+    const args = (m[2]!.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+    out = multiply(out, transformFunction(name, args));
+  }
+  return out;
+}
+
+function transformFunction(name: string, a: number[]): Matrix {
+  const arg = (i: number, fallback?: number): number => {
+    const v = a[i] ?? fallback;
+    if (v === undefined) throw new SVGParseError(`transform ${name}() is missing arguments`);
+    return v;
+  };
+  switch (name) {
+    case 'matrix':
+      return [arg(0), arg(1), arg(2), arg(3), arg(4), arg(5)];
+    case 'translate':
+      return [1, 0, 0, 1, arg(0), arg(1, 0)];
+    case 'scale': {
+      const sx = arg(0);
+      return [sx, 0, 0, arg(1, sx), 0, 0];
+    }
+    case 'rotate': {
+      const t = (arg(0) * Math.PI) / 180;
+      const cos = Math.cos(t);
+      const sin = Math.sin(t);
+      const r: Matrix = [cos, sin, -sin, cos, 0, 0];
+      if (a.length < 3) return r;
+      const cx = arg(1);
+      const cy = arg(2);
+      return multiply(multiply([1, 0, 0, 1, cx, cy], r), [1, 0, 0, 1, -cx, -cy]);
+    }
+    case 'skewX':
+      return [1, 0, Math.tan((arg(0) * Math.PI) / 180), 1, 0, 0];
+    case 'skewY':
+      return [1, Math.tan((arg(0) * Math.PI) / 180), 0, 1, 0, 0];
+    default:
+      throw new SVGParseError(`Unsupported transform function '${name}'`);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * SVG path data (`d` attribute) to and from cubic bezier subpaths.
+ */
+import { makeAbsolute, parseSVG, type CommandMadeAbsolute } from 'svg-path-parser';
+import { PathBuilder, type BezierPath, type BezierSubpath } from '../core/path.ts';
+import { applyMatrix, IDENTITY, type Matrix } from './matrix.ts';
+import { SVGParseError } from './xml.ts';
+
+/** Format a coordinate compactly (at most three decimals). */
+function fmt(v: number): string {
+  const r = Math.round(v * 1000) / 1000;
+  return Object.is(r, -0) ? '0' : String(r);
+}
+
+/** Serialize bezier subpaths as path data, mapping every point through a matrix. */
+export function bezierToPathData(path: readonly BezierSubpath[], m: Matrix = IDENTITY): string {
+  const parts: string[] = [];
+  for (const sp of path) {
+    const p = sp.points;
+    if (p.length < 2) continue;
+    let [px, py] = applyMatrix(m, p[0]!, p[1]!);
+    let d = `M${fmt(px)} ${fmt(py)}`;
+    for (let i = 2; i + 5 < p.length; i += 6) {
+      const [c1x, c1y] = applyMatrix(m, p[i]!, p[i + 1]!);
+      const [c2x, c2y] = applyMatrix(m, p[i + 2]!, p[i + 3]!);
+      const [x, y] = applyMatrix(m, p[i + 4]!, p[i + 5]!);
+      // Lines were elevated to cubics with controls at thirds; write them back as lines
+      const straight =
+        Math.abs(c1x - (2 * px + x) / 3) < 1e-6 && Math.abs(c1y - (2 * py + y) / 3) < 1e-6 &&
+        Math.abs(c2x - (px + 2 * x) / 3) < 1e-6 && Math.abs(c2y - (py + 2 * y) / 3) < 1e-6;
+      d += straight ? `L${fmt(x)} ${fmt(y)}` : `C${fmt(c1x)} ${fmt(c1y)} ${fmt(c2x)} ${fmt(c2y)} ${fmt(x)} ${fmt(y)}`;
+      px = x;
+      py = y;
+    }
+    parts.push(sp.closed ? `${d}Z` : d);
+  }
+  return parts.join('');
+}
+
+/**
+ * Convert path data into bezier subpaths, mapping every point through a matrix.
+ * Affine maps keep beziers exact, so arcs are converted before transforming.
+ * @throws SVGParseError on malformed path data
+ */
+export function pathDataToBezier(d: string, m: Matrix = IDENTITY): BezierPath {
+  let commands: CommandMadeAbsolute[];
+  try {
+    commands = makeAbsolute(parseSVG(d));
+  } catch (error) {
+    const cause = error instanceof Error ? error : undefined;
+    throw new SVGParseError(`Invalid path data: ${cause?.message ?? String(error)}`, cause);
+  }
+
+  const b = new PathBuilder();
+  const pt = (x: number, y: number): [number, number] => applyMatrix(m, x, y);
+  // Last control points, for the reflected first control of S and T
+  let cubicCtrl: [number, number] | null = null;
+  let quadCtrl: [number, number] | null = null;
+
+  for (const c of commands) {
+    let nextCubic: [number, number] | null = null;
+    let nextQuad: [number, number] | null = null;
+    switch (c.code) {
+      case 'M':
+        b.moveTo(...pt(c.x, c.y));
+        break;
+      case 'L':
+      case 'H':
+      case 'V':
+        b.lineTo(...pt(c.x, c.y));
+        break;
+      case 'C':
+        b.bezierCurveTo(...pt(c.x1, c.y1), ...pt(c.x2, c.y2), ...pt(c.x, c.y));
+        nextCubic = [c.x2, c.y2];
+        break;
+      case 'S': {
+        const c1x = cubicCtrl ? 2 * c.x0 - cubicCtrl[0] : c.x0;
+        const c1y = cubicCtrl ? 2 * c.y0 - cubicCtrl[1] : c.y0;
+        b.bezierCurveTo(...pt(c1x, c1y), ...pt(c.x2, c.y2), ...pt(c.x, c.y));
+        nextCubic = [c.x2, c.y2];
+        break;
+      }
+      case 'Q':
+        b.quadraticCurveTo(...pt(c.x1, c.y1), ...pt(c.x, c.y));
+        nextQuad = [c.x1, c.y1];
+        break;
+      case 'T': {
+        const qx: number = quadCtrl ? 2 * c.x0 - quadCtrl[0] : c.x0;
+        const qy: number = quadCtrl ? 2 * c.y0 - quadCtrl[1] : c.y0;
+        b.quadraticCurveTo(...pt(qx, qy), ...pt(c.x, c.y));
+        nextQuad = [qx, qy];
+        break;
+      }
+      case 'A':
+        for (const seg of arcToCubics(c.x0, c.y0, c.rx, c.ry, c.xAxisRotation, c.largeArc, c.sweep, c.x, c.y)) {
+          b.bezierCurveTo(...pt(seg[0], seg[1]), ...pt(seg[2], seg[3]), ...pt(seg[4], seg[5]));
+        }
+        break;
+      case 'Z':
+        b.closePath();
+        break;
+    }
+    cubicCtrl = nextCubic;
+    quadCtrl = nextQuad;
+  }
+  return b.toPath();
+}
+
+/**
+ * Cubic pieces (c1x, c1y, c2x, c2y, x, y) approximating an SVG elliptical arc,
+ * using the endpoint-to-center conversion from the SVG implementation notes.
+ */
+function arcToCubics(
+  x0: number, y0: number, rx: number, ry: number, rotationDeg: number,
+  largeArc: boolean, sweep: boolean, x: number, y: number,
+): [number, number, number, number, number, number][] {
+  if (x0 === x && y0 === y) return [];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx === 0 || ry === 0) return [[x0, y0, x, y, x, y]];
+
+  const phi = (rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x0 - x) / 2;
+  const dy = (y0 - y) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Scale radii up if they cannot span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    const s = Math.sqrt(lambda);
+    rx *= s;
+    ry *= s;
+  }
+
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coef = Math.sqrt(Math.max(0, num / den));
+  if (largeArc === sweep) coef = -coef;
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x0 + x) / 2;
+  const cy = sin * cxp + cos * cyp + (y0 + y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number): number =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  else if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const pieces = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+  const step = delta / pieces;
+  const k = (4 / 3) * Math.tan(step / 4);
+  // Point and derivative on the unit circle, mapped onto the rotated ellipse
+  const map = (ux: number, uy: number): [number, number] => [
+    cx + cos * rx * ux - sin * ry * uy,
+    cy + sin * rx * ux + cos * ry * uy,
+  ];
+  const out: [number, number, number, number, number, number][] = [];
+  let a0 = theta1;
+  for (let i = 0; i < pieces; i++) {
+    const a1 = a0 + step;
+    const cos0 = Math.cos(a0), sin0 = Math.sin(a0);
+    const cos1 = Math.cos(a1), sin1 = Math.sin(a1);
+    const p1 = map(cos0 - k * sin0, sin0 + k * cos0);
+    const p2 = map(cos1 + k * sin1, sin1 - k * cos1);
+    const p3 = i === pieces - 1 ? ([x, y] as [number, number]) : map(cos1, sin1);
+    out.push([p1[0], p1[1], p2[0], p2[1], p3[0], p3[1]]);
+    a0 = a1;
+  }
+  return out;
+}
@@ -0,0 +1,240 @@
+/**
+ * Walks an SVG element tree and flattens it into styled outlines in document order.
+ */
+import type { BezierPath } from '../core/path.ts';
+import type { ColorString, FillRule } from '../core/types.ts';
+import { toHex } from '../core/color.ts';
+import { IDENTITY, matrixScale, multiply, parseTransform, type Matrix } from './matrix.ts';
+import { pathDataToBezier } from './path_data.ts';
+import { SVGParseError, type XmlElement } from './xml.ts';
+
+/** Resolved presentation of one shape. */
+export interface SVGStyle {
+  fill: ColorString | null;
+  fillOpacity: number;
+  fillRule: FillRule;
+  stroke: ColorString | null;
+  strokeOpacity: number;
+  /** Stroke width in root user units (element transforms applied). */
+  strokeWidth: number;
+  /** Product of the element's and its ancestors' `opacity`. */
+  opacity: number;
+}
+
+/** One drawable element with every ancestor transform applied. */
+export interface SVGShape {
+  /** Outline in the root's user coordinates (y down). */
+  path: BezierPath;
+  /** Element that produced the outline. */
+  element: XmlElement;
+  style: SVGStyle;
+}
+
+/** Inheritable properties while walking the tree (colors still unresolved). */
+interface Inherited {
+  fill: string;
+  fillOpacity: number;
+  fillRule: FillRule;
+  stroke: string;
+  strokeOpacity: number;
+  strokeWidth: number;
+  color: string;
+  opacity: number;
+  visible: boolean;
+}
+
+const INITIAL: Inherited = {
+  fill: 'black',
+  fillOpacity: 1,
+  fillRule: 'nonzero',
+  stroke: 'none',
+  strokeOpacity: 1,
+  strokeWidth: 1,
+  color: 'black',
+  opacity: 1,
+  visible: true,
+};
+
+/** Containers whose children are drawn. */
+const CONTAINERS = new Set(['svg', 'g', 'a', 'switch']);
+
+/** Maximum nesting of <use> references (guards against cycles). */
+const MAX_USE_DEPTH = 32;
+
+/** Presentation properties from attributes, overridden by the inline `style` attribute. */
+function presentation(el: XmlElement): Record<string, string> {
+  const props: Record<string, string> = { ...el.attrs };
+  const style = el.attrs['style'];
+  if (style) {
+    for (const decl of style.split(';')) {
+      const colon = decl.indexOf(':');
+      if (colon > 0) props[decl.slice(0, colon).trim()] = decl.slice(colon + 1).replace(/!important/, '').trim();
+    }
+  }
+  return props;
+}
+
+/** Numeric attribute value, ignoring units; `fallback` if absent or malformed. */
+function num(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/** Opacity value, accepting percentages. */
+function opacityValue(value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const n = parseFloat(value);
+  if (!Number.isFinite(n)) return fallback;
+  const v = value.trim().endsWith('%') ? n / 100 : n;
+  return v < 0 ? 0 : v > 1 ? 1 : v;
+}
+
+function inherit(parent: Inherited, el: XmlElement): Inherited {
+  const p = presentation(el);
+  const pick = (key: string, prev: string): string => {
+    const v = p[key];
+    return v === undefined || v === 'inherit' ? prev : v;
+  };
+  return {
+    fill: pick('fill', parent.fill),
+    fillOpacity: opacityValue(p['fill-opacity'], parent.fillOpacity),
+    fillRule: p['fill-rule'] === 'evenodd' || p['fill-rule'] === 'nonzero' ? p['fill-rule'] : parent.fillRule,
+    stroke: pick('stroke', parent.stroke),
+    strokeOpacity: opacityValue(p['stroke-opacity'], parent.strokeOpacity),
+    strokeWidth: num(p['stroke-width'], parent.strokeWidth),
+    color: pick('color', parent.color),
+    opacity: parent.opacity * opacityValue(p['opacity'], 1),
+    visible: p['visibility'] === undefined || p['visibility'] === 'inherit' ? parent.visible : p['visibility'] === 'visible',
+  };
+}
+
+/**
+ * Normalize an SVG paint to a canvas color (hex where possible); null for none.
+ * Gradients and patterns (`url(...)`) fall back to their fallback color or none.
+ */
+function paint(value: string, currentColor: string): ColorString | null {
+  let v = value.trim();
+  if (v.startsWith('url(')) {
+    v = v.replace(/^url\([^)]*\)\s*/, '');
+    if (!v) return null;
+  }
+  if (v === 'none' || v === 'transparent') return null;
+  if (v === 'currentColor') return paint(currentColor, 'black');
+  if (/^#[0-9a-f]{3}$/i.test(v)) return `#${v[1]}${v[1]}${v[2]}${v[2]}${v[3]}${v[3]}`.toLowerCase();
+  if (/^#[0-9a-f]{6}$/i.test(v)) return v.toLowerCase();
+  const rgb = /^rgba?\(\s*([\d.]+%?)[\s,]+([\d.]+%?)[\s,]+([\d.]+%?)/i.exec(v);
+  if (rgb) {
+    const channel = (s: string): number => (s.endsWith('%') ? (parseFloat(s) * 255) / 100 : parseFloat(s));
+    return toHex([channel(rgb[1]!), channel(rgb[2]!), channel(rgb[3]!), 255]);
+  }
+  // Named colors are understood by the canvas as-is
+  return v;
+}
+
+/** Path data for a basic shape element, or null if it draws nothing. */
+function shapeToPathData(el: XmlElement): string | null {
+  const a = el.attrs;
+  switch (el.tag) {
+    case 'path':
+      return a['d'] ?? null;
+    case 'rect': {
+      const x = num(a['x'], 0), y = num(a['y'], 0);
+      const w = num(a['width'], 0), h = num(a['height'], 0);
+      if (w <= 0 || h <= 0) return null;
+      // A missing radius takes the other one; both are capped at half the side
+      let rx = num(a['rx'], NaN), ry = num(a['ry'], NaN);
+      if (Number.isNaN(rx)) rx = Number.isNaN(ry) ? 0 : ry;
+      if (Number.isNaN(ry)) ry = rx;
+      rx = Math.min(Math.max(rx, 0), w / 2);
+      ry = Math.min(Math.max(ry, 0), h / 2);
+      if (rx === 0 || ry === 0) return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+      return (
+        `M${x + rx} ${y}H${x + w - rx}A${rx} ${ry} 0 0 1 ${x + w} ${y + ry}` +
+        `V${y + h - ry}A${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h}` +
+        `H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + h - ry}` +
+        `V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`
+      );
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = num(a['cx'], 0), cy = num(a['cy'], 0);
+      const rx = el.tag === 'circle' ? num(a['r'], 0) : num(a['rx'], 0);
+      const ry = el.tag === 'circle' ? rx : num(a['ry'], 0);
+      if (rx <= 0 || ry <= 0) return null;
+      return `M${cx + rx} ${cy}A${rx} ${ry} 0 1 1 ${cx - rx} ${cy}A${rx} ${ry} 0 1 1 ${cx + rx} ${cy}Z`;
+    }
+    case 'line':
+      return `M${num(a['x1'], 0)} ${num(a['y1'], 0)}L${num(a['x2'], 0)} ${num(a['y2'], 0)}`;
+    case 'polyline':
+    case 'polygon': {
+      const coords = (a['points'] ?? '').match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+      if (coords.length < 4) return null;
+      let d = `M${coords[0]} ${coords[1]}`;
+      for (let i = 2; i + 1 < coords.length; i += 2) d += `L${coords[i]} ${coords[i + 1]}`;
+      return el.tag === 'polygon' ? `${d}Z` : d;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Collect drawable shapes beneath an element, following <use> references.
+ * Content of <defs> is only drawn when referenced.
+ * @throws SVGParseError on dangling or cyclic references and malformed geometry
+ */
+export function collectShapes(root: XmlElement): SVGShape[] {
+  const ids = new Map<string, XmlElement>();
+  const index = (el: XmlElement): void => {
+    const id = el.attrs['id'];
+    if (id) ids.set(id, el);
+    for (const child of el.children) index(child);
+  };
+  index(root);
+
+  const out: SVGShape[] = [];
+  const walk = (el: XmlElement, parent: Matrix, inherited: Inherited, depth: number): void => {
+    const props = presentation(el);
+    if (props['display'] === 'none') return;
+    const m = multiply(parent, parseTransform(el.attrs['transform']));
+    const ctx = inherit(inherited, el);
+
+    if (CONTAINERS.has(el.tag)) {
+      for (const child of el.children) walk(child, m, ctx, depth);
+      return;
+    }
+    if (el.tag === 'use') {
+      const href = el.attrs['href'] ?? el.attrs['xlink:href'] ?? '';
+      const target = href.startsWith('#') ? ids.get(href.slice(1)) : undefined;
+      if (!target) throw new SVGParseError(`<use> references unknown element '${href}'`);
+      if (depth >= MAX_USE_DEPTH) throw new SVGParseError(`<use> references nest too deeply at '${href}'`);
+      const placed = multiply(m, [1, 0, 0, 1, num(el.attrs['x'], 0), num(el.attrs['y'], 0)]);
+      // A referenced symbol draws its children like a group
+      if (target.tag === 'symbol') for (const child of target.children) walk(child, placed, ctx, depth + 1);
+      else walk(target, placed, ctx, depth + 1);
+      return;
+    }
+
+    // defs, symbol, style, metadata, text and unknown elements yield no data
+    const d = shapeToPathData(el);
+    if (!d || !ctx.visible) return;
+    // Lines and polylines are never filled
+    const fillable = el.tag !== 'line' && el.tag !== 'polyline';
+    out.push({
+      path: pathDataToBezier(d, m),
+      element: el,
+      style: {
+        fill: fillable ? paint(ctx.fill, ctx.color) : null,
+        fillOpacity: ctx.fillOpacity,
+        fillRule: ctx.fillRule,
+        stroke: paint(ctx.stroke, ctx.color),
+        strokeOpacity: ctx.strokeOpacity,
+        strokeWidth: ctx.strokeWidth * matrixScale(m),
+        opacity: ctx.opacity,
+      },
+    });
+  };
+  walk(root, IDENTITY, INITIAL, 0);
+  return out;
+}
@@ -0,0 +1,130 @@
+/**
+ * Minimal XML reader for SVG documents.
+ *
+ * Produces a plain element tree; comments, processing instructions and
+ * doctypes are skipped. Namespaces are not resolved: prefixed names such as
+ * `xlink:href` are kept verbatim.
+ */
+
+/** Parsed XML element. */
+export interface XmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated character data directly inside this element. */
+  text: string;
+}
+
+/** Thrown when SVG markup cannot be read or describes unsupported content. */
+export class SVGParseError extends Error {
+  constructor(
+    message: string,
+    public override readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = 'SVGParseError';
+  }
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** Replace character and predefined entity references. */
+function decodeEntities(s: string): string {
+  if (!s.includes('&')) return s;
+  return s.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (m, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : m;
+    }
+    return ENTITIES[ref] ?? m;
+  });
+}
+
+const ATTR_RE = /([^\s=/>]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/y;
+
+/**
+ * Parse an XML document and return its root element.
+ * @throws SVGParseError on malformed markup
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { tag: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let i = 0;
+  const n = source.length;
+
+  const skipPast = (marker: string, what: string): void => {
+    const end = source.indexOf(marker, i);
+    if (end < 0) throw new SVGParseError(`Unterminated ${what}`);
+    i = end + marker.length;
+  };
+
+  while (i < n) {
+    const lt = source.indexOf('<', i);
+    const top = stack[stack.length - 1]!;
+    if (lt < 0) {
+      top.text += decodeEntities(source.slice(i));
+      break;
+    }
+    if (lt > i) top.text += decodeEntities(source.slice(i, lt));
+    i = lt;
+
+    if (source.startsWith('<!--', i)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', i)) {
+      const end = source.indexOf(']]>', i);
+      if (end < 0) throw new SVGParseError('Unterminated CDATA section');
+      top.text += source.slice(i + 9, end);
+      i = end + 3;
+    } else if (source.startsWith('<?', i)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!', i)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = source.indexOf('[', i);
+      const close = source.indexOf('>', i);
+      if (bracket >= 0 && close >= 0 && bracket < close) {
+        i = bracket;
+        skipPast(']', 'doctype');
+      }
+      skipPast('>', 'doctype');
+    } else if (source[i + 1] === '/') {
+      const end = source.indexOf('>', i);
+      if (end < 0) throw new SVGParseError('Unterminated closing tag');
+      const tag = source.slice(i + 2, end).trim();
+      if (stack.length < 2 || top.tag !== tag) {
+        throw new SVGParseError(`Unexpected closing tag </${tag}>`);
+      }
+      stack.pop();
+      i = end + 1;
+    } else {
+      const nameMatch = /^<([^\s/>]+)/.exec(source.slice(i, i + 256));
+      if (!nameMatch) throw new SVGParseError(`Malformed tag at offset ${i}`);
+      const el: XmlElement = { tag: nameMatch[1]!, attrs: {}, children: [], text: '' };
+      i += nameMatch[0].length;
+      for (;;) {
+        while (i < n && /\s/.test(source[i]!)) i++;
+        if (i >= n) throw new SVGParseError(`Unterminated tag <${el.tag}>`);
+        if (source[i] === '>') {
+          i++;
+          top.children.push(el);
+          stack.push(el);
+          break;
+        }
+        if (source.startsWith('/>', i)) {
+          i += 2;
+          top.children.push(el);
+          break;
+        }
+        ATTR_RE.lastIndex = i;
+        const m = ATTR_RE.exec(source);
+        if (!m) throw new SVGParseError(`Malformed attribute in <${el.tag}>`);
+        el.attrs[m[1]!] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+        i = ATTR_RE.lastIndex;
+      }
+    }
+  }
+
+  if (stack.length > 1) throw new SVGParseError(`Unclosed element <${stack[stack.length - 1]!.tag}>`);
+  const first = root.children[0];
+  if (!first) throw new SVGParseError('Document has no root element');
+  return first;
+}
@@ -0,0 +1,190 @@
+/**
+ * LaTeX mobjects rendered through texsvg (MathJax, fully offline).
+ *
+ * A formula is rendered to SVG once, its glyphs are read back as bezier
+ * paths and each glyph becomes a PathShape. Glyphs are grouped by the
+ * source strings they came from, so `MathTex.create(['a^2', '+', 'b^2'])`
+ * has three parts that can be colored or animated separately.
+ */
+import texsvg from 'texsvg';
+import type { ColorString } from '../core/types.ts';
+import { StyleGroup } from '../core/style_group.ts';
+import { pathBounds, transformPath, type BezierPath } from '../core/path.ts';
+import { PathShape } from '../shapes/path_shape.ts';
+import { parseXml, type XmlElement } from '../svg/xml.ts';
+import { collectShapes } from '../svg/svg_shapes.ts';
+
+/** Thrown when a TeX string cannot be rendered. */
+export class TexError extends Error {
+  constructor(
+    message: string,
+    public readonly tex?: string,
+    public override readonly cause?: Error,
+  ) {
+    super(message);
+    this.name = 'TexError';
+  }
+}
+
+export interface TexOptions {
+  /** Size of one em in scene units (default 48, like Text). */
+  fontSize?: number;
+  /** Fill color of every glyph (default white). */
+  color?: ColorString;
+}
+
+/** MathJax lays glyphs out in thousandths of an em. */
+const UNITS_PER_EM = 1000;
+
+/** Rendered SVG per TeX source, shared by all formulas. */
+const svgCache = new Map<string, Promise<string>>();
+
+/** First MathJax error message found in the tree, if any. */
+function findTexError(el: XmlElement): string | undefined {
+  const own = el.attrs['data-mjx-error'];
+  if (own) return own;
+  for (const child of el.children) {
+    const found = findTexError(child);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Render TeX (math mode) to an SVG document string.
+ * @throws TexError if MathJax reports an error
+ */
+export function texToSVG(tex: string): Promise<string> {
+  let svg = svgCache.get(tex);
+  if (!svg) {
+    svg = texsvg(tex).catch((error: unknown) => {
+      svgCache.delete(tex);
+      const cause = error instanceof Error ? error : undefined;
+      throw new TexError(`LaTeX rendering failed for '${tex}': ${cause?.message ?? String(error)}`, tex, cause);
+    });
+    svgCache.set(tex, svg);
+  }
+  return svg;
+}
+
+/**
+ * Glyph outlines of a TeX string in document order, in thousandths of an em, y up.
+ * @throws TexError if MathJax reports an error
+ */
+async function renderGlyphs(tex: string): Promise<BezierPath[]> {
+  const root = parseXml(await texToSVG(tex));
+  const error = findTexError(root);
+  if (error) throw new TexError(`LaTeX error in '${tex}': ${error}`, tex);
+  const out: BezierPath[] = [];
+  for (const shape of collectShapes(root)) {
+    if (shape.path.length > 0) out.push(transformPath(shape.path, 0, 0, 0, 1, -1));
+  }
+  return out;
+}
+
+/** Center of a path's bounds. */
+function boundsCenter(paths: readonly BezierPath[]): [number, number] {
+  const b = pathBounds(paths.flat());
+  return [b.x + b.width / 2, b.y + b.height / 2];
+}
+
+/**
+ * MathTex - a LaTeX math formula whose children are its parts, each a group of glyphs.
+ * Create with `await MathTex.create(...)` since rendering is asynchronous.
+ */
+export class MathTex extends StyleGroup<StyleGroup<PathShape>> {
+  /** Source strings, one per part. */
+  public readonly parts: readonly string[];
+
+  protected constructor(parts: readonly string[], glyphs: readonly BezierPath[][], options: TexOptions, name: string) {
+    super(name);
+    this.parts = parts;
+    const scale = (options.fontSize ?? 48) / UNITS_PER_EM;
+    if (!(scale > 0)) throw new TexError(`Font size must be positive, got: ${options.fontSize}`);
+
+    // Center the whole formula on the origin
+    const [cx, cy] = boundsCenter(glyphs.flat());
+    for (let i = 0; i < parts.length; i++) {
+      const partGlyphs = (glyphs[i] ?? []).map((p) => transformPath(p, -cx * scale, -cy * scale, 0, scale, scale));
+      const part = new StyleGroup<PathShape>(`${name}.part${i}`);
+      // Parts and glyphs sit at their own centers so they rotate and scale in place
+      const [px, py] = partGlyphs.length > 0 ? boundsCenter(partGlyphs) : [0, 0];
+      part.setPosition(px, py);
+      for (const path of partGlyphs) {
+        const [gx, gy] = boundsCenter([path]);
+        const glyph = new PathShape(transformPath(path, -gx, -gy, 0, 1, 1), `${name}.glyph`).setPosition(gx - px, gy - py);
+        part.add(glyph);
+      }
+      this.add(part);
+    }
+
+    this.setColor(options.color ?? '#ffffff').stroke(null).setStrokeWidth(0);
+  }
+
+  /**
+   * Render a formula. Passing several strings keeps each as a separately
+   * addressable part; every part must be valid TeX on its own.
+   * @throws TexError on LaTeX errors
+   */
+  public static async create(tex: string | readonly string[], options: TexOptions = {}): Promise<MathTex> {
+    const parts = typeof tex === 'string' ? [tex] : [...tex];
+    return new MathTex(parts, await MathTex.layoutParts(parts, parts.join(' '), (p) => p), options, 'MathTex');
+  }
+
+  /**
+   * Render the joined source once and split its glyphs by part, using the
+   * glyph count of each part rendered alone.
+   */
+  protected static async layoutParts(
+    parts: readonly string[],
+    joined: string,
+    wrap: (part: string) => string,
+  ): Promise<BezierPath[][]> {
+    const all = await renderGlyphs(joined);
+    if (parts.length === 1) return [all];
+
+    const counts = await Promise.all(parts.map(async (p) => (await renderGlyphs(wrap(p))).length));
+    const total = counts.reduce((a, b) => a + b, 0);
+    if (total !== all.length) {
+      throw new TexError(
+        `Cannot split '${joined}' into parts: the parts render ${total} glyphs but the whole renders ${all.length}`,
+        joined,
+      );
+    }
+    const out: BezierPath[][] = [];
+    let start = 0;
+    for (const count of counts) {
+      out.push(all.slice(start, start + count));
+      start += count;
+    }
+    return out;
+  }
+
+  /** Every glyph in reading order. */
+  public getGlyphs(): PathShape[] {
+    const out: PathShape[] = [];
+    for (const part of this.children) out.push(...part);
+    return out;
+  }
+
+  /** First part whose source equals the given TeX, if any. */
+  public getPartByTex(tex: string): StyleGroup<PathShape> | undefined {
+    const i = this.parts.indexOf(tex);
+    return i < 0 ? undefined : this.children[i];
+  }
+}
+
+/**
+ * Tex - LaTeX text-mode content; `$...$` switches to math inside it.
+ */
+export class Tex extends MathTex {
+  /**
+   * Render text. Passing several strings keeps each as a separately addressable part.
+   * @throws TexError on LaTeX errors
+   */
+  public static override async create(tex: string | readonly string[], options: TexOptions = {}): Promise<Tex> {
+    const parts = typeof tex === 'string' ? [tex] : [...tex];
+    const wrap = (p: string): string => `\\text{${p}}`;
+    return new Tex(parts, await MathTex.layoutParts(parts, parts.map(wrap).join(''), wrap), options, 'Tex');
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * DecimalNumber - a number typeset from glyphs of Text, for counters and
+ * live values: `new DecimalNumber(1234.5, { decimals: 1, thousandsSeparator: ',', unit: ' kg' })`.
+ *
+ * Glyphs are laid out once per font; changing the value only swaps and
+ * places glyphs, so it is cheap enough to do every frame. Digits sit in
+ * cells as wide as the widest digit and one edge of the number stays put,
+ * so digits do not jitter while the value changes.
+ */
+import type { GlyphData } from '../font/glyph_path_extractor.ts';
+import { StyleGroup } from '../core/style_group.ts';
+import { ChangeValue, CountTo } from '../animation/transforms/value.ts';
+import { Text, type TextOptions } from './text.ts';
+import { TextChar } from './text_char.ts';
+
+export interface DecimalNumberOptions extends Pick<TextOptions, 'font' | 'fontSize' | 'weight' | 'style' | 'fontConfig'> {
+  /** Digits after the decimal separator (default: 2) */
+  decimals?: number;
+  /** Separator between groups of three integer digits (default: none) */
+  thousandsSeparator?: string;
+  /** Decimal separator (default: '.') */
+  decimalSeparator?: string;
+  /** Suffix after the digits, e.g. '%' or ' km' */
+  unit?: string;
+  /** Prefix positive values with '+' (default: false) */
+  showSign?: boolean;
+  /**
+   * Edge of the number placed at its position and kept there as the width
+   * changes (default: 'left'). The baseline sits at the position's y.
+   */
+  anchor?: 'left' | 'center' | 'right';
+}
+
+/** Glyphs of one font and size, laid out once. */
+interface GlyphSet {
+  readonly chars: Map<string, GlyphData>;
+  /** Width of the cell every digit is centered in */
+  readonly digitWidth: number;
+  /** Unit glyphs with their offsets from the start of the unit */
+  readonly unit: readonly { glyph: GlyphData; char: string; x: number }[];
+  readonly unitWidth: number;
+}
+
+const DIGITS = '0123456789';
+
+/**
+ * Format a number with a fixed number of decimals, grouped integer digits
+ * and an optional sign. Values that round to zero never get a sign.
+ */
+export function formatNumber(
+  value: number,
+  options: Pick<DecimalNumberOptions, 'decimals' | 'thousandsSeparator' | 'decimalSeparator' | 'showSign'> = {},
+): string {
+  const decimals = options.decimals ?? 2;
+  const fixed = Math.abs(value).toFixed(decimals);
+  const [int, frac] = fixed.split('.') as [string, string | undefined];
+  const sep = options.thousandsSeparator ?? '';
+  const grouped = sep ? int.replace(/\B(?=(\d{3})+$)/g, sep) : int;
+  const zero = /^[0.]*$/.test(fixed);
+  const sign = zero ? '' : value < 0 ? '-' : options.showSign ? '+' : '';
+  return sign + grouped + (frac !== undefined ? (options.decimalSeparator ?? '.') + frac : '');
+}
+
+export class DecimalNumber extends StyleGroup<TextChar> {
+  private _value: number = 0;
+  private readonly options: DecimalNumberOptions;
+  private readonly decimals: number;
+  private readonly glyphs: GlyphSet;
+
+  /**
+   * Create a number mobject
+   *
+   * @param value - Initial value (must be finite)
+   * @param options - Font, formatting and anchoring options
+   * @param name - Mobject name for debugging
+   */
+  constructor(value: number = 0, options: DecimalNumberOptions = {}, name: string = 'DecimalNumber') {
+    super(name);
+    const decimals = options.decimals ?? 2;
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 20) {
+      throw new RangeError(`Decimals must be an integer from 0 to 20, got: ${decimals}`);
+    }
+    this.options = { ...options };
+    this.decimals = decimals;
+    this.glyphs = DecimalNumber.loadGlyphs(options);
+    this.setValue(value);
+  }
+
+  /**
+   * Get the current value
+   */
+  public getValue(): number {
+    return this._value;
+  }
+
+  /**
+   * Set the value and retypeset the digits (chainable)
+   * @param value - New value (must be finite)
+   */
+  public setValue(value: number): this {
+    if (!Number.isFinite(value)) {
+      throw new RangeError(`DecimalNumber value must be finite, got: ${value}`);
+    }
+    this._value = value;
+    this.typeset(this.format(value));
+    return this;
+  }
+
+  /**
+   * Get the value as currently displayed
+   */
+  public getText(): string {
+    return this.format(this._value) + (this.options.unit ?? '');
+  }
+
+  /**
+   * Create a ChangeValue animation from the current value to another.
+   * @param to Target value
+   * @param duration Optional duration in seconds (defaults to 1 if omitted)
+   */
+  public changeValue(to: number, duration?: number): ChangeValue {
+    const anim = new ChangeValue(this, to);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  /**
+   * Create a CountTo animation counting from zero (or `from`) to a value.
+   * @param to Target value
+   * @param duration Optional duration in seconds (defaults to 1 if omitted)
+   */
+  public countTo(to: number, duration?: number, from: number = 0): CountTo {
+    const anim = new CountTo(this, to, from);
+    if (duration !== undefined) anim.setDuration(duration);
+    return anim;
+  }
+
+  protected format(value: number): string {
+    return formatNumber(value, { ...this.options, decimals: this.decimals });
+  }
+
+  /** Place glyphs for the formatted digits followed by the unit. */
+  private typeset(digits: string): void {
+    const { chars, digitWidth, unit, unitWidth } = this.glyphs;
+    const placed: { glyph: GlyphData; char: string; x: number }[] = [];
+    let x = 0;
+    for (const char of digits) {
+      const glyph = chars.get(char);
+      if (!glyph) continue;
+      if (DIGITS.includes(char)) {
+        placed.push({ glyph, char, x: x + (digitWidth - glyph.advanceWidth) / 2 });
+        x += digitWidth;
+      } else {
+        placed.push({ glyph, char, x });
+        x += glyph.advanceWidth;
+      }
+    }
+    for (const u of unit) placed.push({ ...u, x: x + u.x });
+    const width = x + unitWidth;
+
+    const anchor = this.options.anchor ?? 'left';
+    const dx = anchor === 'left' ? 0 : anchor === 'right' ? -width : -width / 2;
+
+    // Reuse characters so their style and any running animation carry over
+    while (this.children.length < placed.length) this.add(this.styledChar());
+    this.children.length = placed.length;
+    placed.forEach((p, i) => {
+      this.children[i]!.updateGlyph(p.glyph, p.char).setPosition(p.x + dx, 0);
+    });
+  }
+
+  /** New character carrying the number's current style. */
+  private styledChar(): TextChar {
+    const blank: GlyphData = { pathCommands: [], advanceWidth: 0, bbox: { x: 0, y: 0, width: 0, height: 0 }, position: { x: 0, y: 0 } };
+    return new TextChar(blank, ' ')
+      .fill(this.fillColor)
+      .stroke(this.strokeColor)
+      .setStrokeWidth(this.strokeWidth)
+      .setFillOpacity(this.fillOpacity)
+      .setStrokeOpacity(this.strokeOpacity);
+  }
+
+  /** Lay out every character a number can use, plus the unit, in one Text. */
+  private static loadGlyphs(options: DecimalNumberOptions): GlyphSet {
+    const { font, fontSize, weight, style, fontConfig } = options;
+    const symbols = `${DIGITS}+-${options.decimalSeparator ?? '.'}${options.thousandsSeparator ?? ''}`;
+    const unitText = options.unit ?? '';
+    const text = new Text(symbols + unitText, { font, fontSize, weight, style, fontConfig });
+
+    const chars = new Map<string, GlyphData>();
+    for (let i = 0; i < symbols.length; i++) {
+      if (!chars.has(symbols[i]!)) chars.set(symbols[i]!, text.at(i).getGlyphData());
+    }
+    const digitWidth = Math.max(...[...DIGITS].map((d) => chars.get(d)!.advanceWidth));
+
+    const unit: { glyph: GlyphData; char: string; x: number }[] = [];
+    let unitWidth = 0;
+    if (unitText) {
+      const start = text.at(symbols.length).getGlyphData().position.x;
+      for (let i = symbols.length; i < text.length; i++) {
+        const glyph = text.at(i).getGlyphData();
+        unit.push({ glyph, char: text.at(i).char, x: glyph.position.x - start });
+        unitWidth = Math.max(unitWidth, glyph.position.x - start + glyph.advanceWidth);
+      }
+    }
+    return { chars, digitWidth, unit, unitWidth };
+  }
+}
+
+/**
+ * Integer - a DecimalNumber without decimals; values are shown rounded.
+ */
+export class Integer extends DecimalNumber {
+  constructor(value: number = 0, options: Omit<DecimalNumberOptions, 'decimals'> = {}, name: string = 'Integer') {
+    super(value, { ...options, decimals: 0 }, name);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Mini markup for rich text.
+ *
+ * Supported tags (nestable, inner tags win):
+ * - `<b>...</b>` - bold
+ * - `<color=#f00>...</color>` - fill color (hex or CSS name)
+ * - `<size=32>...</size>` - font size in scene units
+ * - `<font=./path/to/font.ttf>...</font>` - font path or family name
+ *
+ * `&lt;`, `&gt;` and `&amp;` produce literal characters.
+ */
+import type { TextSpan, TextStyle } from './text.ts';
+
+/** Thrown on malformed markup. */
+export class MarkupError extends Error {
+  constructor(
+    message: string,
+    public readonly markup: string,
+    /** Offset in the markup where the problem was found */
+    public readonly position: number,
+  ) {
+    super(message);
+    this.name = 'MarkupError';
+  }
+}
+
+/** Plain text and styled spans produced from markup. */
+export interface ParsedMarkup {
+  readonly text: string;
+  readonly spans: readonly TextSpan[];
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&' };
+
+/** Expand #rgb to #rrggbb so colors can be interpolated. */
+function normalizeColor(value: string): string {
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`.toLowerCase() : value;
+}
+
+/** Style set by an opening tag. */
+function tagStyle(name: string, value: string | undefined, fail: (message: string) => never): TextStyle {
+  const need = (): string => {
+    if (!value) fail(`<${name}> needs a value, e.g. <${name}=...>`);
+    return value;
+  };
+  switch (name) {
+    case 'b':
+      if (value !== undefined) fail('<b> takes no value');
+      return { weight: 'bold' };
+    case 'color':
+      return { color: normalizeColor(need()) };
+    case 'size': {
+      const size = Number(need());
+      if (!(size > 0)) fail(`<size> must be a positive number, got '${value}'`);
+      return { fontSize: size };
+    }
+    case 'font':
+      return { font: need() };
+    default:
+      return fail(`Unknown tag <${name}>`);
+  }
+}
+
+/**
+ * Split markup into plain text and styled spans.
+ * @throws MarkupError on unknown, unclosed or mismatched tags
+ */
+export function parseMarkup(markup: string): ParsedMarkup {
+  let text = '';
+  const open: { name: string; start: number; style: TextStyle; order: number }[] = [];
+  const closed: { span: TextSpan; order: number }[] = [];
+  let order = 0;
+
+  for (let i = 0; i < markup.length; ) {
+    const ch = markup[i]!;
+    if (ch === '&') {
+      const m = /^&(lt|gt|amp);/.exec(markup.slice(i));
+      if (!m) throw new MarkupError(`Unescaped '&' at ${i} (use &amp;)`, markup, i);
+      text += ENTITIES[m[1]!]!;
+      i += m[0].length;
+      continue;
+    }
+    if (ch !== '<') {
+      text += ch;
+      i++;
+      continue;
+    }
+
+    const end = markup.indexOf('>', i);
+    if (end < 0) throw new MarkupError(`Unterminated tag at ${i}`, markup, i);
+    const tag = markup.slice(i + 1, end).trim();
+    const fail = (message: string): never => {
+      throw new MarkupError(message, markup, i);
+    };
+
+    if (tag.startsWith('/')) {
+      const name = tag.slice(1).trim();
+      const top = open.pop();
+      if (!top) fail(`Closing </${name}> without an opening tag`);
+      if (top!.name !== name) fail(`Expected </${top!.name}> but found </${name}>`);
+      closed.push({ span: { start: top!.start, end: text.length, style: top!.style }, order: top!.order });
+    } else {
+      const eq = tag.indexOf('=');
+      const name = (eq < 0 ? tag : tag.slice(0, eq)).trim();
+      const value = eq < 0 ? undefined : tag.slice(eq + 1).trim().replace(/^(["'])(.*)\1$/, '$2');
+      open.push({ name, start: text.length, style: tagStyle(name, value, fail), order: order++ });
+    }
+    i = end + 1;
+  }
+
+  const unclosed = open[open.length - 1];
+  if (unclosed) throw new MarkupError(`Unclosed <${unclosed.name}>`, markup, markup.length);
+
+  // Outer tags open first; applying spans in opening order lets inner tags win
+  closed.sort((a, b) => a.order - b.order);
+  return { text, spans: closed.map((c) => c.span) };
+}
@@ -0,0 +1,47 @@
+/**
+ * MarkupText - Text whose styled ranges come from a mini markup:
+ * `new MarkupText('Energy is <b><color=#ffd54f>conserved</color></b>')`.
+ * See markup.ts for the supported tags.
+ */
+import { Text, type TextOptions } from './text.ts';
+import { parseMarkup } from './markup.ts';
+
+export class MarkupText extends Text {
+  private _markup!: string;
+
+  /**
+   * Create text from markup
+   *
+   * @param markup - Text with style tags
+   * @param options - Base font and layout options for unstyled ranges
+   * @param name - Mobject name for debugging
+   * @throws MarkupError on malformed markup
+   */
+  constructor(markup: string, options: TextOptions = {}, name: string = 'MarkupText') {
+    const parsed = parseMarkup(markup);
+    super(parsed.text, options, name);
+    this._markup = markup;
+    for (const span of parsed.spans) this.setStyle([span.start, span.end], span.style);
+  }
+
+  /**
+   * Get the markup this text was built from
+   */
+  public getMarkup(): string {
+    return this._markup;
+  }
+
+  /**
+   * Replace the content with new markup; spans are rebuilt from its tags (chainable)
+   * @throws MarkupError on malformed markup
+   */
+  public override setText(markup: string): this {
+    if (this._markup === markup) return this;
+    const parsed = parseMarkup(markup);
+    this._markup = markup;
+    this.clearStyles();
+    super.setText(parsed.text);
+    for (const span of parsed.spans) this.setStyle([span.start, span.end], span.style);
+    return this;
+  }
+}
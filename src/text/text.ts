@@ -11,22 +11,88 @@
 import type { SKRSContext2D } from '@napi-rs/canvas';
 import { VGroup } from '../core/vgroup.ts';
 import { TextChar } from './text_char.ts';
+import type { BezierPath } from '../core/path.ts';
+import type { ColorString } from '../core/types.ts';
 import { 
   TextLayoutEngine, 
   FontLoader,
   TextLayoutError,
+  FontError,
   type TextLayout, 
+  type TextAlign,
+  type FontRun,
   type GlyphData,
   type FontLoadConfig 
 } from '../font/glyph_path_extractor.ts';
+import { FontScanner, isFontPath, weightValue, type FontFace, type FontStyle, type FontWeight } from '../font/font_scanner.ts';
 
 export interface TextOptions {
-  /** Font path or family name */
-  font?: string;
-  /** Font size in pixels (must be > 0) */
+  /**
+   * Font path or family name, or an ordered list of them: characters
+   * missing from the first font are taken from the next one that has them
+   */
+  font?: string | readonly string[];
+  /** Weight of the face looked up for family names (default: 'normal') */
+  weight?: FontWeight;
+  /** Style of the face looked up for family names (default: 'normal') */
+  style?: FontStyle;
+  /** Font size in scene units, pixels by default (must be > 0) */
   fontSize?: number;
   /** Font loader configuration */
   fontConfig?: FontLoadConfig;
+  /** Wrap lines at spaces to this width in scene units */
+  maxWidth?: number;
+  /** Alignment of lines within the widest line (default: 'left') */
+  align?: TextAlign;
+  /** Factor on the font's natural line spacing (default: 1) */
+  lineHeight?: number;
+}
+
+/** Style of a range of characters; unset fields fall back to the text's own */
+export interface TextStyle {
+  /** Font path or family name */
+  font?: string;
+  /** Font size in scene units (must be > 0) */
+  fontSize?: number;
+  /** Fill color */
+  color?: ColorString;
+  /**
+   * Bold uses the family's bold face when the font is an installed family;
+   * otherwise it is synthesized by outlining glyphs in their fill color, in
+   * place of the text's stroke
+   */
+  weight?: 'normal' | 'bold';
+}
+
+/** A styled character range; later spans win where they overlap */
+export interface TextSpan {
+  /** Index of the first styled character */
+  readonly start: number;
+  /** Index one past the last styled character */
+  readonly end: number;
+  readonly style: Readonly<TextStyle>;
+}
+
+/** Outline width of synthetic bold, as a fraction of the font size */
+const BOLD_STROKE = 0.04;
+
+/** Family names already reported as not installed */
+const MISSING_FAMILIES = new Set<string>();
+
+/** Placement of one line, in the text's local coordinates */
+export interface LineMetrics {
+  /** Characters on the line, without a trailing newline */
+  readonly text: string;
+  /** Index of the line's first character */
+  readonly start: number;
+  /** Index one past the line's last character */
+  readonly end: number;
+  /** Width without trailing spaces */
+  readonly width: number;
+  /** Left edge of the line */
+  readonly x: number;
+  /** Baseline of the line */
+  readonly baseline: number;
 }
 
 export interface TextMetrics {
@@ -35,6 +101,10 @@ export interface TextMetrics {
   readonly baseline: number;
   readonly ascender: number;
   readonly descender: number;
+  /** Distance between consecutive baselines */
+  readonly lineHeight: number;
+  /** Lines from top to bottom */
+  readonly lines: readonly LineMetrics[];
 }
 
 export class Text extends VGroup<TextChar> {
@@ -43,12 +113,20 @@ export class Text extends VGroup<TextChar> {
   // Core text properties
   private _text: string;
   private _font?: string;
+  private _fallbacks: string[] = [];
+  private _weight: FontWeight = 'normal';
+  private _fontStyle: FontStyle = 'normal';
   private _fontSize: number = 48;
+  private _maxWidth?: number;
+  private _align: TextAlign = 'left';
+  private _lineHeight: number = 1;
+  private _spans: TextSpan[] = [];
   
   // Layout management
   private _needsLayout: boolean = true;
   private _lastLayoutHash?: string;
   private _cachedLayout?: TextLayout;
+  private _cachedRuns?: FontRun[];
   
   // System dependencies
   private readonly layoutEngine: TextLayoutEngine;
@@ -70,11 +148,16 @@ export class Text extends VGroup<TextChar> {
     
     // Initialize text properties
     this._text = text;
-    this._font = options.font;
+    this.setWeight(options.weight ?? 'normal');
+    this.setFontStyle(options.style ?? 'normal');
+    this.setFont(options.font);
     
     if (options.fontSize !== undefined) {
       this.setFontSize(options.fontSize);
     }
+    this.setMaxWidth(options.maxWidth);
+    this.setAlign(options.align ?? 'left');
+    this.setLineHeight(options.lineHeight ?? 1);
     
     // Initialize font system
     this.fontLoader = new FontLoader(options.fontConfig);
@@ -99,12 +182,14 @@ export class Text extends VGroup<TextChar> {
   }
 
   /**
-   * Set text content (chainable)
+   * Set text content (chainable); styled spans are removed, since their
+   * character ranges index the old text
    * @param text - New text content
    */
   public setText(text: string): this {
     if (this._text !== text) {
       this._text = text;
+      this._spans = [];
       this.invalidateLayout();
     }
     return this;
@@ -120,38 +205,87 @@ export class Text extends VGroup<TextChar> {
   // ============================================================================
 
   /**
-   * Get current font path/family
+   * Get current font path/family (the first of a fallback chain)
    */
   public getFont(): string | undefined {
     return this._font;
   }
 
   /**
-   * Set font path or family name (chainable)
-   * @param font - Font path or family name
+   * Get the whole font chain, primary font first
    */
-  public setFont(font?: string): this {
-    if (this._font !== font) {
-      this._font = font;
+  public getFonts(): string[] {
+    return this._font === undefined ? [...this._fallbacks] : [this._font, ...this._fallbacks];
+  }
+
+  /**
+   * Set font path or family name, or a fallback chain of them (chainable)
+   * @param font - Font path or family name, or fonts to try in order per character
+   */
+  public setFont(font?: string | readonly string[]): this {
+    const [primary, ...fallbacks] = typeof font === 'string' ? [font] : font ?? [];
+    if (this._font !== primary || this._fallbacks.join('\n') !== fallbacks.join('\n')) {
+      this._font = primary;
+      this._fallbacks = fallbacks;
       this.invalidateLayout();
     }
     return this;
   }
 
   /** Fluent alias for setFont */
-  public font(font?: string): this {
+  public font(font?: string | readonly string[]): this {
     return this.setFont(font);
   }
 
   /**
-   * Get current font size in pixels
+   * Get the weight used to look up family names
+   */
+  public getWeight(): FontWeight {
+    return this._weight;
+  }
+
+  /**
+   * Set the weight used to look up family names (chainable)
+   * @param weight - 'normal', 'bold' or a CSS weight from 1 to 1000
+   * @throws FontError on an invalid weight
+   */
+  public setWeight(weight: FontWeight): this {
+    weightValue(weight);
+    if (this._weight !== weight) {
+      this._weight = weight;
+      this.invalidateLayout();
+    }
+    return this;
+  }
+
+  /**
+   * Get the style used to look up family names
+   */
+  public getFontStyle(): FontStyle {
+    return this._fontStyle;
+  }
+
+  /**
+   * Set the style used to look up family names (chainable)
+   * @param style - 'normal', 'italic' or 'oblique'
+   */
+  public setFontStyle(style: FontStyle): this {
+    if (this._fontStyle !== style) {
+      this._fontStyle = style;
+      this.invalidateLayout();
+    }
+    return this;
+  }
+
+  /**
+   * Get current font size in scene units
    */
   public getFontSize(): number {
     return this._fontSize;
   }
 
   /**
-   * Set font size in pixels (chainable)
+   * Set font size in scene units (chainable)
    * @param px - Font size (must be > 0)
    */
   public setFontSize(px: number): this {
@@ -171,6 +305,135 @@ export class Text extends VGroup<TextChar> {
     return this.setFontSize(px);
   }
 
+  // ============================================================================
+  // PUBLIC API - PARAGRAPH LAYOUT
+  // ============================================================================
+
+  /**
+   * Get the wrapping width in scene units, if any
+   */
+  public getMaxWidth(): number | undefined {
+    return this._maxWidth;
+  }
+
+  /**
+   * Wrap lines at spaces to a width in scene units; undefined disables wrapping (chainable)
+   * @param width - Maximum line width (must be > 0)
+   */
+  public setMaxWidth(width?: number): this {
+    if (width !== undefined && !(width > 0)) {
+      throw new Error(`Maximum width must be positive, got: ${width}`);
+    }
+
+    if (this._maxWidth !== width) {
+      this._maxWidth = width;
+      this.invalidateLayout();
+    }
+    return this;
+  }
+
+  /**
+   * Get line alignment
+   */
+  public getAlign(): TextAlign {
+    return this._align;
+  }
+
+  /**
+   * Align lines left, centered, right or justified within the widest line (chainable)
+   */
+  public setAlign(align: TextAlign): this {
+    if (this._align !== align) {
+      this._align = align;
+      this.invalidateLayout();
+    }
+    return this;
+  }
+
+  /**
+   * Get the line spacing factor
+   */
+  public getLineHeight(): number {
+    return this._lineHeight;
+  }
+
+  /**
+   * Set line spacing as a factor on the font's natural line spacing (chainable)
+   * @param factor - Line height factor (must be > 0)
+   */
+  public setLineHeight(factor: number): this {
+    if (!(factor > 0)) {
+      throw new Error(`Line height must be positive, got: ${factor}`);
+    }
+
+    if (this._lineHeight !== factor) {
+      this._lineHeight = factor;
+      this.invalidateLayout();
+    }
+    return this;
+  }
+
+  // ============================================================================
+  // PUBLIC API - RICH TEXT SPANS
+  // ============================================================================
+
+  /**
+   * Style a range of characters (chainable)
+   * @param range - [start, end) character indices, or a substring to style at every occurrence
+   * @param style - Font, size, color and weight overrides for the range
+   */
+  public setStyle(range: readonly [number, number] | string, style: TextStyle): this {
+    if (style.fontSize !== undefined && !(style.fontSize > 0)) {
+      throw new Error(`Font size must be positive, got: ${style.fontSize}`);
+    }
+
+    const ranges: [number, number][] = [];
+    if (typeof range === 'string') {
+      if (!range) throw new Error('Cannot style an empty substring');
+      for (let i = this._text.indexOf(range); i >= 0; i = this._text.indexOf(range, i + range.length)) {
+        ranges.push([i, i + range.length]);
+      }
+    } else {
+      const [start, end] = range;
+      if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < start) {
+        throw new RangeError(`Invalid style range [${start}, ${end})`);
+      }
+      ranges.push([start, end]);
+    }
+
+    for (const [start, end] of ranges) this._spans.push({ start, end, style: { ...style } });
+    return this.restyle(style);
+  }
+
+  /**
+   * Remove every span so the whole text uses its own style again (chainable)
+   */
+  public clearStyles(): this {
+    const reflow = this._spans.some((span) => this.affectsLayout(span.style));
+    this._spans = [];
+    if (reflow) return this.invalidateLayout();
+    this.propagateStylesToChildren();
+    return this;
+  }
+
+  /**
+   * Get styled spans in the order they were added
+   */
+  public getSpans(): readonly TextSpan[] {
+    return this._spans;
+  }
+
+  /**
+   * Get the merged span style of a character (empty where unstyled)
+   */
+  public getStyleAt(index: number): TextStyle {
+    const style: TextStyle = {};
+    for (const span of this._spans) {
+      if (index >= span.start && index < span.end) Object.assign(style, span.style);
+    }
+    return style;
+  }
+
   // ============================================================================
   // PUBLIC API - TEXT METRICS
   // ============================================================================
@@ -182,12 +445,23 @@ export class Text extends VGroup<TextChar> {
     this.ensureLayout();
     const layout = this._cachedLayout!;
     
+    const [dx, dy] = this.layoutOffset(layout);
+    
     return {
       width: layout.totalWidth,
       height: layout.totalHeight,
       baseline: layout.baseline,
       ascender: layout.ascender,
       descender: layout.descender,
+      lineHeight: layout.lineHeight,
+      lines: layout.lines.map((line) => ({
+        text: this._text.slice(line.start, line.end),
+        start: line.start,
+        end: line.end,
+        width: line.width,
+        x: line.x + dx,
+        baseline: line.baseline + dy,
+      })),
     };
   }
 
@@ -218,6 +492,14 @@ export class Text extends VGroup<TextChar> {
     return super.slice(start, end);
   }
 
+  /**
+   * Combined glyph outlines (forces layout if needed)
+   */
+  public override getPath(): BezierPath {
+    this.ensureLayout();
+    return super.getPath();
+  }
+
   /**
    * Iterator over characters
    */
@@ -266,7 +548,9 @@ export class Text extends VGroup<TextChar> {
     this._needsLayout = true;
     this._lastLayoutHash = undefined;
     this._cachedLayout = undefined;
-    return this;
+    this._cachedRuns = undefined;
+    // New content replaces any morphed outline
+    return this.refreshPoints();
   }
 
   // ============================================================================
@@ -324,14 +608,21 @@ export class Text extends VGroup<TextChar> {
   }
 
   private getLayoutHash(): string {
-    return `${this._text}|${this._font || 'default'}|${this._fontSize}`;
+    const runs = JSON.stringify(this.fontRuns());
+    return `${this._text}|${this.getFonts().join(',') || 'default'}|${this._weight}|${this._fontStyle}|${this._fontSize}|${this._maxWidth ?? ''}|${this._align}|${this._lineHeight}|${runs}`;
   }
 
   private performLayout(): void {
-    const fontPath = this._font || './src/font/ROBOTO-REGULAR.TTF';
+    const fontPath = (this._font && this.resolveFontPath(this._font)) || './src/font/ROBOTO-REGULAR.TTF';
     
     try {
-      const layout = this.layoutEngine.layoutText(fontPath, this._text, this._fontSize);
+      const layout = this.layoutEngine.layoutText(fontPath, this._text, this._fontSize, {
+        maxWidth: this._maxWidth,
+        align: this._align,
+        lineHeight: this._lineHeight,
+        runs: this.fontRuns().map((run) => (run.fontPath ? run : { ...run, fontPath })),
+        fallbacks: this._fallbacks.flatMap((f) => this.resolveFontPath(f) ?? []),
+      });
       this._cachedLayout = layout;
       this.updateCharacterChildren(layout);
     } catch (error) {
@@ -354,6 +645,8 @@ export class Text extends VGroup<TextChar> {
     // Adjust children array size
     this.resizeChildrenArray(children, glyphCount);
     
+    const [dx, dy] = this.layoutOffset(layout);
+
     // Update each character with proper glyph data
     for (let i = 0; i < glyphCount; i++) {
       const glyphData = layout.glyphs[i]!;
@@ -363,15 +656,22 @@ export class Text extends VGroup<TextChar> {
       // Update glyph data
       child.updateGlyph(glyphData, char);
       
-      // Center text around x=0
-      const centeredX = glyphData.position.x - layout.totalWidth / 2;
-      child.setPosition(centeredX, glyphData.position.y);
+      child.setPosition(glyphData.position.x + dx, glyphData.position.y + dy);
       
       // Apply current styles
-      this.applyStylesToChild(child);
+      this.applyStylesToChild(child, i);
     }
   }
 
+  /**
+   * Offset from layout to local coordinates: centers the text around x=0
+   * and the block of baselines around y=0 (a single line sits on y=0).
+   */
+  private layoutOffset(layout: TextLayout): [number, number] {
+    const last = layout.lines[layout.lines.length - 1];
+    return [-layout.totalWidth / 2, -(last?.baseline ?? 0) / 2];
+  }
+
   private resizeChildrenArray(children: TextChar[], targetSize: number): void {
     // Add new children if needed
     while (children.length < targetSize) {
@@ -383,7 +683,7 @@ export class Text extends VGroup<TextChar> {
       };
       
       const child = new TextChar(placeholder, ' ');
-      this.applyStylesToChild(child);
+      this.applyStylesToChild(child, children.length);
       children.push(child);
     }
     
@@ -399,11 +699,13 @@ export class Text extends VGroup<TextChar> {
     // Create minimal layout to prevent crashes
     this._cachedLayout = {
       glyphs: [],
+      lines: [{ start: 0, end: 0, width: 0, x: 0, baseline: 0 }],
       totalWidth: 0,
       totalHeight: this._fontSize,
       baseline: this._fontSize * 0.8,
       ascender: this._fontSize,
       descender: 0,
+      lineHeight: this._fontSize * 1.2,
     };
     
     // Clear children since layout failed
@@ -414,24 +716,95 @@ export class Text extends VGroup<TextChar> {
   private propagateStylesToChildren(): void {
     const children = (this as any).children as TextChar[];
     
-    for (const child of children) {
-      this.applyStylesToChild(child);
+    for (let i = 0; i < children.length; i++) {
+      this.applyStylesToChild(children[i]!, i);
     }
   }
 
-  private applyStylesToChild(child: TextChar): void {
-    if (this.fillColor !== null) {
-      child.fill(this.fillColor);
-    } else {
-      child.fill(null);
-    }
-    
-    if (this.strokeColor !== null) {
-      child.stroke(this.strokeColor);
-    } else {
-      child.stroke(null);
+  private applyStylesToChild(child: TextChar, index: number): void {
+    const style = this._spans.length > 0 ? this.getStyleAt(index) : {};
+    const fill = style.color ?? this.fillColor;
+    child.fill(fill);
+
+    // Synthetic bold: thicken the glyph with an outline in its own color
+    if (style.weight === 'bold' && fill !== null && this.boldFace(style) === undefined) {
+      child.stroke(fill);
+      child.setStrokeWidth((style.fontSize ?? this._fontSize) * BOLD_STROKE);
+      return;
     }
-    
+
+    child.stroke(this.strokeColor);
     child.setStrokeWidth(this.strokeWidth);
   }
+
+  /** Whether a span style changes glyph shapes or advances. */
+  private affectsLayout(style: Readonly<TextStyle>): boolean {
+    return style.font !== undefined || style.fontSize !== undefined || this.boldFace(style) !== undefined;
+  }
+
+  /**
+   * File of a font specification: paths are used as given, family names are
+   * looked up among installed fonts in the text's weight and style.
+   * Undefined when the family is not installed.
+   */
+  private resolveFontPath(font: string): string | undefined {
+    if (isFontPath(font)) return font;
+    return this.findFace(font, this._weight)?.path;
+  }
+
+  /** The installed bold face for a bold span whose font is a family name, if there is one. */
+  private boldFace(style: Readonly<TextStyle>): string | undefined {
+    const family = style.font ?? this._font;
+    if (style.weight !== 'bold' || family === undefined || isFontPath(family)) return undefined;
+    const face = this.findFace(family, 'bold');
+    return face && face.weight >= 600 ? face.path : undefined;
+  }
+
+  /** Look up an installed face; a missing family is reported once and the fallback font used instead. */
+  private findFace(family: string, weight: FontWeight): FontFace | undefined {
+    try {
+      return FontScanner.getInstance().find({ family, weight, style: this._fontStyle });
+    } catch (error) {
+      if (!(error instanceof FontError)) throw error;
+      if (!MISSING_FAMILIES.has(family)) {
+        MISSING_FAMILIES.add(family);
+        console.warn(`${error.message} Using the fallback font.`);
+      }
+      return undefined;
+    }
+  }
+
+  /** Reflow after a layout-affecting style, otherwise just restyle laid-out characters. */
+  private restyle(style: Readonly<TextStyle>): this {
+    if (this.affectsLayout(style)) return this.invalidateLayout();
+    this.propagateStylesToChildren();
+    return this;
+  }
+
+  /**
+   * Character ranges whose merged span style sets another font or size,
+   * as runs for the layout engine; a run in the text's own font has an
+   * empty fontPath. Kept until the layout is invalidated, as finding the
+   * fonts may scan the installed ones.
+   */
+  private fontRuns(): FontRun[] {
+    if (this._cachedRuns) return this._cachedRuns;
+    const runs: FontRun[] = [];
+    this._cachedRuns = runs;
+    if (!this._spans.some((span) => this.affectsLayout(span.style))) return runs;
+
+    for (let i = 0; i < this._text.length; i++) {
+      const style = this.getStyleAt(i);
+      if (!this.affectsLayout(style)) continue;
+      const fontPath = this.boldFace(style) ?? (style.font !== undefined ? this.resolveFontPath(style.font) : undefined) ?? '';
+      const fontSize = style.fontSize ?? this._fontSize;
+      const prev = runs[runs.length - 1];
+      if (prev && prev.end === i && prev.fontPath === fontPath && prev.fontSize === fontSize) {
+        runs[runs.length - 1] = { ...prev, end: i + 1 };
+      } else {
+        runs.push({ start: i, end: i + 1, fontPath, fontSize });
+      }
+    }
+    return runs;
+  }
 }
\ No newline at end of file
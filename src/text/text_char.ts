@@ -9,7 +9,8 @@
  * - Type-safe property access
  */
 import type { SKRSContext2D } from '@napi-rs/canvas';
-import { Mobject } from '../core/mobject.ts';
+import { VMobject } from '../core/vmobject.ts';
+import { pathFromCommands, type BezierPath } from '../core/path.ts';
 import { 
   GlyphRenderer, 
   type GlyphData, 
@@ -21,6 +22,9 @@ export interface CharacterInfo {
   readonly unicode?: number;
   readonly glyphId?: number;
   readonly advanceWidth: number;
+  readonly line: number;
+  /** Font the glyph was taken from (a fallback when the chosen font lacks it) */
+  readonly font?: string;
   readonly bbox: Readonly<{
     x: number;
     y: number;
@@ -29,7 +33,7 @@ export interface CharacterInfo {
   }>;
 }
 
-export class TextChar extends Mobject {
+export class TextChar extends VMobject {
   private _glyphData: GlyphData;
   private _char: string;
   private _renderCache?: {
@@ -65,6 +69,8 @@ export class TextChar extends Mobject {
       unicode: this._glyphData.unicode,
       glyphId: this._glyphData.glyphId,
       advanceWidth: this._glyphData.advanceWidth,
+      line: this.line,
+      font: this.font,
       bbox: { ...this._glyphData.bbox }, // Defensive copy
     };
   }
@@ -90,6 +96,20 @@ export class TextChar extends Mobject {
     return this._glyphData.advanceWidth;
   }
 
+  /**
+   * Get the index of the line this character was laid out on
+   */
+  public get line(): number {
+    return this._glyphData.line ?? 0;
+  }
+
+  /**
+   * Get the font this character's glyph was taken from
+   */
+  public get font(): string | undefined {
+    return this._glyphData.font;
+  }
+
   /**
    * Get glyph bounding box
    */
@@ -119,7 +139,7 @@ export class TextChar extends Mobject {
     this._glyphData = glyphData;
     this._char = char;
     this.invalidateRenderCache();
-    return this;
+    return this.refreshPoints();
   }
 
   /**
@@ -137,6 +157,12 @@ export class TextChar extends Mobject {
    * Render the character glyph with proper error handling
    */
   public override draw(ctx: SKRSContext2D): void {
+    // Morphed, partially drawn or split-opacity glyphs go through the generic vector pipeline
+    if (this.hasCustomPath || this.isPartiallyDrawn || this.fillOpacity !== 1 || this.strokeOpacity !== 1) {
+      super.draw(ctx);
+      return;
+    }
+
     if (!this.visible || !this.hasVisibleContent) {
       return;
     }
@@ -154,10 +180,10 @@ export class TextChar extends Mobject {
   }
 
   /**
-   * Override createPath since we use vector paths directly in draw()
+   * Glyph outline as bezier subpaths
    */
-  protected createPath(_ctx: SKRSContext2D): void {
-    // Vector paths are handled in draw() method
+  protected generatePoints(): BezierPath {
+    return pathFromCommands(this._glyphData.pathCommands);
   }
 
   // ============================================================================
@@ -0,0 +1,60 @@
+import { test, expect } from "bun:test";
+import { Scene } from "../src/scene/scene.ts";
+import { Circle } from "../src/shapes/circle.ts";
+import { MemoryFrameSink } from "../src/renderer/frame_sink.ts";
+
+// The camera maps scene space to the canvas: focusing on an off-center dot
+// brings it to the middle, and zooming magnifies it.
+
+class FocusScene extends Scene {
+  public override async construct(): Promise<void> {
+    const dot = new Circle(4).setColor("#ffffff").setPosition(16, 0);
+    this.add(dot);
+    await this.wait(0.1);
+    await this.play(this.camera.focusOn(dot, 0.5).setZoom(3));
+    await this.wait(0.1);
+  }
+}
+
+function red(sink: MemoryFrameSink, frame: number, x: number, y: number): number {
+  return sink.frames[frame]![(y * sink.width + x) * 4]!;
+}
+
+test("camera focusOn pans and zooms the view", async () => {
+  const sink = new MemoryFrameSink();
+  const scene = new FocusScene({ width: 64, height: 64, fps: 10, backgroundColor: "#000000" }, { outDir: "unused", saveLastFrame: false, savePNGs: false });
+  await scene.addFrameSink(sink).render();
+
+  // Before: the dot sits 16px right of center
+  expect(red(sink, 0, 32, 32)).toBe(0);
+  expect(red(sink, 0, 48, 32)).toBe(255);
+
+  const last = sink.frames.length - 1;
+  expect(scene.camera.zoom).toBeCloseTo(3);
+  expect(scene.camera.position[0]).toBeCloseTo(16);
+  // After: centered and magnified to a radius of 12px
+  expect(red(sink, last, 32, 32)).toBe(255);
+  expect(red(sink, last, 42, 32)).toBe(255);
+  expect(red(sink, last, 47, 32)).toBe(0);
+});
+
+class UnitScene extends Scene {
+  public override async construct(): Promise<void> {
+    // Half the frame wide at any resolution
+    this.add(new Circle(2).setColor("#ffffff").setStrokeWidth(0));
+    await this.wait(0.1);
+  }
+}
+
+test("frameWidth keeps layout independent of pixel size", async () => {
+  for (const size of [64, 32]) {
+    const sink = new MemoryFrameSink();
+    const scene = new UnitScene({ width: size, height: size, fps: 10, frameWidth: 8, backgroundColor: "#000000" }, { outDir: "unused", saveLastFrame: false, savePNGs: false });
+    await scene.addFrameSink(sink).render();
+
+    expect(scene.frameHeight).toBe(8);
+    const c = size / 2;
+    expect(red(sink, 0, c + Math.round(size * 0.2), c)).toBe(255);
+    expect(red(sink, 0, c + Math.round(size * 0.3), c)).toBe(0);
+  }
+});
@@ -0,0 +1,66 @@
+import { test, expect } from "bun:test";
+import { BarChart } from "../src/charts/bar_chart.ts";
+import { LineChart } from "../src/charts/line_chart.ts";
+import { PieChart } from "../src/charts/pie_chart.ts";
+import { niceRange } from "../src/charts/chart.ts";
+
+// Charts lay out shapes from their values; changeData animates those values.
+
+test("niceRange rounds out to readable steps and includes zero", () => {
+  expect(niceRange(3, 47)).toEqual([0, 50, 10]);
+  expect(niceRange(-12, 7)).toEqual([-15, 10, 5]);
+  expect(niceRange(0.1, 0.83)).toEqual([0, 1, 0.2]);
+});
+
+test("BarChart sizes bars from values and grows them with changeData", () => {
+  const chart = new BarChart([10, 20, -5], { labels: ["a", "b", "c"], yRange: [-10, 30, 10], width: 300, height: 400 });
+  const [a, b, c] = chart.getBars();
+  expect(a!.height).toBeCloseTo(100, 9);
+  expect(b!.height).toBeCloseTo(200, 9);
+  // Negative bars hang below the baseline
+  const base = chart.getAxes().c2p(0, 0)[1];
+  expect(c!.position[1]).toBeCloseTo(base - 25, 9);
+  expect(a!.position[0]).toBeCloseTo(-100, 9);
+
+  const anim = chart.changeData([20, 20, 0], 1);
+  anim.setup();
+  anim.tick(0.5);
+  expect(a!.height).toBeGreaterThan(100);
+  expect(a!.height).toBeLessThan(200);
+  anim.cleanup();
+  expect(chart.getData()).toEqual([20, 20, 0]);
+  expect(a!.height).toBeCloseTo(200, 9);
+  expect(() => chart.changeData([1, 2])).toThrow(RangeError);
+});
+
+test("LineChart places one polyline per series with a legend", () => {
+  const chart = new LineChart([
+    { name: "up", values: [0, 1, 2] },
+    { name: "down", values: [2, 1, 0] },
+  ], { yRange: [0, 2, 1], width: 200, height: 100 });
+  const [up, down] = chart.getLines();
+  expect(up!.points.map((p) => [p[0], p[1]])).toEqual([[-100, -50], [0, 0], [100, 50]]);
+  expect(down!.strokeColor).not.toBe(up!.strokeColor);
+  expect(chart.getLegend()!.getLabels().map((t) => t.getText())).toEqual(["up", "down"]);
+
+  chart.setData([[1, 1, 1], [0, 0, 0]]);
+  expect(up!.points[2]![1]).toBeCloseTo(0, 9);
+  expect(() => chart.setData([1, 2, 3])).toThrow(RangeError);
+  expect(() => new LineChart([{ values: [1, 2] }, { values: [1] }])).toThrow(RangeError);
+});
+
+test("PieChart sweeps wedges by share and updates percentages", () => {
+  const chart = new PieChart([1, 1, 2], { labels: ["x", "y", "z"] });
+  const [x, y, z] = chart.getWedges();
+  // Clockwise from the top
+  expect(x!.end).toBeCloseTo(Math.PI / 2, 9);
+  expect(x!.start).toBeCloseTo(0, 9);
+  expect(y!.end).toBeCloseTo(0, 9);
+  expect(z!.end - z!.start).toBeCloseTo(Math.PI, 9);
+  expect(chart.getPercentages().map((p) => p.getText())).toEqual(["25%", "25%", "50%"]);
+
+  chart.setData([3, 1, 0]);
+  expect(chart.getPercentages()[0]!.getText()).toBe("75%");
+  expect(z!.getPath().length).toBe(0);
+  expect(() => chart.setData([1, -1, 1])).toThrow(RangeError);
+});
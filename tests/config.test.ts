@@ -0,0 +1,20 @@
+import { test, expect } from "bun:test";
+import { resolveConfig, QUALITY_PRESETS } from "../src/core/config.ts";
+
+// The CLI layer wins over file and scene config, but the frame width stays
+// at the authored size so a preview resolution rescales the scene.
+
+test("CLI config is the highest-priority layer", () => {
+  const cfg = resolveConfig(
+    { width: 800, height: 450, fps: 24, backgroundColor: "#101010" },
+    { fps: 30 },
+    { ...QUALITY_PRESETS.l, backgroundColor: "#000000" },
+  );
+  expect(cfg.width).toBe(854);
+  expect(cfg.height).toBe(480);
+  expect(cfg.fps).toBe(15);
+  expect(cfg.backgroundColor).toBe("#000000");
+  expect(cfg.frameWidth).toBe(800);
+
+  expect(resolveConfig({ fps: 24 }, { fps: 30 }).fps).toBe(30);
+});
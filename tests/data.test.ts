@@ -0,0 +1,77 @@
+import { test, expect } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseCSV } from "../src/data/csv.ts";
+import { DataError, DataTable, parseDate, parseNumber } from "../src/data/table.ts";
+import { loadData, parseData } from "../src/data/loader.ts";
+import { resolveConfig } from "../src/core/config.ts";
+import { Scene } from "../src/scene/scene.ts";
+
+// Data files become typed tables; scenes look them up by name so the CLI
+// can swap datasets without touching the scene.
+
+test("parseCSV handles quotes, doubled quotes, line breaks and CRLF", () => {
+  const rows = parseCSV('\uFEFFname,note\r\n"Smith, J","said ""hi""\nthen left"\r\n\r\nx,""\n');
+  expect(rows).toEqual([
+    ["name", "note"],
+    ["Smith, J", 'said "hi"\nthen left'],
+    ["x", ""],
+  ]);
+  expect(() => parseCSV('a\n"open,b\n', {}, "f.csv")).toThrow("f.csv:2: Unterminated quoted field");
+  expect(() => parseCSV('"a"b\n')).toThrow(DataError);
+});
+
+test("parseNumber and parseDate accept only well-formed values", () => {
+  expect(parseNumber("1,234.5")).toBe(1234.5);
+  expect(parseNumber("-1.5e3")).toBe(-1500);
+  expect(parseNumber("12,34")).toBeNull();
+  expect(parseDate("2024-03-01")!.toISOString()).toBe("2024-03-01T00:00:00.000Z");
+  expect(parseDate("2024-03-01 14:30+02:00")!.toISOString()).toBe("2024-03-01T12:30:00.000Z");
+  expect(parseDate("2023-02-29")).toBeNull();
+});
+
+test("column types are inferred and missing cells are null", () => {
+  const table = parseData("day,sales,region\n2024-01-01,\"1,200\",north\n2024-01-02,NA,\n2024-01-03,900,south\n", "csv");
+  expect(table.columns).toEqual(["day", "sales", "region"]);
+  expect(table.getType("day")).toBe("date");
+  expect(table.getType("sales")).toBe("number");
+  expect(table.getType("region")).toBe("string");
+  expect(table.numbers("sales")).toEqual([1200, null, 900]);
+  expect(table.dropMissing("sales").rowCount).toBe(2);
+  expect(() => table.numbers("region")).toThrow("holds string values");
+
+  const typed = DataTable.fromRows(["id"], [["007"]], { types: { id: "string" } });
+  expect(typed.strings("id")).toEqual(["007"]);
+});
+
+test("JSON data may be rows or columns", () => {
+  const rows = parseData('[{"x": 1, "y": "a"}, {"x": 2, "y": null}]', "json");
+  const cols = parseData('{"x": [1, 2], "y": ["a", null]}', "json");
+  expect(rows.rows()).toEqual(cols.rows());
+  expect(rows.row(1)).toEqual({ x: 2, y: null });
+  expect(() => parseData('{"x": [1], "y": []}', "json")).toThrow("equal lengths");
+});
+
+test("loadData reads files by extension and scenes find them by name", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "munny-data-"));
+  try {
+    const file = join(dir, "points.tsv");
+    await writeFile(file, "x\ty\n1\t2\n3\t4\n");
+    expect((await loadData(file)).numbers("y")).toEqual([2, 4]);
+    await expect(loadData(join(dir, "missing.csv"))).rejects.toThrow(DataError);
+
+    // CLI entries replace scene entries of the same name
+    const cfg = resolveConfig({ data: { points: "old.csv", extra: "e.csv" } }, undefined, { data: { points: file } });
+    expect(cfg.data).toEqual({ points: file, extra: "e.csv" });
+
+    class DataScene extends Scene {
+      public override async construct(): Promise<void> {}
+    }
+    const scene = new DataScene(cfg, { outDir: "unused", saveLastFrame: false, savePNGs: false });
+    expect((await scene.loadData("points")).rowCount).toBe(2);
+    await expect(scene.loadData("nope")).rejects.toThrow('No data file named "nope"');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
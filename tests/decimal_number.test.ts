@@ -0,0 +1,51 @@
+import { test, expect } from "bun:test";
+import { DecimalNumber, Integer, formatNumber } from "../src/text/decimal_number.ts";
+
+// Numbers are typeset from cached glyphs; digits keep fixed cells so values can change every frame.
+
+test("formatNumber handles decimals, grouping and signs", () => {
+  expect(formatNumber(1234567.891, { decimals: 2, thousandsSeparator: "," })).toBe("1,234,567.89");
+  expect(formatNumber(3.5, { decimals: 0 })).toBe("4");
+  expect(formatNumber(-0.001, { decimals: 2 })).toBe("0.00");
+  expect(formatNumber(12, { decimals: 1, showSign: true, decimalSeparator: "," })).toBe("+12,0");
+  expect(formatNumber(-950, { decimals: 0, thousandsSeparator: " " })).toBe("-950");
+});
+
+test("DecimalNumber keeps its anchored edge and digit cells while the value changes", () => {
+  const n = new DecimalNumber(1.25, { fontSize: 20, unit: "%", anchor: "left" });
+  expect(n.getText()).toBe("1.25%");
+  expect(n.length).toBe(5);
+  const onesX = n.get(0)!.position[0];
+  const pointX = n.get(1)!.position[0];
+
+  // A narrow 1 and a wide 8 share the same cell
+  n.setValue(8.11);
+  expect(n.get(0)!.position[0]).toBeCloseTo(onesX, 6);
+  expect(n.get(1)!.position[0]).toBeCloseTo(pointX, 6);
+
+  const r = new DecimalNumber(5, { fontSize: 20, decimals: 0, anchor: "right" });
+  const right = r.get(0)!.position[0];
+  r.setValue(15);
+  expect(r.length).toBe(2);
+  expect(r.get(1)!.position[0]).toBeCloseTo(right, 6);
+
+  expect(() => n.setValue(NaN)).toThrow(RangeError);
+});
+
+test("ChangeValue and CountTo interpolate the displayed value", () => {
+  const n = new Integer(10, { fontSize: 20, thousandsSeparator: "," });
+  const anim = n.changeValue(2010, 2);
+  anim.setup();
+  anim.tick(0.5);
+  expect(n.getText()).toBe("1,010");
+  anim.tick(1);
+  expect(n.getValue()).toBe(2010);
+
+  n.setColor("#ff0000");
+  const count = n.countTo(100);
+  count.setup();
+  expect(n.getText()).toBe("0");
+  count.tick(1);
+  expect(n.getText()).toBe("100");
+  expect(n.get(0)!.fillColor).toBe("#ff0000");
+});
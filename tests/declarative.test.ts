@@ -0,0 +1,95 @@
+import { test, expect } from "bun:test";
+import { parseSceneDocument } from "../src/declarative/loader.ts";
+import { sceneFromDocument } from "../src/declarative/document_scene.ts";
+import { SceneDocumentError } from "../src/declarative/document.ts";
+import { MemoryFrameSink } from "../src/renderer/frame_sink.ts";
+
+// Scene documents describe objects and a timeline as data; YAML and JSON
+// spellings of a document build the same scene.
+
+test("YAML and JSON spellings of a document are the same document", () => {
+  const yaml = [
+    "# comment",
+    "name: Demo",
+    "objects:",
+    "  - id: label",
+    "    type: Text",
+    "    text: |",
+    "      line one",
+    "      line two",
+    "    position: [0, -40]",
+    "timeline:",
+    "  - play: FadeIn",
+    "    target: label",
+  ].join("\n");
+  const json = JSON.stringify({
+    name: "Demo",
+    objects: [{ id: "label", type: "Text", text: "line one\nline two\n", position: [0, -40] }],
+    timeline: [{ play: "FadeIn", target: "label" }],
+  });
+  expect(parseSceneDocument(yaml, "yaml")).toEqual(parseSceneDocument(json, "json"));
+  expect(() => parseSceneDocument("objects: [1, 2", "yaml", "s.yaml")).toThrow(SceneDocumentError);
+  expect(() => parseSceneDocument("objects: [1, 2", "yaml", "s.yaml")).toThrow("s.yaml: Invalid YAML");
+});
+
+test("documents are checked and play shorthand is expanded", () => {
+  const doc = parseSceneDocument(
+    JSON.stringify({
+      objects: [{ id: "dot", type: "Circle" }],
+      timeline: [{ play: "MoveTo", target: "dot", to: [1, 2], duration: 2 }, { wait: 1 }, { remove: "dot" }],
+    }),
+    "json",
+  );
+  expect(doc.timeline[0]).toEqual({ play: [{ animation: "MoveTo", target: "dot", to: [1, 2] }], duration: 2 });
+  expect(doc.timeline[2]).toEqual({ remove: ["dot"] });
+
+  const bad = (json: unknown): (() => unknown) => () => parseSceneDocument(JSON.stringify(json), "json", "d.json");
+  expect(bad({ objects: [{ id: "a", type: "Circle" }, { id: "a", type: "Circle" }], timeline: [] })).toThrow('objects[1].id: duplicate id "a"');
+  expect(bad({ timeline: [{ play: "FadeIn", target: "ghost" }] })).toThrow('d.json: timeline[0].target: no object "ghost"');
+  expect(bad({ timeline: [{ wait: 1, add: "x" }] })).toThrow("exactly one of play, wait, add or remove");
+  expect(bad({ objects: [{ id: "a", type: "Circle" }], timeline: [{ play: "FadeIn", target: "a", easing: "wobble" }] })).toThrow("timeline[0].easing");
+});
+
+test("a document renders as a scene, entering objects when they first play", async () => {
+  const doc = parseSceneDocument(
+    [
+      "name: Dot",
+      "config: { width: 32, height: 32, fps: 10, backgroundColor: '#000000' }",
+      "objects:",
+      "  - { id: dot, type: Circle, radius: 6, fill: '#ff0000', stroke: null, position: [-8, 0] }",
+      "timeline:",
+      "  - wait: 0.1",
+      "  - play: MoveTo",
+      "    target: dot",
+      "    to: [8, 0]",
+      "    duration: 0.5",
+      "  - wait: 0.1",
+    ].join("\n"),
+    "yaml",
+  );
+  const Ctor = sceneFromDocument(doc);
+  expect(Ctor.name).toBe("Dot");
+  const sink = new MemoryFrameSink();
+  const scene = new Ctor(undefined, { outDir: "unused", saveLastFrame: false, savePNGs: false });
+  await scene.addFrameSink(sink).render();
+
+  const red = (frame: number, x: number): number => sink.frames[frame]![(16 * 32 + x) * 4]!;
+  expect(sink.frames.length).toBe(7);
+  // Not on stage before its first animation
+  expect(red(0, 8)).toBe(0);
+  expect(red(1, 8)).toBe(255);
+  expect(red(6, 24)).toBe(255);
+});
+
+test("object and animation fields are checked when the scene is built", async () => {
+  const build = async (objects: unknown[], timeline: unknown[]): Promise<void> => {
+    const Ctor = sceneFromDocument(parseSceneDocument(JSON.stringify({ objects, timeline }), "json"), { source: "d.json" });
+    await new Ctor({ width: 16, height: 16 }, { outDir: "unused", saveLastFrame: false, savePNGs: false }).render();
+  };
+  await expect(build([{ id: "a", type: "Circle", radus: 4 }], [])).rejects.toThrow("d.json: objects[0].radus: unknown field");
+  await expect(build([{ id: "a", type: "Hexagon" }], [])).rejects.toThrow('unknown type "Hexagon"');
+  await expect(build([{ id: "a", type: "Text" }], [])).rejects.toThrow("objects[0].text: is required");
+  await expect(build([{ id: "c", type: "BarChart", values: [1, 2] }], [{ play: "ChangeData", target: "c", values: [1] }]))
+    .rejects.toThrow(SceneDocumentError);
+  await expect(build([{ id: "a", type: "Circle" }], [{ play: [{ animation: "Spin", target: "a" }] }])).rejects.toThrow('unknown animation "Spin"');
+});
@@ -0,0 +1,29 @@
+import { test, expect } from "bun:test";
+import { Scene } from "../src/scene/scene.ts";
+import { VGroup } from "../src/core/vgroup.ts";
+import { Circle } from "../src/shapes/circle.ts";
+
+// insertAbove/insertBelow place an object next to a reference; a missing
+// reference throws without disturbing the list.
+
+class EmptyScene extends Scene {
+  public override async construct(): Promise<void> {}
+}
+
+test("insertAbove and insertBelow reorder, and fail cleanly on a missing reference", () => {
+  const [a, b, c] = [new Circle(1, "a"), new Circle(1, "b"), new Circle(1, "c")];
+  const group = new VGroup().add(a, b, c);
+  group.insertBelow(c, a);
+  expect([...group]).toEqual([c, a, b]);
+  group.insertAbove(c, b);
+  expect([...group]).toEqual([a, b, c]);
+
+  const stranger = new Circle(1, "stranger");
+  expect(() => group.insertAbove(b, stranger)).toThrow("reference 'stranger' is not present");
+  expect([...group]).toEqual([a, b, c]);
+
+  const scene = new EmptyScene({ width: 8, height: 8 }, { outDir: "unused", saveLastFrame: false, savePNGs: false });
+  scene.add(a, b);
+  expect(() => scene.insertBelow(a, stranger)).toThrow("is not present");
+  expect(scene.contains(a)).toBe(true);
+});
@@ -0,0 +1,39 @@
+import { test, expect } from "bun:test";
+import { existsSync } from "fs";
+import { FontScanner } from "../src/font/font_scanner.ts";
+import { FontError } from "../src/font/glyph_path_extractor.ts";
+import { Text } from "../src/text/text.ts";
+
+// Family names resolve to installed font files; unknown names fail with suggestions.
+
+test("FontScanner finds faces by family and suggests close names", () => {
+  const scanner = new FontScanner(["./src/font"]);
+  expect(scanner.getFamilies()).toEqual(["Roboto"]);
+  // Nearest weight and style stand in for ones that are not installed
+  const face = scanner.find({ family: "roboto", weight: 700, style: "italic" });
+  expect(face.path).toBe("src/font/ROBOTO-REGULAR.TTF");
+  expect(face.weight).toBe(400);
+
+  let error: unknown;
+  try {
+    scanner.find({ family: "Robotto" });
+  } catch (e) {
+    error = e;
+  }
+  expect(error).toBeInstanceOf(FontError);
+  expect((error as FontError).suggestions).toEqual(["Roboto"]);
+  expect((error as FontError).message).toContain('"Roboto"');
+  expect(() => scanner.find({ family: "Roboto", weight: 0 })).toThrow(FontError);
+});
+
+test.skipIf(!existsSync("/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf"))("Text looks up system fonts by family, weight and style", () => {
+  const bold = new Text("Hi", { font: "DejaVu Sans", weight: 700, fontSize: 20 });
+  expect(bold.at(0).font).toBe("/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf");
+  // Families that are not installed fall back to the default font
+  expect(new Text("Hi", { font: "DejaVu Sanz" }).at(0).font).toBe("./src/font/ROBOTO-REGULAR.TTF");
+
+  // Bold spans use the installed bold face instead of a synthetic outline
+  const t = new Text("a bold word", { font: "DejaVu Sans", fontSize: 20 }).setStyle("bold", { weight: "bold" });
+  expect(t.at(2).font).toBe("/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf");
+  expect(t.at(2).strokeWidth).toBe(t.at(0).strokeWidth);
+});
@@ -0,0 +1,121 @@
+import { test, expect } from "bun:test";
+import { NumberLine } from "../src/graphing/number_line.ts";
+import { Axes } from "../src/graphing/axes.ts";
+import { NumberPlane } from "../src/graphing/number_plane.ts";
+import { ParametricFunction } from "../src/graphing/parametric_function.ts";
+import { ImplicitFunction } from "../src/graphing/implicit_function.ts";
+
+// Graph coordinates map into the axes' parent space; plotted curves live there too.
+
+test("NumberLine places ticks and labels and converts numbers to points", () => {
+  const line = new NumberLine({ range: [0, 2, 0.5], length: 400, includeNumbers: true, numbersToExclude: [1] });
+  expect(line.getTicks().length).toBe(5);
+  expect(line.getNumbers().map((t) => t.getText())).toEqual(["0.0", "0.5", "1.5", "2.0"]);
+  expect(line.n2p(0)).toEqual([-200, 0]);
+
+  line.setPosition(50, 20);
+  expect(line.n2p(2)[0]).toBeCloseTo(250, 9);
+  expect(line.p2n([150, -999])).toBeCloseTo(1.5, 9);
+  expect(() => new NumberLine({ range: [1, 1] })).toThrow(RangeError);
+});
+
+test("Axes c2p and p2c round trip through a moved and scaled group", () => {
+  const axes = new Axes({ xRange: [0, 10, 2], yRange: [-1, 1, 0.5], xLength: 500, yLength: 200 });
+  expect(axes.c2p(5, 0)).toEqual([0, 0]);
+  expect(axes.c2p(10, 1)).toEqual([250, 100]);
+  // The y axis crosses at x = 0, the left end of the x range
+  expect(axes.getYAxis().position[0]).toBe(-250);
+
+  axes.setPosition(100, -40).setScale(2, 2);
+  const p = axes.c2p(7.5, -0.25);
+  const [x, y] = axes.p2c(p);
+  expect(x).toBeCloseTo(7.5, 9);
+  expect(y).toBeCloseTo(-0.25, 9);
+  expect(p[0]).toBeCloseTo(100 + 2 * 125, 9);
+});
+
+test("plot follows the function, breaks at poles and shades areas", () => {
+  const axes = new Axes({ xRange: [-2, 2], yRange: [-4, 4], xLength: 400, yLength: 400 });
+  const parabola = axes.plot((x) => x * x, undefined, { samples: 41 });
+  const b = parabola.getBounds();
+  expect(b.x).toBeCloseTo(-200, 6);
+  expect(b.width).toBeCloseTo(400, 6);
+  expect(b.y + b.height).toBeCloseTo(axes.c2p(0, 4)[1], 6);
+
+  const hyperbola = axes.plot((x) => 1 / x, undefined, { samples: 40 });
+  expect(hyperbola.getPath().length).toBe(2);
+
+  const area = axes.getArea(parabola, [0, 1]);
+  const a = area.getBounds();
+  expect(a.x).toBeCloseTo(axes.c2p(0, 0)[0], 6);
+  expect(a.y).toBeCloseTo(axes.c2p(0, 0)[1], 6);
+  expect(a.height).toBeCloseTo(axes.c2p(1, 1)[1] - axes.c2p(1, 0)[1], 6);
+
+  // Only x values where both graphs are defined contribute an edge pair
+  const root = axes.plot((x) => Math.sqrt(x));
+  const between = axes.getArea(parabola, [-1, 1], { boundedGraph: root, samples: 21 });
+  expect(between.points.length).toBe(2 * 11);
+  expect(between.getBounds().x).toBeCloseTo(axes.c2p(0, 0)[0], 6);
+
+  const label = axes.getGraphLabel(parabola, "x²", { x: 1, direction: [1, 0], buff: 5 });
+  expect(label.getBounds().x).toBeCloseTo(axes.c2p(1, 1)[0] + 5, 6);
+});
+
+test("NumberPlane draws a grid line per tick under its axes", () => {
+  const plane = new NumberPlane({ xRange: [-2, 2], yRange: [-1, 1], xLength: 200, yLength: 100 });
+  expect(plane.getGridLines().length).toBe(5 + 3);
+  expect(plane.get(0)).toBe(plane.getGridLines()[0]);
+  expect(plane.get(plane.length - 1)).toBe(plane.getYAxis());
+});
+
+test("ParametricFunction samples densely where it bends and breaks at jumps", () => {
+  const circle = new ParametricFunction((t) => [100 * Math.cos(t), 100 * Math.sin(t)], [0, 2 * Math.PI]);
+  const path = circle.getPath();
+  expect(path.length).toBe(1);
+  expect(path[0]!.closed).toBe(true);
+  expect(circle.getArcLength()).toBeCloseTo(2 * Math.PI * 100, 0);
+
+  // A tight bend at t = 0 gets more samples than the straight arms
+  const [run] = new ParametricFunction((t) => [100 * t, 100 * Math.abs(t) ** 0.5], [-1, 1], { samples: 8 }).sample();
+  const near = run!.filter(([x]) => Math.abs(x) < 25).length;
+  const far = run!.filter(([x]) => x > 50).length;
+  expect(near).toBeGreaterThan(far);
+
+  const step = new ParametricFunction((t) => [100 * t, t < 0.3 ? 0 : 100], [0, 1]);
+  expect(step.getPath().length).toBe(2);
+  const split = new ParametricFunction((t) => [100 * t, 0], [0, 1], { discontinuities: [0.5] });
+  expect(split.getPath().length).toBe(2);
+  // Undefined for |t - 0.5| < 0.1: the runs end close to the gap
+  const holed = new ParametricFunction((t) => [100 * t, 10 * Math.sqrt(Math.abs(t - 0.5) - 0.1)], [0, 1]);
+  const runs = holed.sample();
+  expect(runs.length).toBe(2);
+  expect(runs[0]!.at(-1)![0]).toBeCloseTo(40, 1);
+  expect(runs[1]![0]![0]).toBeCloseTo(60, 1);
+
+  // Progressive drawing works like any VMobject
+  const create = circle.create(1);
+  create.setup();
+  create.tick(0.5);
+  expect(circle.isPartiallyDrawn).toBe(true);
+  create.cleanup();
+  expect(circle.isPartiallyDrawn).toBe(false);
+});
+
+test("ImplicitFunction traces closed and open level curves", () => {
+  const circle = new ImplicitFunction((x, y) => x * x + y * y - 1, { xRange: [-2, 2], yRange: [-2, 2], resolution: 40 });
+  const [loop, ...rest] = circle.trace();
+  expect(rest.length).toBe(0);
+  expect(loop!.closed).toBe(true);
+  for (const [x, y] of loop!.points) expect(Math.hypot(x, y)).toBeCloseTo(1, 4);
+
+  // Two branches of a hyperbola run off the edges of the region
+  const hyperbola = new ImplicitFunction((x, y) => x * x - y * y - 1, { resolution: 50 }, (x, y) => [50 * x, 50 * y]);
+  const curves = hyperbola.trace();
+  expect(curves.length).toBe(2);
+  expect(curves.every((c) => !c.closed)).toBe(true);
+  expect(hyperbola.getBounds().width).toBeCloseTo(500, 0);
+
+  const axes = new Axes({ xRange: [-2, 2], yRange: [-2, 2], xLength: 400, yLength: 400 });
+  const plotted = axes.plotImplicit((x, y) => x * x + y * y - 1);
+  expect(plotted.getBounds().width).toBeCloseTo(200, 0);
+});
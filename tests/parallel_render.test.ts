@@ -0,0 +1,28 @@
+import { test, expect } from "bun:test";
+import { MemoryFrameSink } from "../src/renderer/frame_sink.ts";
+import { renderParallel } from "../src/renderer/parallel.ts";
+import { loadScene } from "../src/scene/scene_loader.ts";
+import { promises as fs } from "fs";
+import { join } from "path";
+import os from "os";
+
+// Workers each replay the whole timeline but draw only their own frames;
+// the merged stream must match a serial render frame for frame.
+
+test("parallel render merges worker frames in serial order", async () => {
+  const outDir = await fs.mkdtemp(join(os.tmpdir(), "munny_parallel_"));
+  const sceneFile = join(import.meta.dir, "../src/examples/create_demo.ts");
+  const fileConfig = { width: 48, height: 27, fps: 4 };
+  const output = { outDir, saveLastFrame: false, savePNGs: false };
+
+  const { Ctor } = await loadScene(sceneFile, "CreateDemo");
+  const serial = new MemoryFrameSink();
+  await new Ctor(fileConfig, output).addFrameSink(serial).render();
+
+  const merged = new MemoryFrameSink();
+  await renderParallel({ sceneFile, sceneName: "CreateDemo", fileConfig, output }, [merged], { workers: 2, chunkSize: 3 });
+
+  expect(merged.closed).toBe(true);
+  expect(merged.indices).toEqual(serial.indices);
+  expect(merged.frames).toEqual(serial.frames);
+}, 30000);
@@ -0,0 +1,47 @@
+import { test, expect } from "bun:test";
+import { alignPaths, partialPath, pathLength, segmentCount } from "../src/core/path.ts";
+import { Circle } from "../src/shapes/circle.ts";
+import { Rectangle } from "../src/shapes/rectangle.ts";
+import { Text } from "../src/text/text.ts";
+import { Transform } from "../src/animation/transforms/transform.ts";
+
+test("shape outlines read back as aligned bezier paths", () => {
+  const circle = new Circle(50).getPath();
+  const rect = new Rectangle(100, 60).getPath();
+  expect(circle.length).toBe(1);
+  expect(segmentCount(circle[0]!)).toBe(4);
+  expect(segmentCount(rect[0]!)).toBe(4);
+
+  const bounds = new Circle(50).setPosition(10, 0).getBounds();
+  expect(bounds.x).toBeCloseTo(-40);
+  expect(bounds.width).toBeCloseTo(100);
+
+  // "o" has two contours, "l" has one: the shorter path is padded
+  const o = new Text("o").getPath();
+  const l = new Text("l").getPath();
+  const [a, b] = alignPaths(o, l);
+  expect(a.length).toBe(b.length);
+  for (let i = 0; i < a.length; i++) expect(a[i]!.points.length).toBe(b[i]!.points.length);
+});
+
+test("Transform ends with the destination outline and style", () => {
+  const circle = new Circle(50).setColor("#ff0000");
+  const rect = new Rectangle(100, 60).setColor("#0000ff").setPosition(30, 0);
+  const anim = new Transform(circle, rect);
+  anim.setup();
+  anim.tick(0.5);
+  expect(circle.position[0]).toBeCloseTo(15);
+  anim.cleanup();
+
+  expect(circle.fillColor).toBe("#0000ff");
+  const xs = circle.getPath()[0]!.points.filter((_, i) => i % 2 === 0);
+  expect(Math.max(...xs)).toBeCloseTo(50);
+});
+
+test("partialPath keeps the requested share of the outline", () => {
+  const square = new Rectangle(100, 100).getPath();
+  const half = partialPath(square, 0, 0.5);
+  expect(pathLength(half)).toBeCloseTo(200, 3);
+  expect(half[0]!.closed).toBe(false);
+  expect(partialPath(square, 0, 1)[0]!.closed).toBe(true);
+});
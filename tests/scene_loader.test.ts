@@ -0,0 +1,56 @@
+import { test, expect } from "bun:test";
+import { promises as fs } from "fs";
+import { join } from "path";
+import os from "os";
+import { loadScene, loadScenes } from "../src/scene/scene_loader.ts";
+import { ConcatFrameSink, MemoryFrameSink } from "../src/renderer/frame_sink.ts";
+
+// A lesson file exports many scenes; they are found in the order the file
+// exports them, and --concat joins their frames into one stream.
+
+const MODULE = (scenePath: string): string => `
+import { Scene } from ${JSON.stringify(scenePath)};
+export const config = { width: 8, height: 8, fps: 10 };
+export const helper = () => 1;
+export class Zeta extends Scene {
+  static config = { fps: 20 };
+  async construct() { await this.wait(0.2); }
+}
+export abstract class LessonBase extends Scene {
+  abstract title(): number;
+  async construct() { await this.wait(this.title()); }
+}
+export class Alpha extends LessonBase {
+  title() { return 0.3; }
+}
+abstract class Shared extends Scene {}
+export { Shared as Common };
+class Middle extends Scene {}
+export { Middle as Beta };
+`;
+
+test("loadScenes lists exported scenes in export order, skipping abstract bases", async () => {
+  const dir = await fs.mkdtemp(join(os.tmpdir(), "munny_scenes_"));
+  try {
+    const file = join(dir, "lesson.ts");
+    await fs.writeFile(file, MODULE(join(import.meta.dir, "../src/scene/scene.ts")));
+
+    const { scenes, fileConfig } = await loadScenes(file);
+    expect(scenes.map((s) => s.name)).toEqual(["Zeta", "Alpha", "Beta"]);
+    expect(fileConfig).toEqual({ width: 8, height: 8, fps: 10 });
+    await expect(loadScene(file, "Gamma")).rejects.toThrow("scenes in it: Zeta, Alpha, Beta");
+
+    // Scenes render one after another into a single numbered stream
+    const joined = new MemoryFrameSink();
+    const concat = new ConcatFrameSink(joined);
+    for (const { Ctor } of scenes.slice(0, 2)) {
+      await new Ctor(fileConfig, { outDir: dir, saveLastFrame: false, savePNGs: false }).addFrameSink(concat).render();
+      expect(joined.closed).toBe(false);
+    }
+    await concat.finish();
+    expect(joined.closed).toBe(true);
+    expect(joined.indices).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,82 @@
+import { test, expect } from "bun:test";
+import { Scene } from "../src/scene/scene.ts";
+import { Circle } from "../src/shapes/circle.ts";
+import { ValueTracker } from "../src/core/value_tracker.ts";
+import { MemoryFrameSink } from "../src/renderer/frame_sink.ts";
+import { promises as fs } from "fs";
+import { join } from "path";
+import os from "os";
+
+// Frames from play() and wait() share one running counter, so the PNG
+// sequence stays continuous for ffmpeg.
+
+class WaitScene extends Scene {
+  public override async construct(): Promise<void> {
+    const dot = new Circle(10).setColor("#ffffff");
+    this.add(dot);
+    await this.play(dot.moveTo([20, 0], 0.5));
+    await this.wait(0.5);
+    await this.play(dot.fadeOut(0.5));
+  }
+}
+
+test("wait() emits numbered frames between play() calls", async () => {
+  const outDir = await fs.mkdtemp(join(os.tmpdir(), "munny_wait_"));
+  const scene = new WaitScene({ width: 64, height: 64, fps: 10 }, { outDir, saveLastFrame: false, savePNGs: true });
+  await scene.construct();
+
+  const files = (await fs.readdir(outDir)).filter((f) => f.endsWith(".png")).sort();
+  expect(files.length).toBe(15);
+  expect(files[0]).toBe("WaitScene_00000.png");
+  expect(files[14]).toBe("WaitScene_00014.png");
+});
+
+test("frame sinks receive every frame and are closed by render()", async () => {
+  const outDir = await fs.mkdtemp(join(os.tmpdir(), "munny_sink_"));
+  const sink = new MemoryFrameSink();
+  const scene = new WaitScene({ width: 32, height: 16, fps: 10 }, { outDir, saveLastFrame: false, savePNGs: false });
+  await scene.addFrameSink(sink).render();
+
+  expect(sink.closed).toBe(true);
+  expect(sink.indices).toEqual(Array.from({ length: 15 }, (_, i) => i));
+  expect(sink.width).toBe(32);
+  expect(sink.frames[0]!.length).toBe(32 * 16 * 4);
+  // Frames held by wait() are identical; the fade-out changes the picture
+  expect(sink.frames[6]).toEqual(sink.frames[5]!);
+  expect(sink.frames[14]).not.toEqual(sink.frames[5]!);
+  expect(await fs.readdir(outDir)).toEqual([]);
+});
+
+class UpdaterScene extends Scene {
+  public readonly trail: number[] = [];
+  public override async construct(): Promise<void> {
+    const dot = new Circle(5);
+    const label = new Circle(2).addUpdater((m) => m.setPosition(dot.position[0]!, dot.position[1]! + 10), true);
+    const x = new ValueTracker(0);
+    const follower = new Circle(1).addUpdater((m) => m.setPosition(x.getValue(), 0));
+    const spinner = new Circle(3).addUpdater((m, dt) => m.setRotation(m.rotation + dt));
+    this.add(dot, label, follower, spinner);
+
+    await this.play(dot.moveTo([20, 0], 0.5), x.changeValue(50, 0.5));
+    this.trail.push(label.position[0]!, label.position[1]!, follower.position[0]!);
+    await this.wait(0.5);
+    this.trail.push(spinner.rotation);
+  }
+}
+
+test("updaters run before every frame of play() and wait()", async () => {
+  const outDir = await fs.mkdtemp(join(os.tmpdir(), "munny_updaters_"));
+  const sink = new MemoryFrameSink();
+  const scene = new UpdaterScene({ width: 32, height: 16, fps: 10 }, { outDir, saveLastFrame: false, savePNGs: false });
+  await scene.addFrameSink(sink).render();
+
+  // The label follows the dot's last drawn position; the follower the tracker's
+  const [lx, ly, fx, spin] = scene.trail;
+  expect(lx).toBeCloseTo(16, 6);
+  expect(ly).toBe(10);
+  expect(fx).toBeCloseTo(40, 6);
+  // One dt of 1/fps per frame over 10 frames; wait() renders them all
+  expect(spin).toBeCloseTo(1, 6);
+  expect(sink.indices.length).toBe(10);
+  expect(sink.frames[6]).not.toEqual(sink.frames[5]!);
+});
@@ -0,0 +1,90 @@
+import { test, expect } from "bun:test";
+import { SVGMobject } from "../src/svg/svg_mobject.ts";
+import { SVGParseError, parseXml, type XmlElement } from "../src/svg/xml.ts";
+import { Scene } from "../src/scene/scene.ts";
+import { MemoryFrameSink } from "../src/renderer/frame_sink.ts";
+
+// Inline documents exercise the same path as files: every drawable element
+// becomes a styled child, flipped to y up and centered on the origin.
+
+const ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 50">
+  <rect id="frame" x="0" y="0" width="100" height="50" rx="5" fill="#fff" stroke="#000" stroke-width="2"/>
+  <g transform="translate(10 10)" fill="rgb(255, 0, 0)" opacity="0.5">
+    <circle id="dot" cx="10" cy="10" r="10"/>
+    <polygon points="30,0 50,0 40,20" style="fill: #0f0; fill-opacity: 0.25"/>
+    <line x1="30" y1="0" x2="40" y2="15" stroke="currentColor" color="#00f" transform="scale(2)"/>
+  </g>
+  <ellipse cx="50" cy="25" rx="5" ry="3" display="none"/>
+</svg>`;
+
+test("SVGMobject turns each element into a styled child", () => {
+  const svg = new SVGMobject(ICON);
+  expect(svg.length).toBe(4);
+
+  const frame = svg.getById("frame")!;
+  expect(frame.fillColor).toBe("#ffffff");
+  expect(frame.strokeColor).toBe("#000000");
+  expect(frame.strokeWidth).toBe(2);
+
+  const dot = svg.getById("dot")!;
+  expect(dot.fillColor).toBe("#ff0000");
+  expect(dot.strokeColor).toBeNull();
+  expect(dot.opacity).toBe(0.5);
+  // Circle center (20, 20) in SVG coordinates, relative to the drawing's center (50, 25), y up
+  expect(dot.position[0]).toBeCloseTo(-30, 6);
+  expect(dot.position[1]).toBeCloseTo(5, 6);
+
+  const tri = svg.get(2)!;
+  expect(tri.fillColor).toBe("#00ff00");
+  expect(tri.fillOpacity).toBe(0.25);
+
+  const line = svg.get(3)!;
+  expect(line.fillColor).toBeNull();
+  expect(line.strokeColor).toBe("#0000ff");
+  expect(line.strokeWidth).toBeCloseTo(2, 6);
+});
+
+test("SVGMobject scales to a requested height and reports bad input", () => {
+  const svg = new SVGMobject(ICON, { height: 5 });
+  const b = svg.getBounds();
+  expect(b.height).toBeCloseTo(5, 6);
+  expect(b.width).toBeCloseTo(10, 6);
+  expect(b.x + b.width / 2).toBeCloseTo(0, 6);
+  expect(svg.getById("frame")!.strokeWidth).toBeCloseTo(0.2, 6);
+
+  expect(() => new SVGMobject("/nonexistent/icon.svg")).toThrow(SVGParseError);
+  expect(() => new SVGMobject('<svg><use href="#missing"/></svg>')).toThrow(SVGParseError);
+});
+
+// A square with a square hole, as design tools export icons: the inner
+// outline only cuts a hole under the even-odd rule, inherited from the group.
+const FRAME = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 40 40">
+  <g fill-rule="evenodd" fill="#f00">
+    <path id="frame" d="M0 0H40V40H0Z M10 10H30V30H10Z"/>
+    <path id="solid" fill-rule="nonzero" d="M0 0H1V1H0Z"/>
+  </g>
+</svg>`;
+
+class FrameScene extends Scene {
+  public override async construct(): Promise<void> {
+    this.add(new SVGMobject(FRAME));
+    await this.wait(0.1);
+  }
+}
+
+test("fill-rule evenodd cuts holes on canvas and in SVG export", async () => {
+  const svg = new SVGMobject(FRAME);
+  expect(svg.getById("frame")!.fillRule).toBe("evenodd");
+  expect(svg.getById("solid")!.fillRule).toBe("nonzero");
+
+  const sink = new MemoryFrameSink();
+  const scene = new FrameScene({ width: 40, height: 40, frameWidth: 40, backgroundColor: "#000000" }, { outDir: "unused", saveLastFrame: false, savePNGs: false });
+  await scene.addFrameSink(sink).render();
+  const red = (x: number, y: number): number => sink.frames[0]![(y * 40 + x) * 4]!;
+  expect(red(5, 20)).toBe(255);
+  expect(red(20, 20)).toBe(0);
+
+  const paths = (el: XmlElement): XmlElement[] => (el.tag === "path" ? [el] : el.children.flatMap(paths));
+  const filled = paths(parseXml(scene.toSVG())).filter((el) => el.attrs["fill"] === "#ff0000");
+  expect(filled.map((el) => el.attrs["fill-rule"])).toEqual(["evenodd", undefined]);
+});
@@ -0,0 +1,54 @@
+import { test, expect } from "bun:test";
+import { Scene } from "../src/scene/scene.ts";
+import { Circle } from "../src/shapes/circle.ts";
+import { Rectangle } from "../src/shapes/rectangle.ts";
+import { Text } from "../src/text/text.ts";
+import { parseXml, type XmlElement } from "../src/svg/xml.ts";
+import { promises as fs } from "fs";
+import { join } from "path";
+import os from "os";
+
+// SVG export records what draw() paints: one <path> per fill or stroke, in
+// pixel coordinates, with the frame's transforms and opacities applied.
+
+class StillScene extends Scene {
+  public override async construct(): Promise<void> {
+    const dot = new Circle(10).fill("#ff0000").stroke("#ffffff").setStrokeWidth(2).setPosition(20, 0).setOpacity(0.5);
+    const box = new Rectangle(20, 10).fill("#00ff00").stroke(null).setPosition(-20, 10);
+    this.add(dot, box, new Text("Hi").setPosition(0, -20));
+    await this.wait(0.1);
+  }
+}
+
+function paths(root: XmlElement): XmlElement[] {
+  return root.tag === "path" ? [root] : root.children.flatMap(paths);
+}
+
+test("toSVG serializes shapes and glyph outlines in pixel space", async () => {
+  const scene = new StillScene({ width: 100, height: 50, frameWidth: 200, backgroundColor: "#000000" }, { outDir: "unused", saveLastFrame: false, savePNGs: false });
+  await scene.render();
+  const root = parseXml(scene.toSVG());
+  expect(root.attrs["viewBox"]).toBe("0 0 100 50");
+
+  const all = paths(root);
+  // Background, then the dot's fill and stroke, then the box
+  expect(all[0]!.attrs["fill"]).toBe("#000000");
+  expect(all[1]!.attrs["fill"]).toBe("#ff0000");
+  expect(all[1]!.attrs["fill-opacity"]).toBe("0.5");
+  expect(all[2]!.attrs["stroke"]).toBe("#ffffff");
+  // Half a pixel per scene unit
+  expect(all[2]!.attrs["stroke-width"]).toBe("1");
+  expect(all[3]!.attrs["fill"]).toBe("#00ff00");
+  expect(all[3]!.attrs["d"]).toBe("M35 22.5L45 22.5L45 17.5L35 17.5L35 22.5Z");
+  // Each visible glyph of the text is one more path
+  expect(all.length).toBeGreaterThanOrEqual(6);
+});
+
+test("saveLastFrame writes an SVG when asked to", async () => {
+  const outDir = await fs.mkdtemp(join(os.tmpdir(), "munny_svg_"));
+  const scene = new StillScene({ width: 100, height: 50 }, { outDir, saveLastFrame: true, savePNGs: false, lastFrameFormat: "svg" });
+  await scene.render();
+  expect(await fs.readdir(outDir)).toEqual(["StillScene_last.svg"]);
+  const svg = await fs.readFile(join(outDir, "StillScene_last.svg"), "utf8");
+  expect(svg.startsWith("<?xml")).toBe(true);
+});
@@ -0,0 +1,30 @@
+import { test, expect } from "bun:test";
+import { MathTex, Tex, TexError } from "../src/tex/tex.ts";
+
+// Formulas render offline through texsvg; each source string becomes a part
+// holding its glyphs, and styling the whole restyles every glyph.
+
+test("MathTex splits glyphs by part and centers the formula", async () => {
+  const eq = await MathTex.create(["a^2", "+", "b^2"], { fontSize: 100 });
+  expect(eq.length).toBe(3);
+  expect(eq.get(0)!.length).toBe(2);
+  expect(eq.get(1)!.length).toBe(1);
+  expect(eq.getGlyphs().length).toBe(5);
+  expect(eq.getPartByTex("+")).toBe(eq.get(1)!);
+
+  const b = eq.getBounds();
+  expect(b.x + b.width / 2).toBeCloseTo(0, 6);
+  expect(b.y + b.height / 2).toBeCloseTo(0, 6);
+  // Roughly one em tall at 100 units per em
+  expect(b.height).toBeGreaterThan(60);
+  expect(b.height).toBeLessThan(140);
+
+  eq.setColor("#ff0000");
+  expect(eq.getGlyphs().every((g) => g.fillColor === "#ff0000")).toBe(true);
+});
+
+test("Tex renders text mode and reports LaTeX errors", async () => {
+  const t = await Tex.create("if $x>0$");
+  expect(t.getGlyphs().length).toBe(5);
+  await expect(MathTex.create("\\frac{1}{")).rejects.toBeInstanceOf(TexError);
+});
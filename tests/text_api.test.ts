@@ -1,5 +1,8 @@
 import { test, expect } from "bun:test";
+import { existsSync } from "fs";
 import { Text } from "../src/text/text.ts";
+import { MarkupText } from "../src/text/markup_text.ts";
+import { MarkupError } from "../src/text/markup.ts";
 
 // Validate fluent chaining and default behavior of Text
 
@@ -20,3 +23,83 @@ test("Text fluent API", () => {
   expect(t).toBeDefined();
   // No runtime exceptions during chaining indicates API shape is intact
 });
+
+test("Text lays out newlines, wrapping and alignment", () => {
+  const t = new Text("ab\nlonger line", { fontSize: 20, align: "right" });
+  const m = t.getMetrics();
+  expect(m.lines.map((l) => l.text)).toEqual(["ab", "longer line"]);
+  // Every character keeps its child, newline included, tagged with its line
+  expect([...t].length).toBe(14);
+  expect(t.at(1).line).toBe(0);
+  expect(t.at(3).line).toBe(1);
+  // Right-aligned lines share their right edge; baselines are centered around y=0
+  const [a, b] = m.lines;
+  expect(a!.x + a!.width).toBeCloseTo(b!.x + b!.width, 6);
+  expect(a!.baseline - b!.baseline).toBeCloseTo(m.lineHeight, 6);
+  expect(a!.baseline + b!.baseline).toBeCloseTo(0, 6);
+  expect(m.height).toBeGreaterThan(m.lineHeight);
+
+  const p = new Text("the quick brown fox jumps over the lazy dog", { fontSize: 20, maxWidth: 120, align: "justify", lineHeight: 1.5 });
+  const lines = p.getMetrics().lines;
+  expect(lines.length).toBeGreaterThan(2);
+  expect(lines.every((l) => l.width <= 120)).toBe(true);
+  // Justified lines fill the block; the last line keeps its natural width
+  const full = p.getMetrics().width;
+  for (const l of lines.slice(0, -1)) expect(l.width).toBeCloseTo(full, 6);
+  expect(lines[0]!.baseline - lines[1]!.baseline).toBeCloseTo(p.getMetrics().lineHeight, 6);
+  expect(() => p.setMaxWidth(0)).toThrow();
+});
+
+test("MarkupText styles ranges and mixes sizes on one baseline", () => {
+  const t = new MarkupText("Energy is <b><color=#f00>con<size=40>serv</size>ed</color></b> &amp; more", { fontSize: 20 });
+  expect(t.getText()).toBe("Energy is conserved & more");
+  expect(t.at(0).fillColor).toBe("#ffffff");
+  expect(t.at(10).fillColor).toBe("#ff0000");
+  // Bold is an outline in the glyph's own color, scaled with its size
+  expect(t.at(10).strokeColor).toBe("#ff0000");
+  expect(t.at(10).strokeWidth).toBeCloseTo(0.8, 6);
+  expect(t.at(14).strokeWidth).toBeCloseTo(1.6, 6);
+  // Larger glyphs widen the line but keep the shared baseline
+  expect(t.at(14).position[1]).toBe(t.at(0).position[1]);
+  expect(t.at(14).getBounds().height).toBeGreaterThan(t.at(11).getBounds().height * 1.5);
+  expect(t.getMetrics().width).toBeGreaterThan(new Text("Energy is conserved & more", { fontSize: 20 }).getMetrics().width);
+
+  expect(() => new MarkupText("<b>x</color>")).toThrow(MarkupError);
+  expect(() => new MarkupText("<i>x</i>")).toThrow(MarkupError);
+});
+
+test("Text.setStyle highlights every occurrence of a keyword", () => {
+  const t = new Text("a keyword, then keyword again", { fontSize: 20 }).setStyle("keyword", { color: "#00ff00" });
+  expect(t.getSpans().map((s) => s.start)).toEqual([2, 16]);
+  expect(t.at(2).fillColor).toBe("#00ff00");
+  expect(t.at(16).fillColor).toBe("#00ff00");
+  expect(t.at(10).fillColor).toBe("#ffffff");
+  t.clearStyles();
+  expect(t.at(2).fillColor).toBe("#ffffff");
+
+  // Spans index characters, so new text drops them; markup re-applies its own
+  t.setStyle("keyword", { color: "#00ff00", fontSize: 40 }).setText("other words");
+  expect(t.getSpans()).toEqual([]);
+  expect(t.at(2).fillColor).toBe("#ffffff");
+  const m = new MarkupText("<color=#f00>ab</color>cd").setText("ab<color=#f00>cd</color>");
+  expect(m.at(0).fillColor).toBe("#ffffff");
+  expect(m.at(2).fillColor).toBe("#ff0000");
+});
+
+test("Font fallback chains fill in missing glyphs and keep characters aligned", () => {
+  const roboto = "./src/font/ROBOTO-REGULAR.TTF";
+  // Roboto has no emoji; the surrogate pair still maps to two characters
+  const t = new Text("a😀b", { font: [roboto, "./missing-font.ttf"], fontSize: 20 });
+  expect(t.getFonts()).toEqual([roboto, "./missing-font.ttf"]);
+  expect(t.length).toBe(4);
+  expect(t.at(3).char).toBe("b");
+  expect(t.at(3).font).toBe(roboto);
+
+  const dejavu = "/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf";
+  if (!existsSync(dejavu)) return;
+  const mixed = new Text("a→b", { font: [roboto, dejavu], fontSize: 20 });
+  expect(mixed.at(0).font).toBe(roboto);
+  expect(mixed.at(1).font).toBe(dejavu);
+  expect(mixed.at(1).hasVisibleContent).toBe(true);
+  expect(new Text("a→b", { font: roboto, fontSize: 20 }).at(1).font).toBe(roboto);
+});